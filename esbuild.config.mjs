@@ -11,6 +11,24 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = (process.argv[2] === 'production');
 
+// Command-line importer: a standalone Node script, built once
+if (process.argv[2] === 'cli') {
+	await esbuild.build({
+		banner: {
+			js: `#!/usr/bin/env node\n${banner}`,
+		},
+		entryPoints: ['src/cli.ts'],
+		bundle: true,
+		platform: 'node',
+		format: 'cjs',
+		target: 'node16',
+		logLevel: "info",
+		treeShaking: true,
+		outfile: 'cli.js',
+	});
+	process.exit(0);
+}
+
 const context = await esbuild.context({
 	banner: {
 		js: banner,
@@ -1,28 +1,25 @@
 import { App, Plugin, PluginSettingTab, Setting, Notice, TFile } from 'obsidian';
-import { SimpleZBookNoteConverter } from './src/core/simple-zbooknote-converter';
-import { parseMarginPkgFile, isValidMarginPkgFile } from './src/core/database-parser';
+import { createDefaultConverterRegistry } from './src/core/converter-registry';
+import { runImportPipeline } from './src/core/import-pipeline';
+import { BacklinkMode } from './src/core/backlink-writer';
+import { FlashcardFormat } from './src/core/flashcard-exporter';
+import { CALLOUT_TYPES, MARGINNOTE_COLORS, HighlightColorizer, renderColorCss } from './src/utils/highlight-colors';
+import { HierarchyMode } from './src/core/note-tree';
+import { DocumentRegistry, parseDocumentMapping } from './src/core/document-registry';
+import { loadNoteTemplate } from './src/core/note-template';
+import { PropertyRule, parsePropertySchema } from './src/core/property-schema';
+import { ImportConfigFile, loadImportConfig } from './src/core/import-config';
+import { ImportSelection, buildImportPreview, filterDatabaseData, getSkippedNoteIds, renderSampleNote } from './src/core/import-preview';
+import { ImportFilter, FilterPreset, applyImportFilters, parseFilterPresets } from './src/core/import-filters';
+import { ImportPreviewModal } from './src/ui/import-preview-modal';
+import { FilterPresetModal } from './src/ui/filter-preset-modal';
+import { parseImportFiles, isImportableFile } from './src/core/database-parser';
 import { DatabaseData } from './src/core/margin-note-importer';
-
-interface MarginNoteSettings {
-	defaultOutputFolder: string;
-	createSubdirectories: boolean;
-	includeMetadata: boolean;
-	includeCoordinates: boolean;
-	skipEmptyNotes: boolean;
-	strictDecoding: boolean;
-}
-
-const DEFAULT_SETTINGS: MarginNoteSettings = {
-	defaultOutputFolder: 'MarginNote Import',
-	createSubdirectories: true,
-	includeMetadata: true,
-	includeCoordinates: true,
-	skipEmptyNotes: true,
-	strictDecoding: false
-}
+import { MarginNoteSettings, mergeSettings } from './src/settings';
 
 export default class MarginNotePlugin extends Plugin {
 	settings: MarginNoteSettings;
+	converterRegistry = createDefaultConverterRegistry();
 
 	async onload() {
 		await this.loadSettings();
@@ -42,6 +39,28 @@ export default class MarginNotePlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'import-marginnote-csv-folder',
+			name: 'Import MarginNote CSV export folder',
+			callback: () => {
+				this.openImportDialog(undefined, true);
+			}
+		});
+
+		this.addCommand({
+			id: 'import-marginnote-file-with-filter',
+			name: 'Import MarginNote file with filter preset',
+			callback: () => {
+				if (this.settings.filterPresets.length === 0) {
+					new Notice('No filter presets yet, add one under Import Filters in the settings');
+					return;
+				}
+				new FilterPresetModal(this.app, this.settings.filterPresets, preset => {
+					this.openImportDialog([preset]);
+				}).open();
+			}
+		});
+
 		// Add settings tab
 		this.addSettingTab(new MarginNoteSettingTab(this.app, this));
 	}
@@ -51,28 +70,38 @@ export default class MarginNotePlugin extends Plugin {
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		this.settings = mergeSettings(await this.loadData());
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
 	}
 
-	async openImportDialog() {
+	/**
+	 * Pick a .marginpkg file, MarginNote database or CSV exports (folder picks a
+	 * whole export folder); filterPresets replaces the presets enabled in the settings
+	 */
+	async openImportDialog(filterPresets?: FilterPreset[], folder: boolean = false) {
 		// Create file input element
 		const input = document.createElement('input');
 		input.type = 'file';
-		input.accept = '.marginpkg';
+		input.multiple = true;
+		if (folder) {
+			input.webkitdirectory = true;
+		} else {
+			// Only a hint for the picker, the content decides the format
+			input.accept = '.marginpkg,.marginnotes,.sqlite,.db,.csv';
+		}
 		input.style.display = 'none';
 		
 		input.onchange = async (e: Event) => {
 			const target = e.target as HTMLInputElement;
-			const file = target.files?.[0];
+			const files = Array.from(target.files || []);
 			
-			if (file && file.name.endsWith('.marginpkg')) {
-				await this.importMarginNoteFile(file);
+			if (files.length > 0) {
+				await this.importMarginNoteFile(files, filterPresets);
 			} else {
-				new Notice('Please select a .marginpkg file');
+				new Notice('Please select a MarginNote file');
 			}
 		};
 		
@@ -81,30 +110,141 @@ export default class MarginNotePlugin extends Plugin {
 		document.body.removeChild(input);
 	}
 
-	async importMarginNoteFile(file: File) {
+	async importMarginNoteFile(source: File | File[], filterPresets?: FilterPreset[]) {
 		try {
 			new Notice('Starting MarginNote import...');
 			
-			// Validate file
-			if (!isValidMarginPkgFile(file)) {
-				new Notice('Invalid .marginpkg file');
+			// Validate by content: .marginpkg archives, MarginNote databases and CSV exports
+			const pickedFiles = Array.isArray(source) ? source : [source];
+			const files: File[] = [];
+			for (const file of pickedFiles) {
+				if (await isImportableFile(file)) {
+					files.push(file);
+				}
+			}
+			if (files.length === 0) {
+				new Notice('Not a MarginNote notebook, database or CSV export');
 				return;
 			}
+			const sourceName = files.length === 1
+				? files[0].name
+				: (files[0].webkitRelativePath.split('/')[0] || files[0].name);
 			
-			// Parse the .marginpkg file and extract database data
-			const databaseData: DatabaseData = await parseMarginPkgFile(file, this.settings.strictDecoding);
+			// Load the note template before parsing so a broken one stops the import early
+			let noteTemplate: string | undefined;
+			if (this.settings.templateFile) {
+				try {
+					noteTemplate = await loadNoteTemplate(this.settings.templateFile, this.app.vault.adapter);
+				} catch (error) {
+					console.error('MarginNote template error:', error);
+					new Notice(`Note template: ${(error as Error).message}`);
+					return;
+				}
+			}
+			
+			// Config file (config.example.json format) for the grouped import
+			let importConfig: ImportConfigFile | undefined;
+			if (this.settings.importConfigFile && this.settings.converterStrategy === 'grouped') {
+				try {
+					importConfig = await loadImportConfig(this.settings.importConfigFile, this.app.vault.adapter);
+				} catch (error) {
+					console.error('MarginNote import config error:', error);
+					new Notice(`Import config: ${(error as Error).message}`);
+					return;
+				}
+			}
 			
-			// Setup simple converter - title = ZNOTEID, content = MbBookNotes_for_export
-			const converterConfig = {
-				outputDirectory: this.settings.defaultOutputFolder,
-				vaultAdapter: this.app.vault.adapter
-			};
+			let propertySchema: PropertyRule[];
+			try {
+				propertySchema = parsePropertySchema(this.settings.frontmatterProperties);
+			} catch (error) {
+				new Notice(`Frontmatter properties: ${(error as Error).message}`);
+				return;
+			}
+			
+			const presets = filterPresets || this.settings.filterPresets.filter(preset => preset.enabled);
+			let filters: ImportFilter[];
+			try {
+				filters = parseFilterPresets(presets, this.settings.colorTable);
+			} catch (error) {
+				new Notice((error as Error).message);
+				return;
+			}
 			
-			// Perform conversion - ZNOTEID titles with full MbBookNote objects
-			const converter = new SimpleZBookNoteConverter(converterConfig);
-			const result = await converter.convertFromData(databaseData);
+			// Parse the picked files and keep the notes the filter presets let through
+			const unfilteredData: DatabaseData = await parseImportFiles(files, this.settings.strictDecoding);
+			const parsedData = applyImportFilters(unfilteredData, filters);
+			if (filters.length > 0) {
+				console.log(`Filters ${presets.map(preset => preset.name).join(', ')} kept ${parsedData.booknotes.length} of ${unfilteredData.booknotes.length} notes`);
+				if (parsedData.booknotes.length === 0) {
+					new Notice('No notes match the import filter');
+					return;
+				}
+			}
+			
+			// Match the notebook's documents to PDFs in the vault for page links
+			const documents = DocumentRegistry.fromDatabase(
+				parsedData,
+				this.app.vault.getFiles().filter(f => f.extension === 'pdf').map(f => f.path),
+				parseDocumentMapping(this.settings.pdfMapping),
+				{ rectLinks: this.settings.pdfRectLinks }
+			);
+			const unmatchedDocuments = documents.getUnmatched();
+			if (unmatchedDocuments.length > 0) {
+				console.log('No vault PDF for documents:', unmatchedDocuments.map(d => d.title || d.file || d.md5));
+			}
+			
+			// Let the user pick notebooks, documents and note types before anything is written
+			let selection: ImportSelection | null = null;
+			if (this.settings.showImportPreview) {
+				const colorizer = new HighlightColorizer(this.settings.colorTable);
+				selection = await new ImportPreviewModal(
+					this.app,
+					sourceName,
+					parsedData,
+					buildImportPreview(parsedData, colorizer),
+					current => renderSampleNote(parsedData, current, { colorizer, documents, template: noteTemplate })
+				).choose();
+				if (!selection) {
+					new Notice('MarginNote import cancelled');
+					return;
+				}
+			}
+			const databaseData = selection ? filterDatabaseData(parsedData, selection) : parsedData;
+			
+			// Convert, then run the passes that build on the written notes
+			const result = await runImportPipeline(databaseData, {
+				settings: this.settings,
+				vaultAdapter: this.app.vault.adapter,
+				documents,
+				noteTemplate,
+				propertySchema,
+				importConfig,
+				packageName: sourceName,
+				skippedNoteIds: getSkippedNoteIds(unfilteredData, databaseData),
+				converterRegistry: this.converterRegistry
+			});
+			if (result.unresolvedLinks.length > 0) {
+				new Notice(`${result.unresolvedLinks.length} MarginNote links point to notes that were not imported. Check console for details.`);
+				console.warn('Unresolved MarginNote links:', result.unresolvedLinks);
+			}
+			if (result.anki?.path) {
+				new Notice(`Anki package written: ${result.anki.cards} cards in ${result.anki.decks} decks.`);
+			}
+			
+			if (result.success && this.settings.generateColorCss) {
+				await this.writeColorSnippet();
+			}
 			
-			if (result.success) {
+			if (result.success && result.notesUpdated !== undefined) {
+				const folderName = result.outputFolder || this.settings.defaultOutputFolder;
+				const deletedCount = result.deletedNoteIds?.length || 0;
+				new Notice(`Sync completed in ${folderName}: ${result.notesCreated} new, ${result.notesUpdated} updated, ` +
+					`${result.notesUnchanged} unchanged, ${deletedCount} deleted in MarginNote.`);
+				if (deletedCount > 0) {
+					console.log('Notes deleted in MarginNote (vault files kept):', result.deletedNoteIds);
+				}
+			} else if (result.success) {
 				const folderName = result.outputFolder || this.settings.defaultOutputFolder;
 				new Notice(`Import completed! Created ${result.notesCreated} notes in ${folderName}.`);
 				console.log(`Import completed: ${result.notesCreated} notes created in vault folder: ${folderName}`);
@@ -119,6 +259,17 @@ export default class MarginNotePlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * Write the highlight colour CSS snippet into the vault's snippets folder
+	 */
+	async writeColorSnippet(): Promise<void> {
+		const snippetsFolder = `${this.app.vault.configDir}/snippets`;
+		if (!(await this.app.vault.adapter.exists(snippetsFolder))) {
+			await this.app.vault.adapter.mkdir(snippetsFolder);
+		}
+		await this.app.vault.adapter.write(`${snippetsFolder}/marginnote-colors.css`, renderColorCss(this.settings.colorTable));
+	}
+
 	/**
 	 * Copy generated notes from temp directory to vault
 	 * @deprecated - Memory converter now writes directly to vault
@@ -184,7 +335,7 @@ Successfully processed your MarginNote file.
 
 ### Processing Details
 The MarginNote file was processed using the CSV converter system. This system:
-1. Extracts the SQLite database from the .marginpkg file
+1. Reads the SQLite database from the .marginpkg file, database or CSV export
 2. Converts database records to MbBookNote objects
 3. Generates individual markdown files for each note
 4. Preserves all metadata and relationships
@@ -228,6 +379,31 @@ class MarginNoteSettingTab extends PluginSettingTab {
 
 		containerEl.createEl('h2', {text: 'MarginNote Import Settings'});
 
+		new Setting(containerEl)
+			.setName('Output style')
+			.setDesc('How MarginNote notes are turned into vault notes')
+			.addDropdown(dropdown => {
+				for (const strategy of this.plugin.converterRegistry.list()) {
+					dropdown.addOption(strategy.id, strategy.name);
+				}
+				dropdown
+					.setValue(this.plugin.settings.converterStrategy)
+					.onChange(async (value) => {
+						this.plugin.settings.converterStrategy = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Preview before import')
+			.setDesc('Show the notebooks, documents and note types in the file, with a sample note, and choose what to import before any file is written')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showImportPreview)
+				.onChange(async (value) => {
+					this.plugin.settings.showImportPreview = value;
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 			.setName('Default output folder')
 			.setDesc('Folder where imported notes will be created')
@@ -239,6 +415,39 @@ class MarginNoteSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Note template')
+			.setDesc('Vault path of a template for imported notes, e.g. Templates/MarginNote.md. Fields: {{title}}, {{excerptText}}, {{notesText}}, {{createDate | date:"YYYY-MM-DD"}}, {{#each comments}}...{{/each}}, {{#if ...}}...{{/if}}; {{content}} is the built-in layout. Leave empty for the built-in layout (not used by the raw row style)')
+			.addText(text => text
+				.setPlaceholder('Templates/MarginNote.md')
+				.setValue(this.plugin.settings.templateFile)
+				.onChange(async (value) => {
+					this.plugin.settings.templateFile = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Import config file')
+			.setDesc('Vault path of a JSON config in the config.example.json format (snake_case keys, per-notebook "notebooks" overrides). Its settings replace the ones here for the grouped output style')
+			.addText(text => text
+				.setPlaceholder('MarginNote/config.json')
+				.setValue(this.plugin.settings.importConfigFile)
+				.onChange(async (value) => {
+					this.plugin.settings.importConfigFile = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Frontmatter properties')
+			.setDesc('Which note fields become properties (ZNOTEID style), one per line as "property: field (type)", e.g. "page: startPage (number)" or "created: createDate (datetime)". Types: text, number, checkbox, date, datetime, list. Leave empty to write every field')
+			.addTextArea(text => text
+				.setPlaceholder('noteId\npage: startPage (number)\ncreated: createDate (datetime)')
+				.setValue(this.plugin.settings.frontmatterProperties)
+				.onChange(async (value) => {
+					this.plugin.settings.frontmatterProperties = value;
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 			.setName('Create subdirectories')
 			.setDesc('Organize notes into subdirectories by topic type')
@@ -289,6 +498,281 @@ class MarginNoteSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Export media')
+			.setDesc('Write image excerpts and PDF snippets as attachments and embed them in notes')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.includeMedia)
+				.onChange(async (value) => {
+					this.plugin.settings.includeMedia = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Attachments folder')
+			.setDesc('Folder for exported media, relative to the output folder')
+			.addText(text => text
+				.setPlaceholder('attachments')
+				.setValue(this.plugin.settings.attachmentsFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.attachmentsFolder = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Note hierarchy')
+			.setDesc('Keep notes flat, nest them in folders mirroring the mind map branches, or add one outline note per notebook')
+			.addDropdown(dropdown => dropdown
+				.addOption('flat', 'Flat')
+				.addOption('folders', 'Nested branch folders')
+				.addOption('outline', 'Outline note per notebook')
+				.setValue(this.plugin.settings.noteHierarchy)
+				.onChange(async (value) => {
+					this.plugin.settings.noteHierarchy = value as HierarchyMode;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Folder per notebook')
+			.setDesc('When a package holds several notebooks, write each notebook\'s notes to its own folder (nested like the notebooks) in the output folder')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.notebookFolders)
+				.onChange(async (value) => {
+					this.plugin.settings.notebookFolders = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Notebook overview')
+			.setDesc('Write an overview note per notebook with its metadata, documents, counts by type and colour, highlight activity and links to every card')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.notebookOverview)
+				.onChange(async (value) => {
+					this.plugin.settings.notebookOverview = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Backlinks')
+			.setDesc('Add the notes that link to each note, as a "Linked from" section or a linked_from property')
+			.addDropdown(dropdown => dropdown
+				.addOption('none', 'None')
+				.addOption('section', 'Linked from section')
+				.addOption('frontmatter', 'Frontmatter property')
+				.setValue(this.plugin.settings.backlinks)
+				.onChange(async (value) => {
+					this.plugin.settings.backlinks = value as BacklinkMode;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Flashcards')
+			.setDesc('Write review cards as one deck note per notebook, in a spaced-repetition syntax')
+			.addDropdown(dropdown => dropdown
+				.addOption('none', 'Don\'t export')
+				.addOption('single-line', 'Single line (Q::A)')
+				.addOption('multi-line', 'Multi-line (? separator)')
+				.addOption('cloze', 'Cloze from highlight masks')
+				.setValue(this.plugin.settings.flashcardFormat)
+				.onChange(async (value) => {
+					this.plugin.settings.flashcardFormat = value as FlashcardFormat;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Flashcards folder')
+			.setDesc('Folder for the deck notes, inside the output folder')
+			.addText(text => text
+				.setPlaceholder('Flashcards')
+				.setValue(this.plugin.settings.flashcardFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.flashcardFolder = value || 'Flashcards';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Carry review schedule')
+			.setDesc('Write MarginNote review state as sr-due, sr-interval and sr-ease frontmatter and on flashcards')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.includeReviewSchedule)
+				.onChange(async (value) => {
+					this.plugin.settings.includeReviewSchedule = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Export Anki package')
+			.setDesc('Also write the review cards as an .apkg file, one Anki deck per review notebook')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.exportAnki)
+				.onChange(async (value) => {
+					this.plugin.settings.exportAnki = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Export mind maps as canvas')
+			.setDesc('Also write one .canvas file per notebook with notes placed at their mind map positions')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.exportCanvas)
+				.onChange(async (value) => {
+					this.plugin.settings.exportCanvas = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Incremental sync')
+			.setDesc('Re-imports only create new notes and rewrite notes changed in MarginNote; unchanged and deleted notes are reported (one note per ZNOTEID style)')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.syncMode)
+				.onChange(async (value) => {
+					this.plugin.settings.syncMode = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Preserve my annotations')
+			.setDesc('When a note is re-imported, keep text between "%% marginnote:user-start %%" and "%% marginnote:user-end %%", everything below "%% marginnote:keep-below %%", and frontmatter properties you added')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.preserveUserContent)
+				.onChange(async (value) => {
+					this.plugin.settings.preserveUserContent = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Source PDF links
+		containerEl.createEl('h3', {text: 'Source PDFs'});
+
+		new Setting(containerEl)
+			.setName('PDF mapping')
+			.setDesc('One "document-md5: path/to/book.pdf" per line. Documents not listed are matched to vault PDFs by file name or title; excerpts then link to their page')
+			.addTextArea(text => text
+				.setPlaceholder('0123456789abcdef0123456789abcdef: Books/book.pdf')
+				.setValue(this.plugin.settings.pdfMapping)
+				.onChange(async (value) => {
+					this.plugin.settings.pdfMapping = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Link excerpt selection')
+			.setDesc('Also add a link to the excerpt\'s rectangle on the page (#page=N&rect=..., needs the PDF++ plugin)')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.pdfRectLinks)
+				.onChange(async (value) => {
+					this.plugin.settings.pdfRectLinks = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Highlight colour table
+		containerEl.createEl('h3', {text: 'Highlight Colours'});
+
+		new Setting(containerEl)
+			.setName('Generate colour CSS snippet')
+			.setDesc('Write snippets/marginnote-colors.css on import so colour callouts and tags show in MarginNote colours (enable it under Appearance)')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.generateColorCss)
+				.onChange(async (value) => {
+					this.plugin.settings.generateColorCss = value;
+					await this.plugin.saveSettings();
+				}));
+
+		for (const rule of this.plugin.settings.colorTable) {
+			const color = MARGINNOTE_COLORS[rule.index];
+			const setting = new Setting(containerEl)
+				.setName(`${rule.index}. ${color ? color.name : 'Colour'}`)
+				.setDesc('Name, tag, callout and ==highlight== for excerpts in this colour')
+				.addText(text => text
+					.setPlaceholder('Name')
+					.setValue(rule.name)
+					.onChange(async (value) => {
+						rule.name = value;
+						await this.plugin.saveSettings();
+					}))
+				.addText(text => text
+					.setPlaceholder('Tag')
+					.setValue(rule.tag)
+					.onChange(async (value) => {
+						rule.tag = value;
+						await this.plugin.saveSettings();
+					}))
+				.addDropdown(dropdown => {
+					dropdown.addOption('', 'No callout');
+					for (const callout of CALLOUT_TYPES) {
+						dropdown.addOption(callout, callout);
+					}
+					dropdown
+						.setValue(rule.callout)
+						.onChange(async (value) => {
+							rule.callout = value;
+							await this.plugin.saveSettings();
+						});
+				})
+				.addToggle(toggle => toggle
+					.setTooltip('==highlight==')
+					.setValue(rule.highlight)
+					.onChange(async (value) => {
+						rule.highlight = value;
+						await this.plugin.saveSettings();
+					}));
+			if (color) {
+				setting.nameEl.createSpan({ text: ' ■', attr: { style: `color: ${color.hex}` } });
+			}
+		}
+
+		// Import filter presets
+		containerEl.createEl('h3', {text: 'Import Filters'});
+		containerEl.createEl('p', {
+			text: 'One criterion per line: created / modified (2025-02-01..2025-06-30), page (10..40), colour (names or 0-15), type (highlight, flashcard, ...), tag and notebook (title or id). Enabled presets apply to every import; the "Import MarginNote file with filter preset" command runs a single one.',
+			cls: 'setting-item-description'
+		});
+
+		for (const preset of this.plugin.settings.filterPresets) {
+			new Setting(containerEl)
+				.addText(text => text
+					.setPlaceholder('Preset name')
+					.setValue(preset.name)
+					.onChange(async (value) => {
+						preset.name = value;
+						await this.plugin.saveSettings();
+					}))
+				.addTextArea(text => text
+					.setPlaceholder('created: 2025-02-01..2025-06-30\ncolour: red')
+					.setValue(preset.query)
+					.onChange(async (value) => {
+						preset.query = value;
+						await this.plugin.saveSettings();
+					}))
+				.addToggle(toggle => toggle
+					.setTooltip('Apply on every import')
+					.setValue(preset.enabled)
+					.onChange(async (value) => {
+						preset.enabled = value;
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove preset')
+					.onClick(async () => {
+						this.plugin.settings.filterPresets.remove(preset);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		}
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add filter preset')
+				.onClick(async () => {
+					this.plugin.settings.filterPresets.push({
+						name: `Filter ${this.plugin.settings.filterPresets.length + 1}`,
+						query: '',
+						enabled: false
+					});
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
 		// Instructions section
 		containerEl.createEl('h3', {text: 'Usage Instructions'});
 		
@@ -297,7 +781,7 @@ class MarginNoteSettingTab extends PluginSettingTab {
 			<p><strong>How to import a .marginpkg file:</strong></p>
 			<ol>
 				<li>Click the MarginNote ribbon icon or use "Import MarginNote file" command</li>
-				<li>Select your .marginpkg file</li>
+				<li>Select your .marginpkg file, a .marginnotes backup or .sqlite/.db database, or MarginNote CSV exports ("Import MarginNote CSV export folder" picks a whole folder)</li>
 				<li>The plugin will automatically process and import your notes</li>
 				<li>Check your output folder for the imported Obsidian notes</li>
 			</ol>
@@ -0,0 +1,115 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CliError, EXIT_CODES, parseCliArguments, runCli } from './cli';
+import { SAMPLE_PACKAGE } from './testing/sample-package';
+
+describe('parseCliArguments', () => {
+  const usageError = (args: string[]): CliError => {
+    try {
+      parseCliArguments(args);
+    } catch (error) {
+      expect(error).toBeInstanceOf(CliError);
+      expect((error as CliError).exitCode).toBe(EXIT_CODES.usage);
+      return error as CliError;
+    }
+    throw new Error('expected the arguments to be rejected');
+  };
+
+  it('reads short and long flags, inline values and repeated filters', () => {
+    expect(parseCliArguments(['a.marginpkg', '-o', 'out', '--config=data.json', '-s', 'grouped',
+      '-f', 'Exam', '--filter', 'Red', '-v', 'b.marginnotes'])).toEqual({
+      inputs: ['a.marginpkg', 'b.marginnotes'],
+      output: 'out',
+      config: 'data.json',
+      strategy: 'grouped',
+      presets: ['Exam', 'Red'],
+      verbose: true,
+      help: false
+    });
+  });
+
+  it('allows --help without an input', () => {
+    expect(parseCliArguments(['--help']).help).toBe(true);
+  });
+
+  it('rejects missing values, unknown options and missing inputs', () => {
+    expect(usageError(['a.marginpkg', '--output']).message).toBe('--output needs a value');
+    expect(usageError(['a.marginpkg', '--config=']).message).toBe('--config needs a value');
+    expect(usageError(['a.marginpkg', '-x']).message).toBe('Unknown option: -x');
+    expect(usageError(['-v']).message).toBe('No input given');
+  });
+});
+
+describe('runCli', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'marginnote-cli-'));
+    vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('fails when the filters keep no notes', async () => {
+    const config = path.join(dir, 'data.json');
+    fs.writeFileSync(config, JSON.stringify({
+      filterPresets: [{ name: 'Nothing', query: 'page: 9999', enabled: true }]
+    }));
+
+    const code = await runCli([SAMPLE_PACKAGE, '--vault', dir, '--output', 'out', '--config', config]);
+
+    expect(code).toBe(EXIT_CODES.failed);
+    expect(fs.existsSync(path.join(dir, 'out'))).toBe(false);
+  });
+
+  it('writes notes whose links resolve when the vault folder is opened', async () => {
+    const config = path.join(dir, 'data.json');
+    fs.writeFileSync(config, JSON.stringify({
+      exportCanvas: true,
+      noteHierarchy: 'outline',
+      notebookOverview: true,
+      backlinks: 'section',
+      flashcardFormat: 'single-line'
+    }));
+    const vault = path.join(dir, 'vault');
+
+    const code = await runCli([SAMPLE_PACKAGE, '--vault', vault, '--output', 'MarginNote', '--config', config]);
+    expect(code).toBe(EXIT_CODES.ok);
+
+    // Vault paths of every file, the way Obsidian resolves link targets
+    const files = new Set<string>();
+    const visit = (folder: string) => {
+      for (const entry of fs.readdirSync(path.join(vault, folder), { withFileTypes: true })) {
+        const vaultPath = folder ? `${folder}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) visit(vaultPath);
+        else files.add(vaultPath);
+      }
+    };
+    visit('');
+
+    const targets: string[] = [];
+    for (const file of files) {
+      const content = fs.readFileSync(path.join(vault, file), 'utf-8');
+      if (file.endsWith('.md')) {
+        for (const match of content.matchAll(/!?\[\[([^\]|#^]+)/g)) targets.push(match[1]);
+      } else if (file.endsWith('.canvas')) {
+        targets.push(...JSON.parse(content).nodes.filter((node: any) => node.file).map((node: any) => node.file));
+      }
+    }
+
+    expect(targets.length).toBeGreaterThan(100);
+    expect(targets.filter(target => !files.has(target) && !files.has(`${target}.md`))).toEqual([]);
+    expect(targets.every(target => target.startsWith('MarginNote/'))).toBe(true);
+  });
+
+  it('rejects an output folder outside the vault', async () => {
+    const code = await runCli([SAMPLE_PACKAGE, '--vault', path.join(dir, 'vault'), '--output', dir]);
+    expect(code).toBe(EXIT_CODES.usage);
+  });
+});
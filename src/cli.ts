@@ -0,0 +1,344 @@
+/**
+ * Command-line importer
+ * Runs the plugin's import pipeline outside Obsidian, writing into a vault folder on disk:
+ *
+ *   marginnote-import <notebook.marginpkg | database | csv folder>... --vault <dir> --output <folder> [--config <settings.json>]
+ *
+ * Notes link to each other, their media and their decks by vault path, so the
+ * output folder is given relative to the vault (the current folder by default).
+ * The settings file holds the plugin settings (the plugin's data.json works as
+ * is) or a config.example.json-style config for the grouped import; relative
+ * template paths in plugin settings are read from the settings file's folder.
+ * Exit codes tell batch scripts what went wrong, see EXIT_CODES.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { MarginNoteDatabaseParser, MarginPkgFile } from './core/database-parser';
+import { detectSourceFormat } from './core/import-source';
+import { applyImportFilters, parseFilterPresets } from './core/import-filters';
+import { getSkippedNoteIds } from './core/import-preview';
+import { runImportPipeline } from './core/import-pipeline';
+import { createDefaultConverterRegistry } from './core/converter-registry';
+import { DocumentRegistry, parseDocumentMapping } from './core/document-registry';
+import { loadNoteTemplate } from './core/note-template';
+import { parsePropertySchema } from './core/property-schema';
+import { ImportConfigFile, isImportConfigFile, parseImportConfig } from './core/import-config';
+import { MarginNoteSettings, mergeSettings } from './settings';
+import { FsVaultAdapter } from './utils/fs-vault-adapter';
+
+export const EXIT_CODES = {
+  ok: 0,
+  failed: 1,      // The conversion ran but wrote no notes
+  usage: 2,       // Bad command-line arguments
+  input: 3,       // Input missing, unreadable or not a MarginNote notebook
+  config: 4,      // Settings file, note template, property schema or filter preset invalid
+  partial: 5      // Notes were written, but some failed
+};
+
+export interface CliOptions {
+  inputs: string[];
+  vault?: string;
+  output?: string;
+  config?: string;
+  strategy?: string;
+  presets: string[]; // Filter presets to apply instead of the enabled ones
+  verbose: boolean;
+  help: boolean;
+}
+
+export class CliError extends Error {
+  constructor(message: string, public exitCode: number) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+const USAGE = `Usage: marginnote-import <input>... --vault <dir> --output <folder> [options]
+
+Inputs are .marginpkg files, MarginNote databases (.marginnotes, .sqlite, .db)
+or folders of MarginNote CSV exports.
+
+Options:
+      --vault <dir>        Vault folder the links are written for (default: the current folder)
+  -o, --output <folder>    Folder inside the vault to write the notes to (default: the settings' output folder)
+  -c, --config <file>      Plugin settings (data.json) or a config.example.json-style config
+  -s, --strategy <id>      Output style: ${createDefaultConverterRegistry().list().map(strategy => strategy.id).join(', ')}
+  -f, --filter <name>      Apply this filter preset instead of the enabled ones (repeatable)
+  -v, --verbose            Print the importer's progress log
+  -h, --help               Show this help
+
+Exit codes: 0 done, 1 nothing written, 2 bad arguments, 3 bad input,
+4 bad settings, 5 done with errors`;
+
+/**
+ * Parse the command-line arguments (without the node and script paths)
+ */
+export function parseCliArguments(args: string[]): CliOptions {
+  const options: CliOptions = { inputs: [], presets: [], verbose: false, help: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const [flag, inlineValue] = args[i].startsWith('--') && args[i].includes('=')
+      ? [args[i].substring(0, args[i].indexOf('=')), args[i].substring(args[i].indexOf('=') + 1)]
+      : [args[i], undefined];
+    const value = () => {
+      const next = inlineValue ?? args[++i];
+      if (next === undefined || next === '') {
+        throw new CliError(`${flag} needs a value`, EXIT_CODES.usage);
+      }
+      return next;
+    };
+
+    switch (flag) {
+      case '--vault': options.vault = value(); break;
+      case '-o': case '--output': options.output = value(); break;
+      case '-c': case '--config': options.config = value(); break;
+      case '-s': case '--strategy': options.strategy = value(); break;
+      case '-f': case '--filter': options.presets.push(value()); break;
+      case '-v': case '--verbose': options.verbose = true; break;
+      case '-h': case '--help': options.help = true; break;
+      default:
+        if (flag.startsWith('-') && flag !== '-') {
+          throw new CliError(`Unknown option: ${flag}`, EXIT_CODES.usage);
+        }
+        options.inputs.push(flag);
+    }
+  }
+
+  if (!options.help && options.inputs.length === 0) {
+    throw new CliError('No input given', EXIT_CODES.usage);
+  }
+  return options;
+}
+
+/**
+ * Run an import; returns the exit code
+ */
+export async function runCli(args: string[]): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseCliArguments(args);
+  } catch (error) {
+    return reportError(error, true);
+  }
+  if (options.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return EXIT_CODES.ok;
+  }
+
+  const { log, warn } = console;
+  try {
+    const { settings, importConfig } = loadSettingsFile(options);
+
+    // The converters log every note; keep that for --verbose or a config's log_level
+    const logLevel = options.verbose ? 'debug' : importConfig?.config.logLevel;
+    if (logLevel !== 'debug' && logLevel !== 'info') {
+      console.log = () => {};
+    }
+    if (logLevel !== 'debug' && logLevel !== 'info' && logLevel !== 'warning') {
+      console.warn = () => {};
+    }
+
+    // Every path the importer writes, and every link it writes into a note, is a vault path
+    const vaultRoot = path.resolve(options.vault || process.cwd());
+    const vault = new FsVaultAdapter(vaultRoot);
+    const outputFolder = vault.toVaultPath(path.resolve(vaultRoot, settings.defaultOutputFolder));
+    if (!outputFolder) {
+      throw new CliError(`Output folder ${settings.defaultOutputFolder} is not a folder inside the vault ${vaultRoot}`, EXIT_CODES.usage);
+    }
+    settings.defaultOutputFolder = outputFolder;
+
+    const configDir = options.config ? path.dirname(path.resolve(options.config)) : process.cwd();
+    const registry = createDefaultConverterRegistry();
+    if (!registry.get(settings.converterStrategy)) {
+      throw new CliError(`Unknown output style: ${settings.converterStrategy}`, EXIT_CODES.config);
+    }
+
+    const noteTemplate = settings.templateFile
+      ? await loadNoteTemplate(path.resolve(configDir, settings.templateFile))
+      : undefined;
+    const propertySchema = parsePropertySchema(settings.frontmatterProperties);
+    const presets = options.presets.length > 0
+      ? options.presets.map(name => {
+          const preset = settings.filterPresets.find(candidate => candidate.name === name);
+          if (!preset) throw new CliError(`No filter preset named "${name}"`, EXIT_CODES.config);
+          return preset;
+        })
+      : settings.filterPresets.filter(preset => preset.enabled);
+    const filters = parseFilterPresets(presets, settings.colorTable);
+
+    const files = readInputFiles(options.inputs);
+    const sourceName = path.basename(options.inputs[0]);
+    let databaseData;
+    try {
+      databaseData = await new MarginNoteDatabaseParser(settings.strictDecoding).parseImportFiles(files);
+    } catch (error) {
+      throw new CliError((error as Error).message, EXIT_CODES.input);
+    }
+
+    const filteredData = applyImportFilters(databaseData, filters);
+    if (filters.length > 0) {
+      process.stdout.write(`Filters ${presets.map(preset => preset.name).join(', ')} kept ` +
+        `${filteredData.booknotes.length} of ${databaseData.booknotes.length} notes\n`);
+      if (filteredData.booknotes.length === 0) {
+        return EXIT_CODES.failed;
+      }
+    }
+
+    const documents = DocumentRegistry.fromDatabase(
+      filteredData,
+      [],
+      parseDocumentMapping(settings.pdfMapping),
+      { rectLinks: settings.pdfRectLinks }
+    );
+
+    const result = await runImportPipeline(filteredData, {
+      settings,
+      vaultAdapter: vault,
+      documents,
+      noteTemplate,
+      propertySchema,
+      importConfig,
+      packageName: sourceName,
+      skippedNoteIds: getSkippedNoteIds(databaseData, filteredData),
+      converterRegistry: registry
+    });
+
+    const folder = result.outputFolder || settings.defaultOutputFolder;
+    if (result.success && result.notesUpdated !== undefined) {
+      process.stdout.write(`Synced ${sourceName} into ${folder}: ${result.notesCreated} new, ${result.notesUpdated} updated, ` +
+        `${result.notesUnchanged} unchanged, ${result.deletedNoteIds?.length || 0} deleted in MarginNote\n`);
+    } else if (result.success) {
+      process.stdout.write(`Imported ${sourceName}: ${result.notesCreated} notes in ${folder}\n`);
+    }
+    if (result.unresolvedLinks.length > 0) {
+      process.stderr.write(`${result.unresolvedLinks.length} MarginNote links point to notes that were not imported\n`);
+    }
+    if (result.anki?.path) {
+      process.stdout.write(`Anki package written: ${result.anki.path} (${result.anki.cards} cards in ${result.anki.decks} decks)\n`);
+    }
+    for (const message of new Set(result.errors)) {
+      process.stderr.write(`${message}\n`);
+    }
+
+    if (!result.success) return EXIT_CODES.failed;
+    return result.errors.length > 0 ? EXIT_CODES.partial : EXIT_CODES.ok;
+  } catch (error) {
+    return reportError(error, false);
+  } finally {
+    console.log = log;
+    console.warn = warn;
+  }
+}
+
+/**
+ * Plugin settings from the settings file, with the command-line overrides applied.
+ * A config.example.json-style file selects the grouped import with that config.
+ */
+function loadSettingsFile(options: CliOptions): { settings: MarginNoteSettings; importConfig?: ImportConfigFile } {
+  let saved: any = {};
+  if (options.config) {
+    let text: string;
+    try {
+      text = fs.readFileSync(options.config, 'utf-8');
+    } catch (error) {
+      throw new CliError(`Cannot read settings file ${options.config}: ${(error as Error).message}`, EXIT_CODES.config);
+    }
+    try {
+      saved = JSON.parse(text);
+    } catch (error) {
+      throw new CliError(`Settings file ${options.config} is not valid JSON: ${(error as Error).message}`, EXIT_CODES.config);
+    }
+  }
+
+  let importConfig: ImportConfigFile | undefined;
+  let settings: MarginNoteSettings;
+  if (isImportConfigFile(saved)) {
+    importConfig = parseImportConfig(saved, options.config);
+    if (options.strategy && options.strategy !== 'grouped') {
+      throw new CliError(`${options.config} configures the grouped import, it cannot be used with --strategy ${options.strategy}`, EXIT_CODES.usage);
+    }
+    settings = mergeSettings({ converterStrategy: 'grouped' });
+    // Resolved inside the vault like --output
+    if (!options.output && importConfig.config.outputDirectory) {
+      settings.defaultOutputFolder = importConfig.config.outputDirectory;
+    }
+    delete importConfig.config.outputDirectory;
+  } else {
+    settings = mergeSettings(saved);
+  }
+
+  if (options.output) settings.defaultOutputFolder = options.output;
+  if (options.strategy) settings.converterStrategy = options.strategy;
+  // No preview to answer outside Obsidian
+  settings.showImportPreview = false;
+  return { settings, importConfig };
+}
+
+/**
+ * Files of the inputs (folders are read recursively), keeping only the ones in a
+ * format the importer reads
+ */
+function readInputFiles(inputs: string[]): MarginPkgFile[] {
+  const files: MarginPkgFile[] = [];
+
+  const read = (filePath: string, name: string) => {
+    let buffer: Buffer;
+    try {
+      buffer = fs.readFileSync(filePath);
+    } catch (error) {
+      throw new CliError(`Cannot read ${filePath}: ${(error as Error).message}`, EXIT_CODES.input);
+    }
+    const data = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+    if (detectSourceFormat(data) !== null) {
+      files.push({ name, data });
+    }
+  };
+  const visit = (dirPath: string, prefix: string) => {
+    for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+      const entryPath = path.join(dirPath, entry.name);
+      if (entry.isDirectory()) {
+        visit(entryPath, `${prefix}${entry.name}/`);
+      } else if (entry.isFile()) {
+        read(entryPath, `${prefix}${entry.name}`);
+      }
+    }
+  };
+
+  for (const input of inputs) {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(input);
+    } catch {
+      throw new CliError(`Input not found: ${input}`, EXIT_CODES.input);
+    }
+    if (stat.isDirectory()) {
+      visit(input, `${path.basename(input)}/`);
+    } else {
+      read(input, path.basename(input));
+    }
+  }
+
+  if (files.length === 0) {
+    throw new CliError('Not a MarginNote notebook, database or CSV export', EXIT_CODES.input);
+  }
+  return files;
+}
+
+function reportError(error: unknown, showUsage: boolean): number {
+  const exitCode = error instanceof CliError
+    ? error.exitCode
+    : ['TemplateError', 'PropertySchemaError', 'ImportFilterError', 'ImportConfigError'].includes((error as Error)?.name)
+      ? EXIT_CODES.config
+      : EXIT_CODES.failed;
+
+  process.stderr.write(`marginnote-import: ${(error as Error)?.message || error}\n`);
+  if (showUsage) {
+    process.stderr.write(`\n${USAGE}\n`);
+  }
+  return exitCode;
+}
+
+if (typeof require !== 'undefined' && require.main === module) {
+  runCli(process.argv.slice(2)).then(code => process.exit(code));
+}
@@ -0,0 +1,61 @@
+import { unzipSync } from 'fflate';
+import initSqlJs from 'sql.js/dist/sql-asm.js';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { AnkiExporter } from './anki-exporter';
+import { loadReviewSchedules } from './review-schedule';
+import { DatabaseData } from './margin-note-importer';
+import { MemoryVault } from '../testing/memory-vault';
+import { loadSamplePackage } from '../testing/sample-package';
+
+const DAY_SECONDS = 86400;
+
+describe('AnkiExporter on the sample notebook', () => {
+  let databaseData: DatabaseData;
+
+  beforeAll(async () => {
+    databaseData = await loadSamplePackage();
+  });
+
+  async function exportCollection(withSchedules: boolean) {
+    const vault = new MemoryVault();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const result = await new AnkiExporter({
+      outputDirectory: 'MarginNote',
+      packageName: 'Testing3 #1',
+      schedules: withSchedules ? loadReviewSchedules(databaseData) : undefined,
+      vaultAdapter: vault
+    }).exportPackage(databaseData);
+    vi.restoreAllMocks();
+
+    const archive = unzipSync(new Uint8Array(vault.files.get(result.path!) as ArrayBuffer));
+    const SQL = await initSqlJs();
+    return { result, db: new SQL.Database(archive['collection.anki2']) };
+  }
+
+  it('builds one deck from the review deck topic', async () => {
+    const { result, db } = await exportCollection(false);
+    expect(result.path).toBe('MarginNote/Testing3 1.apkg');
+    expect(result.decks).toBe(1);
+    expect(result.cards).toBe(15);
+
+    const decks = JSON.parse(db.exec('SELECT decks FROM col')[0].values[0][0] as string);
+    expect(Object.values(decks).map((deck: any) => deck.name).sort()).toEqual(['Default', 'RC1']);
+    expect(db.exec('SELECT DISTINCT type, queue FROM cards')[0].values).toEqual([[0, 0]]);
+    db.close();
+  });
+
+  it('carries the review state into the cards', async () => {
+    const { db } = await exportCollection(true);
+    const created = db.exec('SELECT crt FROM col')[0].values[0][0] as number;
+    const [row] = db.exec(
+      "SELECT c.type, c.queue, c.due, c.ivl, c.factor, c.reps, c.lapses FROM cards c JOIN notes n ON n.id = c.nid " +
+      "WHERE n.guid = '521BBF05-4A26-4887-83C1-B1738FEA7029'"
+    )[0].values;
+    db.close();
+
+    // Reviewed 2025-05-20, due the same day
+    expect(row).toEqual([2, 2, Math.floor((Date.UTC(2025, 4, 20) / 1000 - created) / DAY_SECONDS), 1, 1730, 1, 1]);
+    expect(created % DAY_SECONDS).toBe(0);
+    expect(row[2]).toBeGreaterThanOrEqual(0);
+  });
+});
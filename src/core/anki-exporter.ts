@@ -0,0 +1,293 @@
+/**
+ * Anki Exporter
+ * Writes MarginNote review cards as an Anki collection package (.apkg): a zip
+ * holding a collection.anki2 SQLite database built with sql.js, the media files
+ * and their index. One deck per MarginNote review deck; image excerpts become card media.
+ * Cards with a review schedule are written as review cards due on the same day.
+ */
+
+import { zipSync } from 'fflate';
+// Use the asm.js version which doesn't require WASM
+import initSqlJs from 'sql.js/dist/sql-asm.js';
+import { DatabaseData } from './margin-note-importer';
+import { MbBookNote } from '../models/MbBookNote';
+import { MNMediaDataImpl } from '../models/types';
+import { FlashcardExporter } from './flashcard-exporter';
+import { ReviewSchedule } from './review-schedule';
+import { MediaExporter, parseMediaList } from './media-exporter';
+import { VaultIO } from '../utils/vault-io';
+import { sanitizeFileName } from '../utils/file-names';
+import { sha1Hex } from '../utils/sha1';
+
+export interface AnkiExportOptions {
+  outputDirectory: string;
+  packageName: string; // File name of the .apkg, without extension
+  schedules?: Map<string, ReviewSchedule>; // Review state by source note id
+  vaultAdapter?: any;
+}
+
+export interface AnkiExportResult {
+  path?: string;
+  decks: number;
+  cards: number;
+  mediaFiles: number;
+}
+
+interface AnkiCard {
+  guid: string;
+  front: string;
+  back: string;
+  tags: string[];
+  schedule?: ReviewSchedule;
+}
+
+// Legacy (schema 11) collection layout, which every Anki version imports
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const FIELD_SEPARATOR = '\x1f';
+const DAY_SECONDS = 86400;
+const CARD_CSS = '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }\n' +
+                 '.card img { max-width: 100%; }';
+
+export class AnkiExporter {
+  private options: AnkiExportOptions;
+  private io: VaultIO;
+
+  constructor(options: AnkiExportOptions) {
+    this.options = options;
+    this.io = new VaultIO(options.vaultAdapter);
+  }
+
+  /**
+   * Build the package from the review-card notes and write it to the output folder
+   */
+  async exportPackage(databaseData: DatabaseData): Promise<AnkiExportResult> {
+    const media = new Map<string, MNMediaDataImpl>();
+    for (const item of MediaExporter.loadMedia(databaseData.media || [])) {
+      media.set(item.mediaHash, item);
+    }
+
+    // Deck name -> cards; media hash -> file name inside the package
+    const decks = new Map<string, AnkiCard[]>();
+    const mediaFiles = new Map<string, { name: string; data: Uint8Array }>();
+
+    for (const deck of FlashcardExporter.collectCardNotes(databaseData)) {
+      const cards: AnkiCard[] = decks.get(deck.title) || [];
+      for (const note of deck.notes) {
+        const card = this.createCard(note, deck.title, media, mediaFiles);
+        if (card) cards.push(card);
+      }
+      if (cards.length > 0) {
+        decks.set(deck.title, cards);
+      }
+    }
+
+    const cardCount = Array.from(decks.values()).reduce((sum, cards) => sum + cards.length, 0);
+    const result: AnkiExportResult = { decks: decks.size, cards: cardCount, mediaFiles: mediaFiles.size };
+    if (cardCount === 0) {
+      console.log('Anki export: no review cards found');
+      return result;
+    }
+
+    const collection = await this.buildCollection(decks);
+
+    // Media files are stored as "0", "1", ... with a JSON index of their real names
+    const files: Record<string, Uint8Array> = { 'collection.anki2': collection };
+    const mediaIndex: Record<string, string> = {};
+    Array.from(mediaFiles.values()).forEach((file, index) => {
+      files[String(index)] = file.data;
+      mediaIndex[String(index)] = file.name;
+    });
+    files['media'] = new TextEncoder().encode(JSON.stringify(mediaIndex));
+
+    await this.io.ensureDirectory(this.options.outputDirectory);
+    const path = `${this.options.outputDirectory}/${sanitizeFileName(this.options.packageName)}.apkg`;
+    await this.io.writeBinary(path, zipSync(files));
+    result.path = path;
+
+    console.log(`Anki export: ${result.cards} cards in ${result.decks} decks, ${result.mediaFiles} media files`);
+    return result;
+  }
+
+  /**
+   * Front is the title or excerpt plus the image excerpts, back the comments
+   */
+  private createCard(note: MbBookNote, deck: string, media: Map<string, MNMediaDataImpl>,
+                     mediaFiles: Map<string, { name: string; data: Uint8Array }>): AnkiCard | null {
+    const card = FlashcardExporter.createCard(note);
+    let front = card ? this.toHtml(card.front) : this.toHtml((note.noteTitle || note.excerptText || '').trim());
+    const back = card ? this.toHtml(card.back) : this.toHtml((note.notesText || '').trim());
+
+    const images: string[] = [];
+    for (const hash of parseMediaList(note.mediaList)) {
+      const item = media.get(hash);
+      if (!item || !item.data || !item.isImage()) continue;
+
+      const name = `${hash}.${item.getFileExtension()}`;
+      if (!mediaFiles.has(hash)) {
+        mediaFiles.set(hash, { name, data: new Uint8Array(item.data) });
+      }
+      images.push(`<img src="${name}">`);
+    }
+    if (images.length > 0) {
+      front = [front, ...images].filter(Boolean).join('<br>');
+    }
+
+    if (!front) return null;
+
+    const tags = ['MarginNote', deck.replace(/\s+/g, '_')];
+    return { guid: note.noteId, front, back, tags, schedule: this.options.schedules?.get(note.noteId) };
+  }
+
+  private async buildCollection(decks: Map<string, AnkiCard[]>): Promise<Uint8Array> {
+    const SQL = await initSqlJs();
+    const db = new SQL.Database();
+
+    try {
+      db.exec(SCHEMA);
+
+      const now = Date.now();
+      const nowSeconds = Math.floor(now / 1000);
+      const modelId = now;
+      let nextId = now;
+
+      // Review cards are due a number of days after the collection's creation day,
+      // which goes back to the earliest due date so none of them is negative
+      const dueSeconds = ([] as AnkiCard[]).concat(...Array.from(decks.values()))
+        .filter(card => card.schedule)
+        .map(card => Math.floor(card.schedule!.due.getTime() / 1000));
+      const created = Math.floor(Math.min(nowSeconds, ...dueSeconds) / DAY_SECONDS) * DAY_SECONDS;
+
+      const deckJson: Record<string, any> = { '1': this.createDeck(1, 'Default', nowSeconds) };
+      const deckIds = new Map<string, number>();
+      for (const deck of decks.keys()) {
+        const id = ++nextId;
+        deckIds.set(deck, id);
+        deckJson[String(id)] = this.createDeck(id, deck, nowSeconds);
+      }
+
+      const conf = {
+        nextPos: 1, estTimes: true, activeDecks: [1], sortType: 'noteFld', timeLim: 0,
+        sortBackwards: false, addToCur: true, curDeck: 1, newBust: true, newSpread: 0,
+        dueCounts: true, curModel: String(modelId), collapseTime: 1200
+      };
+
+      db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+        created, now, now,
+        JSON.stringify(conf),
+        JSON.stringify({ [String(modelId)]: this.createModel(modelId, nowSeconds) }),
+        JSON.stringify(deckJson),
+        JSON.stringify({ '1': this.createDeckConfig() }),
+        '{}'
+      ]);
+
+      const insertNote = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')');
+      const insertCard = db.prepare('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, \'\')');
+      let position = 0;
+
+      for (const [deck, cards] of decks) {
+        for (const card of cards) {
+          const noteId = ++nextId;
+          const sortField = this.stripHtml(card.front);
+          insertNote.run([
+            noteId, card.guid, modelId, nowSeconds,
+            ` ${card.tags.join(' ')} `,
+            [card.front, card.back].join(FIELD_SEPARATOR),
+            sortField,
+            this.checksum(sortField)
+          ]);
+          insertCard.run([++nextId, noteId, deckIds.get(deck)!, nowSeconds, ...this.cardState(card, ++position, created)]);
+        }
+      }
+
+      insertNote.free();
+      insertCard.free();
+
+      return db.export();
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * type, queue, due, ivl, factor, reps and lapses of a card: new cards are due
+   * by position, scheduled ones are review cards due on their day
+   */
+  private cardState(card: AnkiCard, position: number, created: number): number[] {
+    const schedule = card.schedule;
+    if (!schedule) return [0, 0, position, 0, 0, 0, 0];
+
+    const due = Math.floor((Math.floor(schedule.due.getTime() / 1000) - created) / DAY_SECONDS);
+    return [2, 2, due, schedule.interval, schedule.ease * 10, schedule.reviews || 0, schedule.lapses || 0];
+  }
+
+  private createModel(id: number, mod: number): any {
+    return {
+      id: String(id), name: 'MarginNote Basic', type: 0, mod, usn: -1, sortf: 0, did: 1,
+      tmpls: [{
+        name: 'Card 1', ord: 0, did: null, bqfmt: '', bafmt: '',
+        qfmt: '{{Front}}',
+        afmt: '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}'
+      }],
+      flds: [
+        { name: 'Front', ord: 0, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] },
+        { name: 'Back', ord: 1, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] }
+      ],
+      css: CARD_CSS,
+      latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n' +
+                '\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+      latexPost: '\\end{document}',
+      tags: [], vers: [],
+      req: [[0, 'all', [0]]]
+    };
+  }
+
+  private createDeck(id: number, name: string, mod: number): any {
+    return {
+      id, name, desc: '', mod, usn: -1, collapsed: false, dyn: 0, conf: 1,
+      extendNew: 10, extendRev: 50,
+      newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0]
+    };
+  }
+
+  private createDeckConfig(): any {
+    return {
+      id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, timer: 0, autoplay: true, replayq: true, dyn: false,
+      new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true, separate: true },
+      rev: { perDay: 100, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: true },
+      lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 }
+    };
+  }
+
+  private toHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/\n/g, '<br>');
+  }
+
+  private stripHtml(html: string): string {
+    return html.replace(/<br>/g, ' ').replace(/<[^>]+>/g, '').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+  }
+
+  /**
+   * Anki's duplicate check: first 8 hex digits of the SHA-1 of the sort field
+   */
+  private checksum(text: string): number {
+    return parseInt(sha1Hex(text).substring(0, 8), 16);
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BACKLINKS_END, BACKLINKS_START, BacklinkWriter } from './backlink-writer';
+import { DatabaseData } from './margin-note-importer';
+import { KEEP_BELOW_SENTINEL } from '../utils/protected-regions';
+import { MemoryVault } from '../testing/memory-vault';
+
+const linkTo = (noteId: string, text: string) => ({ type: 'LinkNote', noteid: noteId, q_htext: text });
+
+const databaseData = {
+  booknotes: [
+    { ZNOTEID: 'A', ZNOTETITLE: 'Alpha', ZNOTES_DECODE: [linkTo('C', 'see C'), linkTo('MISSING', 'gone')] },
+    { ZNOTEID: 'B', ZNOTETITLE: 'Beta [1]', ZNOTES_TEXT: 'also marginnote4app://note/C and marginnote4app://note/A' },
+    { ZNOTEID: 'B2', ZNOTETITLE: 'Beta again', ZNOTES_DECODE: [linkTo('C', 'see C')] },
+    { ZNOTEID: 'C', ZNOTETITLE: 'Gamma', ZNOTES_DECODE: [linkTo('D', 'same file')] },
+    { ZNOTEID: 'D', ZNOTETITLE: 'Delta' },
+    { ZNOTEID: 'E', ZNOTETITLE: 'Not imported', ZNOTES_DECODE: [linkTo('C', 'see C')] }
+  ],
+  topics: [],
+  media: []
+} as unknown as DatabaseData;
+
+const noteFiles: Record<string, string> = {
+  A: 'MarginNote/A.md',
+  B: 'MarginNote/B.md',
+  B2: 'MarginNote/B.md',
+  C: 'MarginNote/C.md',
+  D: 'MarginNote/C.md'
+};
+
+describe('BacklinkWriter.collectBacklinks', () => {
+  it('reverses links between imported files, once per linking file', () => {
+    const backlinks = BacklinkWriter.collectBacklinks(databaseData, noteFiles);
+
+    expect(Array.from(backlinks.keys()).sort()).toEqual(['MarginNote/A.md', 'MarginNote/C.md']);
+    expect(backlinks.get('MarginNote/C.md')).toEqual([
+      { noteId: 'A', file: 'MarginNote/A.md', title: 'Alpha' },
+      { noteId: 'B', file: 'MarginNote/B.md', title: 'Beta [1]' }
+    ]);
+    expect(backlinks.get('MarginNote/A.md')!.map(link => link.noteId)).toEqual(['B']);
+  });
+});
+
+describe('BacklinkWriter.writeBacklinks', () => {
+  const importNotes = () => {
+    const vault = new MemoryVault();
+    vault.files.set('MarginNote/A.md', '# Alpha\n');
+    vault.files.set('MarginNote/B.md', '# Beta\n');
+    vault.files.set('MarginNote/C.md', `# Gamma\n\n${KEEP_BELOW_SENTINEL}\nmy notes\n`);
+    return vault;
+  };
+
+  it('writes a section above the keep-below tail and replaces it on the next import', async () => {
+    const vault = importNotes();
+    const writer = new BacklinkWriter({ mode: 'section', vaultAdapter: vault });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    expect(await writer.writeBacklinks(databaseData, noteFiles)).toBe(2);
+    expect(vault.files.get('MarginNote/C.md')).toBe([
+      '# Gamma',
+      '',
+      BACKLINKS_START,
+      '## Linked from',
+      '',
+      '- [[MarginNote/A|Alpha]]',
+      '- [[MarginNote/B|Beta  1]]',
+      BACKLINKS_END,
+      '',
+      KEEP_BELOW_SENTINEL,
+      'my notes',
+      ''
+    ].join('\n'));
+    expect(vault.files.get('MarginNote/B.md')).toBe('# Beta\n');
+
+    expect(await writer.writeBacklinks(databaseData, noteFiles)).toBe(0);
+    vi.restoreAllMocks();
+  });
+
+  it('writes a linked_from property in frontmatter mode', async () => {
+    const vault = importNotes();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await new BacklinkWriter({ mode: 'frontmatter', vaultAdapter: vault }).writeBacklinks(databaseData, noteFiles);
+    vi.restoreAllMocks();
+
+    expect(vault.files.get('MarginNote/A.md')).toMatch(/^---\nlinked_from:\n {2}- "\[\[MarginNote\/B\|Beta {2}1\]\]"\n---\n/);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Backlink Writer
+ * MarginNote links only go one way. This reverses every LinkNote / note URL edge
+ * in the imported set and writes a "Linked from" section or a linked_from
+ * frontmatter list into each target note, so the relationship survives in
+ * exports and publish where Obsidian's backlink pane is not available
+ */
+
+import { DatabaseData } from './margin-note-importer';
+import { MbBookNote } from '../models/MbBookNote';
+import { VaultIO } from '../utils/vault-io';
+import { KEEP_BELOW_SENTINEL } from '../utils/protected-regions';
+import { setFrontmatterProperties } from '../utils/frontmatter';
+
+export type BacklinkMode = 'none' | 'section' | 'frontmatter';
+
+export interface BacklinkWriterOptions {
+  mode: BacklinkMode;
+  vaultAdapter?: any;
+}
+
+export interface Backlink {
+  noteId: string;
+  file: string;
+  title: string;
+}
+
+export const BACKLINKS_START = '%% marginnote:backlinks-start %%';
+export const BACKLINKS_END = '%% marginnote:backlinks-end %%';
+export const BACKLINKS_PROPERTY = 'linked_from';
+
+const SECTION_PATTERN = /\n*%% marginnote:backlinks-start %%[\s\S]*?%% marginnote:backlinks-end %%\n?/g;
+
+export class BacklinkWriter {
+  private options: BacklinkWriterOptions;
+  private io: VaultIO;
+
+  constructor(options: BacklinkWriterOptions) {
+    this.options = options;
+    this.io = new VaultIO(options.vaultAdapter);
+  }
+
+  /**
+   * Reverse the link edges between imported notes: target file -> notes linking to it.
+   * Links within one file (grouped output) and links to notes that were not imported are ignored.
+   */
+  static collectBacklinks(databaseData: DatabaseData, noteFiles: Record<string, string>): Map<string, Backlink[]> {
+    const backlinks = new Map<string, Backlink[]>();
+
+    for (const row of databaseData.booknotes) {
+      if (!row.ZNOTEID || !noteFiles[row.ZNOTEID]) continue;
+
+      const note = new MbBookNote(row);
+      const sourceFile = noteFiles[note.noteId];
+
+      for (const link of note.linkedNotes) {
+        const targetFile = noteFiles[link.noteid];
+        if (!targetFile || targetFile === sourceFile) continue;
+
+        if (!backlinks.has(targetFile)) {
+          backlinks.set(targetFile, []);
+        }
+        const entries = backlinks.get(targetFile)!;
+        if (!entries.some(entry => entry.file === sourceFile)) {
+          entries.push({ noteId: note.noteId, file: sourceFile, title: note.getDisplayTitle() });
+        }
+      }
+    }
+
+    return backlinks;
+  }
+
+  /**
+   * Write the backlinks into every imported note, replacing the ones from a previous import;
+   * returns the number of files changed
+   */
+  async writeBacklinks(databaseData: DatabaseData, noteFiles: Record<string, string>): Promise<number> {
+    if (this.options.mode === 'none') return 0;
+
+    const backlinks = BacklinkWriter.collectBacklinks(databaseData, noteFiles);
+    let filesUpdated = 0;
+
+    for (const file of new Set(Object.values(noteFiles))) {
+      try {
+        if (!(await this.io.exists(file))) continue;
+
+        const content = await this.io.read(file);
+        const updated = this.applyBacklinks(content, backlinks.get(file) || []);
+        if (updated !== content) {
+          await this.io.write(file, updated);
+          filesUpdated++;
+        }
+      } catch (error) {
+        console.warn(`Failed to write backlinks to ${file}:`, error);
+      }
+    }
+
+    console.log(`Backlinks: ${backlinks.size} notes linked from other notes, ${filesUpdated} files updated`);
+    return filesUpdated;
+  }
+
+  /**
+   * Replace the generated backlinks of one note (none removes them)
+   */
+  applyBacklinks(content: string, backlinks: Backlink[]): string {
+    let result = setFrontmatterProperties(content.replace(SECTION_PATTERN, '\n'), { [BACKLINKS_PROPERTY]: null });
+
+    if (backlinks.length === 0) return result;
+
+    if (this.options.mode === 'frontmatter') {
+      return setFrontmatterProperties(result, { [BACKLINKS_PROPERTY]: backlinks.map(link => this.toWikilink(link)) });
+    }
+
+    // Keep the section above the user's keep-below tail
+    const section = [
+      BACKLINKS_START,
+      '## Linked from',
+      '',
+      ...backlinks.map(link => `- ${this.toWikilink(link)}`),
+      BACKLINKS_END
+    ].join('\n');
+
+    const sentinelIndex = result.indexOf(KEEP_BELOW_SENTINEL);
+    if (sentinelIndex !== -1) {
+      const head = result.substring(0, sentinelIndex).replace(/\s*$/, '\n\n');
+      return `${head}${section}\n\n${result.substring(sentinelIndex)}`;
+    }
+
+    result = result.replace(/\s*$/, '\n\n');
+    return `${result}${section}\n`;
+  }
+
+  private toWikilink(link: Backlink): string {
+    const label = link.title.replace(/[|\[\]\n]/g, ' ').trim();
+    return `[[${link.file.replace(/\.md$/, '')}|${label}]]`;
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Canvas Exporter
+ * Writes each MarginNote mind map (one per topic) as an Obsidian .canvas file:
+ * notes become file nodes at their ZMINDPOS coordinates, parent/child and
+ * link relationships become edges, and highlight colours map to canvas colours
+ */
+
+import { DatabaseData } from './margin-note-importer';
+import { MbBookNote } from '../models/MbBookNote';
+import { VaultIO } from '../utils/vault-io';
+import { loadNotesByTopic, loadTopicTitles } from './note-tree';
+import { sanitizeFileName, uniqueFileName } from '../utils/file-names';
+
+export interface CanvasExportOptions {
+  outputDirectory: string;
+  vaultAdapter?: any;
+}
+
+export interface CanvasNode {
+  id: string;
+  type: 'file' | 'text';
+  file?: string;
+  text?: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color?: string;
+}
+
+export interface CanvasEdge {
+  id: string;
+  fromNode: string;
+  toNode: string;
+  fromSide?: 'top' | 'right' | 'bottom' | 'left';
+  toSide?: 'top' | 'right' | 'bottom' | 'left';
+  toEnd?: 'none' | 'arrow';
+  color?: string;
+  label?: string;
+}
+
+export interface CanvasData {
+  nodes: CanvasNode[];
+  edges: CanvasEdge[];
+}
+
+const NODE_WIDTH = 320;
+const NODE_HEIGHT = 160;
+const POSITION_SCALE = 1.5; // MarginNote points -> canvas pixels
+const GRID_GAP = 40;
+const GRID_COLUMNS = 6;
+
+// MarginNote colour index (0-15) -> canvas preset colour ("1" red ... "6" purple)
+const CANVAS_COLORS: Record<number, string> = {
+  0: '3', 1: '4', 2: '5', 3: '1',
+  4: '3', 5: '4', 6: '5', 7: '1',
+  8: '2', 9: '4', 10: '5', 11: '1',
+  15: '6'
+};
+
+export class CanvasExporter {
+  private options: CanvasExportOptions;
+  private io: VaultIO;
+
+  constructor(options: CanvasExportOptions) {
+    this.options = options;
+    this.io = new VaultIO(options.vaultAdapter);
+  }
+
+  /**
+   * Write one canvas per topic; returns the paths of the written canvases
+   */
+  async exportCanvases(databaseData: DatabaseData, noteFiles: Record<string, string>): Promise<string[]> {
+    const topicTitles = loadTopicTitles(databaseData);
+    const notesByTopic = loadNotesByTopic(databaseData);
+
+    await this.io.ensureDirectory(this.options.outputDirectory);
+
+    const written: string[] = [];
+    const usedNames = new Set<string>();
+    for (const [topicId, notes] of notesByTopic) {
+      const canvas = this.buildCanvas(notes, noteFiles);
+      if (canvas.nodes.length === 0) continue;
+
+      const name = uniqueFileName(sanitizeFileName(topicTitles.get(topicId) || topicId), topicId, usedNames);
+      const path = `${this.options.outputDirectory}/${name}.canvas`;
+      try {
+        await this.io.write(path, JSON.stringify(canvas, null, 2));
+        written.push(path);
+      } catch (error) {
+        console.warn(`Failed to write canvas ${path}:`, error);
+      }
+    }
+
+    console.log(`Canvas export: ${written.length} canvases written`);
+    return written;
+  }
+
+  /**
+   * Build canvas nodes and edges for the notes of one mind map
+   * (notes must have their tree linked, see buildNoteTree)
+   */
+  buildCanvas(notes: MbBookNote[], noteFiles: Record<string, string>): CanvasData {
+    const canvas: CanvasData = { nodes: [], edges: [] };
+    const nodeIds = new Map<string, string>(); // ZNOTEID -> canvas node id
+
+    // Several notes may share a file (grouped output): one node per file
+    const fileNodes = new Map<string, string>();
+
+    // Notes without a mind map position go on a grid below the placed ones
+    const placed = notes.filter(note => note.mindmapPosition);
+    const maxY = placed.reduce((max, note) => Math.max(max, note.mindmapPosition!.y * POSITION_SCALE), 0);
+    let unplacedIndex = 0;
+
+    for (const note of notes) {
+      const file = noteFiles[note.noteId];
+      if (file && fileNodes.has(file)) {
+        nodeIds.set(note.noteId, fileNodes.get(file)!);
+        continue;
+      }
+
+      let x: number;
+      let y: number;
+      if (note.mindmapPosition) {
+        x = Math.round(note.mindmapPosition.x * POSITION_SCALE);
+        y = Math.round(note.mindmapPosition.y * POSITION_SCALE);
+      } else {
+        x = (unplacedIndex % GRID_COLUMNS) * (NODE_WIDTH + GRID_GAP);
+        y = Math.round(maxY) + NODE_HEIGHT * 2 + Math.floor(unplacedIndex / GRID_COLUMNS) * (NODE_HEIGHT + GRID_GAP);
+        unplacedIndex++;
+      }
+
+      const id = note.noteId;
+      const node: CanvasNode = file
+        ? { id, type: 'file', file, x, y, width: NODE_WIDTH, height: NODE_HEIGHT }
+        : { id, type: 'text', text: note.allNoteText() || note.getDisplayTitle(), x, y, width: NODE_WIDTH, height: NODE_HEIGHT };
+
+      const color = CANVAS_COLORS[note.colorIndex];
+      if (color) {
+        node.color = color;
+      }
+
+      canvas.nodes.push(node);
+      nodeIds.set(note.noteId, id);
+      if (file) {
+        fileNodes.set(file, id);
+      }
+    }
+
+    const edgeKeys = new Set<string>();
+    const addEdge = (from: string | undefined, to: string | undefined, edge: Partial<CanvasEdge>) => {
+      if (!from || !to || from === to) return;
+      const key = `${from}->${to}`;
+      if (edgeKeys.has(key)) return;
+      edgeKeys.add(key);
+      canvas.edges.push({ id: `edge-${edgeKeys.size}`, fromNode: from, toNode: to, ...edge });
+    };
+
+    for (const note of notes) {
+      const nodeId = nodeIds.get(note.noteId);
+
+      // Parent -> child
+      for (const child of note.childNotes) {
+        addEdge(nodeId, nodeIds.get(child.noteId), { fromSide: 'right', toSide: 'left', toEnd: 'none' });
+      }
+
+      // Note links
+      for (const link of note.linkedNotes) {
+        addEdge(nodeId, nodeIds.get(link.noteid), { toEnd: 'arrow', label: 'link' });
+      }
+    }
+
+    return canvas;
+  }
+}
@@ -13,11 +13,12 @@ import {
     ContentGroup, ContentGroupImpl,
     MediaCollection, MediaCollectionImpl,
     TopicClassification, TopicClassificationImpl,
-    MNMediaData, MNMediaDataImpl,
+    MNMediaData,
     MNMediaAttachment, MNMediaAttachmentImpl,
     TopicType, NoteType
 } from '../models/types';
 import { NSKeyedArchiverDecoder } from './nskeyedarchiver-decoder';
+import { MediaExporter } from './media-exporter';
 import { TextProcessor } from '../utils/text-utils';
 
 export interface DatabaseRow {
@@ -195,13 +196,8 @@ export class ContentExtractor {
 
         for (const row of mediaData) {
             try {
-                const media = MNMediaDataImpl.fromDatabaseRow(row);
-
-                // Decode media content if needed
-                if (media.data && media.mediaType.valueOf() !== 'unknown') {
-                    const decodedContent = this.decoder.decodeMediaData(media.data);
-                    media.parsedContent = decodedContent;
-                }
+                // Detects images/PDFs inside archived NSData and decodes ink drawings
+                const media = MediaExporter.loadMediaRow(row, this.decoder);
 
                 this.mediaCollection.addMedia(media);
             } catch (error) {
@@ -332,6 +328,9 @@ export class ContentExtractor {
         for (const note of this.notes.values()) {
             const noteId = note.noteId;
 
+            // Register every note so unlinked notes form their own group
+            this.unionFind.find(noteId);
+
             // Link with group note
             if (note.groupNoteId) {
                 this.unionFind.union(noteId, note.groupNoteId);
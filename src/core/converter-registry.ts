@@ -0,0 +1,251 @@
+/**
+ * Converter Registry
+ * Common interface over the database converters so the plugin can pick
+ * an output style by id and report every import the same way
+ */
+
+import { DatabaseData, ImportConfig, MarginNoteImporter } from './margin-note-importer';
+import { RawZBookNoteConverter } from './raw-zbooknote-converter';
+import { SimpleZBookNoteConverter } from './simple-zbooknote-converter';
+import { MarginNoteMemoryConverter } from './marginnote-memory-converter';
+import { LiteratureNoteConverter } from './literature-note-converter';
+import { HierarchyMode } from './note-tree';
+import { ColorRule } from '../utils/highlight-colors';
+import { DocumentRegistry } from './document-registry';
+import { PropertyRule } from './property-schema';
+import { ImportConfigFile, mergeImportConfig, splitByNotebookConfig } from './import-config';
+
+export interface ConverterOptions {
+  outputDirectory: string;
+  vaultAdapter?: any;
+  createSubdirectories?: boolean;
+  includeMetadata?: boolean;
+  includeCoordinates?: boolean;
+  skipEmptyNotes?: boolean;
+  strictDecoding?: boolean;
+  includeMedia?: boolean;
+  attachmentsFolder?: string;
+  hierarchyMode?: HierarchyMode;
+  notebookFolders?: boolean; // One folder per notebook for multi-notebook packages
+  syncMode?: boolean;
+  skippedNoteIds?: string[]; // Notes left out by the preview or the filters
+  preserveUserContent?: boolean;
+  colorTable?: ColorRule[];
+  documents?: DocumentRegistry;
+  noteTemplate?: string; // Template source replacing the built-in note layout
+  propertySchema?: PropertyRule[];
+  importConfig?: ImportConfigFile; // Config file settings and per-notebook overrides (grouped import)
+}
+
+export interface ConversionResult {
+  success: boolean;
+  notesCreated: number;
+  errors: string[];
+  outputFiles: string[];
+  outputFolder?: string;
+  notesUpdated?: number;
+  notesUnchanged?: number;
+  deletedNoteIds?: string[];
+  noteFiles?: Record<string, string>; // ZNOTEID -> vault path of the note holding it
+}
+
+export interface MarginNoteConverter {
+  convertFromData(databaseData: DatabaseData): Promise<ConversionResult>;
+}
+
+export interface ConverterStrategy {
+  id: string;
+  name: string;
+  description: string;
+  create(options: ConverterOptions): MarginNoteConverter;
+}
+
+/**
+ * Adapts the grouped MarginNoteImporter pipeline to the common converter interface
+ */
+export class GroupedImportConverter implements MarginNoteConverter {
+  private options: ConverterOptions;
+
+  constructor(options: ConverterOptions) {
+    this.options = options;
+  }
+
+  async convertFromData(databaseData: DatabaseData): Promise<ConversionResult> {
+    const baseConfig = this.createImportConfig();
+    if (!this.options.importConfig) {
+      return this.importPart(databaseData, baseConfig);
+    }
+
+    // Settings from the config file win over the options; notebooks with an override are imported on their own
+    const fileConfig = mergeImportConfig(baseConfig, this.options.importConfig.config);
+    const result: ConversionResult = {
+      success: false,
+      notesCreated: 0,
+      errors: [],
+      outputFiles: [],
+      outputFolder: fileConfig.outputDirectory,
+      noteFiles: {}
+    };
+
+    for (const part of splitByNotebookConfig(databaseData, this.options.importConfig)) {
+      const config = mergeImportConfig(fileConfig, part.config);
+      // Parts writing to the same folder would overwrite each other's report; the shared part keeps it
+      if (part.notebooks.length > 0 && !part.config.reportFile && config.outputDirectory === fileConfig.outputDirectory) {
+        config.reportFile = '';
+      }
+
+      const partResult = await this.importPart(part.databaseData, config);
+      result.success = result.success || partResult.success;
+      result.notesCreated += partResult.notesCreated;
+      result.errors.push(...partResult.errors);
+      result.outputFiles.push(...partResult.outputFiles);
+      Object.assign(result.noteFiles!, partResult.noteFiles);
+    }
+
+    return result;
+  }
+
+  private createImportConfig(): ImportConfig {
+    return {
+      ...new MarginNoteImporter().getConfig(),
+      outputDirectory: this.options.outputDirectory,
+      createSubdirectories: this.options.createSubdirectories !== false,
+      includeMetadata: this.options.includeMetadata !== false,
+      includeCoordinates: this.options.includeCoordinates !== false,
+      skipEmptyNotes: this.options.skipEmptyNotes !== false,
+      strictDecoding: !!this.options.strictDecoding,
+      includeMedia: this.options.includeMedia !== false,
+      attachmentsFolder: this.options.attachmentsFolder || 'attachments',
+      obsidianConfig: {
+        includeCoordinates: this.options.includeCoordinates !== false,
+        metadataSection: this.options.includeMetadata !== false,
+        colorTable: this.options.colorTable,
+        documents: this.options.documents,
+        ...(this.options.noteTemplate ? { noteTemplate: this.options.noteTemplate } : {})
+      }
+    };
+  }
+
+  private async importPart(databaseData: DatabaseData, config: ImportConfig): Promise<ConversionResult> {
+    const importer = new MarginNoteImporter(config, this.options.vaultAdapter);
+    const importResult = await importer.importMarginNoteData(databaseData);
+
+    return {
+      success: importResult.success,
+      notesCreated: importResult.notesCreated || 0,
+      errors: [...(importResult.error ? [importResult.error] : []), ...(importResult.errors || [])],
+      outputFiles: importResult.importReport ? importResult.importReport.outputFiles : [],
+      outputFolder: importResult.outputDirectory,
+      noteFiles: importResult.noteFiles
+    };
+  }
+}
+
+export class ConverterRegistry {
+  private strategies = new Map<string, ConverterStrategy>();
+
+  /**
+   * Register a strategy, replacing any existing one with the same id
+   */
+  register(strategy: ConverterStrategy): void {
+    this.strategies.set(strategy.id, strategy);
+  }
+
+  get(id: string): ConverterStrategy | undefined {
+    return this.strategies.get(id);
+  }
+
+  list(): ConverterStrategy[] {
+    return Array.from(this.strategies.values());
+  }
+
+  /**
+   * Create a converter for the given strategy id
+   */
+  create(id: string, options: ConverterOptions): MarginNoteConverter {
+    const strategy = this.strategies.get(id);
+    if (!strategy) {
+      throw new Error(`Unknown converter strategy: ${id}`);
+    }
+
+    return strategy.create(options);
+  }
+}
+
+/**
+ * Registry with the built-in output styles
+ */
+export function createDefaultConverterRegistry(): ConverterRegistry {
+  const registry = new ConverterRegistry();
+
+  registry.register({
+    id: 'raw',
+    name: 'Raw ZBOOKNOTE rows',
+    description: 'One note per database row with the raw column dictionary',
+    create: options => new RawZBookNoteConverter({
+      outputDirectory: options.outputDirectory,
+      createSubdirectories: options.createSubdirectories,
+      vaultAdapter: options.vaultAdapter
+    })
+  });
+
+  registry.register({
+    id: 'znoteid',
+    name: 'One note per ZNOTEID',
+    description: 'Notes titled by ZNOTEID holding the full MbBookNotes_for_export object',
+    create: options => new SimpleZBookNoteConverter({
+      outputDirectory: options.outputDirectory,
+      vaultAdapter: options.vaultAdapter,
+      syncMode: options.syncMode,
+      skippedNoteIds: options.skippedNoteIds,
+      preserveUserContent: options.preserveUserContent,
+      includeMedia: options.includeMedia,
+      attachmentsFolder: options.attachmentsFolder,
+      hierarchyMode: options.hierarchyMode,
+      notebookFolders: options.notebookFolders,
+      colorTable: options.colorTable,
+      documents: options.documents,
+      template: options.noteTemplate,
+      propertySchema: options.propertySchema
+    })
+  });
+
+  registry.register({
+    id: 'grouped',
+    name: 'Grouped and deduplicated',
+    description: 'Related notes merged into deduplicated groups, with an import report',
+    create: options => new GroupedImportConverter(options)
+  });
+
+  registry.register({
+    id: 'mbbooknote',
+    name: 'MbBookNote markdown',
+    description: 'Readable markdown rendered from MbBookNote objects',
+    create: options => new MarginNoteMemoryConverter({
+      outputDirectory: options.outputDirectory,
+      createSubdirectories: options.createSubdirectories,
+      vaultAdapter: options.vaultAdapter,
+      hierarchyMode: options.hierarchyMode,
+      colorTable: options.colorTable,
+      documents: options.documents,
+      template: options.noteTemplate
+    })
+  });
+
+  registry.register({
+    id: 'literature',
+    name: 'Literature note per document',
+    description: 'One note per book or PDF with its excerpts by page, comments and block ids',
+    create: options => new LiteratureNoteConverter({
+      outputDirectory: options.outputDirectory,
+      vaultAdapter: options.vaultAdapter,
+      preserveUserContent: options.preserveUserContent,
+      includeMedia: options.includeMedia,
+      attachmentsFolder: options.attachmentsFolder,
+      colorTable: options.colorTable,
+      documents: options.documents
+    })
+  });
+
+  return registry;
+}
@@ -1,8 +1,9 @@
 /**
  * MarginNote4 database parser
  * 
- * Handles extraction and parsing of SQLite database from .marginpkg files.
- * Provides structured access to ZBOOKNOTE, ZTOPIC, and ZMEDIA tables.
+ * Handles extraction and parsing of SQLite database from .marginpkg files,
+ * bare MarginNote databases (.marginnotes backups, .sqlite, .db) and CSV table
+ * exports. Provides structured access to ZBOOKNOTE, ZTOPIC, and ZMEDIA tables.
  * 
  * Uses fflate library for proper ZIP decompression in browser environment.
  */
@@ -12,6 +13,7 @@ import { unzip, Unzipped } from 'fflate';
 // Use the asm.js version which doesn't require WASM
 import initSqlJs from 'sql.js/dist/sql-asm.js';
 import { NSKeyedArchiverDecoder } from './nskeyedarchiver-decoder';
+import { detectFileFormat, detectSourceFormat, readCsvTables } from './import-source';
 
 export interface MarginPkgFile {
     name: string;
@@ -22,6 +24,8 @@ export interface ParsedDatabase {
     booknotes: DatabaseRow[];
     topics: DatabaseRow[];
     media: DatabaseRow[];
+    reviews: DatabaseRow[];
+    books: DatabaseRow[];
     metadata: DatabaseMetadata;
 }
 
@@ -60,41 +64,114 @@ export class MarginNoteDatabaseParser {
     }
 
     /**
-     * Parse a .marginpkg file and extract database content
+     * Parse a .marginpkg file, MarginNote database or CSV table export and extract
+     * database content. The format is told from the bytes, not the file name.
      */
     async parseMarginPkg(file: File | ArrayBuffer): Promise<DatabaseData> {
-        console.log('Parsing .marginpkg file...');
+        const data = file instanceof File ? await file.arrayBuffer() : file;
+        return this.parseImportFiles([{ name: file instanceof File ? file.name : 'notebook', data }]);
+    }
+
+    /**
+     * Parse a set of picked files: one archive or database, or the CSV files of
+     * an export folder (one table per file)
+     */
+    async parseImportFiles(files: MarginPkgFile[]): Promise<DatabaseData> {
+        console.log(`Parsing ${files.map(file => file.name).join(', ')}...`);
 
         try {
-            // Extract files from the .marginpkg archive
-            const extractedFiles = await this.extractMarginPkgFiles(file);
+            const csvFiles = files.filter(file => detectSourceFormat(file.data) === 'csv');
+            const sourceFile = files.find(file => {
+                const format = detectSourceFormat(file.data);
+                return format === 'marginpkg' || format === 'sqlite';
+            });
 
-            // Find and parse the SQLite database
-            const databaseFile = this.findDatabaseFile(extractedFiles);
-            if (!databaseFile) {
-                throw new DatabaseParseError('No SQLite database found in .marginpkg file');
+            let parsedDatabase: ParsedDatabase;
+            if (sourceFile) {
+                if (files.length > 1) {
+                    console.warn(`Importing ${sourceFile.name}, ignoring the other files`);
+                }
+                parsedDatabase = await this.parseSourceFile(sourceFile);
+            } else if (csvFiles.length > 0) {
+                parsedDatabase = this.parseCsvExport(csvFiles);
+            } else {
+                throw new DatabaseParseError(
+                    'Not a MarginNote notebook: expected a .marginpkg archive, a MarginNote database ' +
+                    '(.marginnotes, .sqlite, .db) or MarginNote CSV exports'
+                );
             }
 
-            // Parse the SQLite database
-            const parsedDatabase = await this.parseSQLiteDatabase(databaseFile.data);
-
             console.log(`Database parsed successfully: ${parsedDatabase.booknotes.length} notes, ` +
                        `${parsedDatabase.topics.length} topics, ${parsedDatabase.media.length} media items`);
 
             return {
                 booknotes: parsedDatabase.booknotes,
                 topics: parsedDatabase.topics,
-                media: parsedDatabase.media
+                media: parsedDatabase.media,
+                reviews: parsedDatabase.reviews,
+                books: parsedDatabase.books
             };
 
         } catch (error) {
-            console.error('Failed to parse .marginpkg file:', error);
+            console.error('Failed to parse MarginNote data:', error);
             
             // NO GRACEFUL FALLBACK - Always throw errors to see what's failing
             throw error;
         }
     }
 
+    /**
+     * Parse an archive or a bare database
+     */
+    private async parseSourceFile(file: MarginPkgFile): Promise<ParsedDatabase> {
+        if (detectSourceFormat(file.data) === 'sqlite') {
+            return this.parseSQLiteDatabase(file.data);
+        }
+
+        // Extract files from the .marginpkg archive
+        const extractedFiles = await this.extractMarginPkgFiles(file.data);
+
+        // CSV exports packed in place of a database
+        const csvFiles = extractedFiles.filter(extracted => detectSourceFormat(extracted.data) === 'csv');
+        if (csvFiles.length > 0 && !extractedFiles.some(extracted => detectSourceFormat(extracted.data) === 'sqlite')) {
+            return this.parseCsvExport(csvFiles);
+        }
+
+        // Find and parse the SQLite database
+        const databaseFile = this.findDatabaseFile(extractedFiles);
+        if (!databaseFile) {
+            throw new DatabaseParseError(`No SQLite database found in ${file.name}`);
+        }
+        return this.parseSQLiteDatabase(databaseFile.data);
+    }
+
+    /**
+     * Build the tables from CSV exports, decoding the note archives like the SQLite path
+     */
+    private parseCsvExport(files: MarginPkgFile[]): ParsedDatabase {
+        const tables = readCsvTables(files);
+        if (tables.booknotes.length === 0) {
+            throw new DatabaseParseError('No ZBOOKNOTE export among the CSV files');
+        }
+
+        this.decodeBinaryColumns(tables.booknotes);
+
+        console.log(`Successfully read CSV export:`);
+        console.log(`  ZBOOKNOTE: ${tables.booknotes.length} rows`);
+        console.log(`  ZTOPIC: ${tables.topics.length} rows`);
+        console.log(`  ZMEDIA: ${tables.media.length} rows`);
+
+        return {
+            ...tables,
+            metadata: {
+                version: '4.0 (csv)',
+                extractedAt: new Date(),
+                totalTables: files.length,
+                fileSize: files.reduce((size, file) => size + file.data.byteLength, 0)
+            }
+        };
+    }
+
     /**
      * Extract files from .marginpkg archive (ZIP format) using fflate
      */
@@ -358,6 +435,12 @@ export class MarginNoteDatabaseParser {
      * Find the MarginNote data file in extracted files
      */
     private findDatabaseFile(files: MarginPkgFile[]): MarginPkgFile | null {
+        // A SQLite header settles it whatever the entry is called
+        const sqliteFile = files.find(file => detectSourceFormat(file.data) === 'sqlite');
+        if (sqliteFile) {
+            return sqliteFile;
+        }
+
         // Look for MarginNote data files
         const patterns = [
             /\.marginnotes$/i,
@@ -454,17 +537,38 @@ export class MarginNoteDatabaseParser {
                 console.warn('ZMEDIA table not found or inaccessible');
             }
             
+            const reviewRows = this.queryReviewTables(db);
+            
+            // Document tables: ZBOOK has file names, ZBOOKCONFIG the titles
+            const bookRows: DatabaseRow[] = [];
+            for (const table of ['ZBOOK', 'ZBOOKCONFIG']) {
+                try {
+                    const stmt = db.prepare(`SELECT * FROM ${table}`);
+                    while (stmt.step()) {
+                        const row = stmt.getAsObject() as DatabaseRow;
+                        delete row.ZTHUMBNAIL;
+                        bookRows.push(row);
+                    }
+                    stmt.free();
+                } catch (e) {
+                    console.warn(`${table} table not found or inaccessible`);
+                }
+            }
+            
             db.close();
             
             console.log(`Successfully parsed SQLite database:`);
             console.log(`  ZBOOKNOTE: ${zbooknoteRows.length} rows`);
             console.log(`  ZTOPIC: ${ztopicRows.length} rows`);
             console.log(`  ZMEDIA: ${zmediaRows.length} rows`);
+            console.log(`  Review: ${reviewRows.length} rows`);
             
             return {
                 booknotes: zbooknoteRows,
                 topics: ztopicRows,
                 media: zmediaRows,
+                reviews: reviewRows,
+                books: bookRows,
                 metadata: {
                     version: '4.0 (sql.js)',
                     extractedAt: new Date(),
@@ -484,6 +588,43 @@ export class MarginNoteDatabaseParser {
         }
     }
     
+    /**
+     * Read review/scheduling rows. MarginNote versions name these tables differently,
+     * so every table whose name mentions REVIEW or CARD and that has a note ID column is read,
+     * along with the SpacedRepetition rows of the ZACTIVITY log (MarginNote 4).
+     */
+    private queryReviewTables(db: any): DatabaseRow[] {
+        const reviewRows: DatabaseRow[] = [];
+        
+        try {
+            const tables = db.exec("SELECT name FROM sqlite_master WHERE type = 'table'");
+            const tableNames: string[] = tables.length > 0 ? tables[0].values.map((value: any[]) => String(value[0])) : [];
+            
+            for (const tableName of tableNames.filter(name => /REVIEW|CARD/i.test(name))) {
+                const stmt = db.prepare(`SELECT * FROM "${tableName.replace(/"/g, '""')}"`);
+                while (stmt.step()) {
+                    const row = stmt.getAsObject() as DatabaseRow;
+                    if (Object.keys(row).some(key => /NOTE_?ID$/i.test(key))) {
+                        reviewRows.push({ ...row, __table: tableName });
+                    }
+                }
+                stmt.free();
+            }
+            
+            if (tableNames.includes('ZACTIVITY')) {
+                const stmt = db.prepare("SELECT * FROM ZACTIVITY WHERE ZACTION = 'SpacedRepetition' ORDER BY ZTIME");
+                while (stmt.step()) {
+                    reviewRows.push({ ...(stmt.getAsObject() as DatabaseRow), __table: 'ZACTIVITY' });
+                }
+                stmt.free();
+            }
+        } catch (e) {
+            console.warn('Review tables not found or inaccessible');
+        }
+        
+        return reviewRows;
+    }
+    
     /**
      * Parse MarginNote binary format
      */
@@ -502,6 +643,8 @@ export class MarginNoteDatabaseParser {
             booknotes: notes,
             topics: topics,
             media: [],
+            reviews: [],
+            books: [],
             metadata: {
                 version: '4.0',
                 extractedAt: new Date(),
@@ -625,7 +768,7 @@ export class MarginNoteDatabaseParser {
 }
 
 /**
- * Convenience function to parse a .marginpkg file
+ * Convenience function to parse a .marginpkg file, MarginNote database or CSV export
  */
 export async function parseMarginPkgFile(
     file: File | ArrayBuffer, 
@@ -636,7 +779,22 @@ export async function parseMarginPkgFile(
 }
 
 /**
- * Check if a file appears to be a valid .marginpkg file
+ * Convenience function to parse several picked files, e.g. a folder of CSV exports
+ */
+export async function parseImportFiles(
+    files: File[],
+    strictDecoding: boolean = false
+): Promise<DatabaseData> {
+    const parser = new MarginNoteDatabaseParser(strictDecoding);
+    const sources = await Promise.all(files.map(async file => ({
+        name: file.webkitRelativePath || file.name,
+        data: await file.arrayBuffer()
+    })));
+    return await parser.parseImportFiles(sources);
+}
+
+/**
+ * Check if file appears to be a valid .marginpkg file
  */
 export function isValidMarginPkgFile(file: File): boolean {
     // Basic validation
@@ -652,4 +810,19 @@ export function isValidMarginPkgFile(file: File): boolean {
     }
 
     return true;
-}
\ No newline at end of file
+}
+
+/**
+ * Check if a file appears to be something the importer can read, judged by its
+ * content: a .marginpkg archive, a MarginNote database or a CSV table export
+ */
+export async function isImportableFile(file: File): Promise<boolean> {
+    // Check file size (should be reasonable for a database)
+    const maxSize = 500 * 1024 * 1024; // 500MB
+    if (file.size > maxSize) {
+        console.warn('File size exceeds maximum expected size');
+        return false;
+    }
+
+    return (await detectFileFormat(file)) !== null;
+}
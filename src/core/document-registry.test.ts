@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { DocumentRegistry, normalizeDocMd5, parseDocumentMapping } from './document-registry';
+import { DatabaseData } from './margin-note-importer';
+
+const MD5_A = 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+const MD5_B = 'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+const MD5_C = 'cccccccccccccccccccccccccccccccc';
+const MD5_D = 'dddddddddddddddddddddddddddddddd';
+
+const databaseData = {
+  booknotes: [
+    { ZNOTEID: 'N1', ZBOOKMD5: MD5_A + MD5_A },
+    { ZNOTEID: 'N2', ZBOOKMD5: MD5_D }
+  ],
+  topics: [],
+  media: [],
+  books: [
+    { ZMD5: MD5_A, ZFILE: 'Imports/Paper.PDF' },
+    { ZMD5: MD5_B, ZTITLE: 'Textbook' },
+    { ZMD5: MD5_C, ZFILE: 'missing.pdf', ZTITLE: 'Missing' }
+  ]
+} as unknown as DatabaseData;
+
+const VAULT_PDFS = ['Library/paper.pdf', 'Books/Textbook.pdf', 'Other/textbook.pdf'];
+
+describe('normalizeDocMd5 and parseDocumentMapping', () => {
+  it('reads the doubled note MD5 and "md5: path" lines', () => {
+    expect(normalizeDocMd5((MD5_A + MD5_A).toUpperCase())).toBe(MD5_A);
+    expect(normalizeDocMd5(null)).toBe('');
+    expect(parseDocumentMapping(`${MD5_C}: Scans/found.pdf\n# comment\n${MD5_D.toUpperCase()} = By hand.pdf `)).toEqual({
+      [MD5_C]: 'Scans/found.pdf',
+      [MD5_D]: 'By hand.pdf'
+    });
+  });
+});
+
+describe('DocumentRegistry.fromDatabase', () => {
+  it('matches PDFs by file name, then title, and lets the mapping win', () => {
+    const registry = DocumentRegistry.fromDatabase(databaseData, VAULT_PDFS);
+
+    expect(registry.getPdfPath(MD5_A + MD5_A)).toBe('Library/paper.pdf');
+    expect(registry.getPdfPath(MD5_B)).toBe('Books/Textbook.pdf');
+    expect(registry.getUnmatched().map(document => document.md5)).toEqual([MD5_C, MD5_D]);
+
+    const mapped = DocumentRegistry.fromDatabase(databaseData, VAULT_PDFS, { [MD5_A]: 'Mine.pdf', [MD5_D]: 'Notes only.pdf' });
+    expect(mapped.getPdfPath(MD5_A)).toBe('Mine.pdf');
+    expect(mapped.getPdfPath(MD5_D)).toBe('Notes only.pdf');
+  });
+});
+
+describe('DocumentRegistry.formatSourceLinks', () => {
+  const documents = [{ md5: MD5_A, pdfPath: 'Library/paper.pdf' }];
+
+  it('links the page or page range of the excerpt', () => {
+    const registry = new DocumentRegistry(documents);
+
+    expect(registry.formatSourceLinks(MD5_A, { startPage: 4 })).toBe('[[Library/paper.pdf#page=4|p. 4]]');
+    expect(registry.formatSourceLinks(MD5_A, { startPage: 4, endPage: 6 })).toBe('[[Library/paper.pdf#page=4|p. 4-6]]');
+    expect(registry.formatSourceLinks(MD5_A, { startPage: 0 })).toBe('');
+    expect(registry.formatSourceLinks(MD5_B, { startPage: 4 })).toBe('');
+  });
+
+  it('adds the selection rectangle on one page when asked', () => {
+    const registry = new DocumentRegistry(documents, { rectLinks: true });
+    const location = { startPage: 4, endPage: 4, startPos: '{72, 500}', endPos: '{300.4, 488}' };
+
+    expect(registry.formatSourceLinks(MD5_A, location))
+      .toBe('[[Library/paper.pdf#page=4|p. 4]] · [[Library/paper.pdf#page=4&rect=72,484,300,512|selection]]');
+    expect(registry.formatSourceLinks(MD5_A, { ...location, endPage: 5 })).toBe('[[Library/paper.pdf#page=4|p. 4-5]]');
+    expect(registry.formatSourceLinks(MD5_A, { ...location, endPos: '{72.2, 480}' })).toBe('[[Library/paper.pdf#page=4|p. 4]]');
+  });
+});
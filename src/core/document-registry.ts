@@ -0,0 +1,194 @@
+/**
+ * Document Registry
+ * Maps each MarginNote document (ZBOOKMD5) to its PDF in the vault, from a
+ * user-provided mapping or by matching the document's file name or title, and
+ * builds [[book.pdf#page=N]] deep links back to an excerpt's page (with a
+ * selection rectangle for PDF viewers that support &rect=)
+ */
+
+import { DatabaseData } from './margin-note-importer';
+
+export interface DocumentInfo {
+  md5: string;
+  title?: string;
+  file?: string;     // File name MarginNote imported the document from
+  pdfPath?: string;  // Vault path of the matching PDF
+}
+
+export interface PageLinkOptions {
+  startPage?: number;
+  endPage?: number;
+  startPos?: string; // "x,y" in PDF points, as stored in ZSTARTPOS
+  endPos?: string;
+}
+
+export interface DocumentRegistryOptions {
+  rectLinks?: boolean; // Also link the excerpt's rectangle (&rect=, PDF++ plugin)
+}
+
+const LINE_HEIGHT = 12; // PDF points added around single-line selections
+
+/**
+ * ZBOOKNOTE.ZBOOKMD5 is the document MD5 written twice; ZBOOK/ZBOOKCONFIG use it once
+ */
+export function normalizeDocMd5(md5: any): string {
+  if (!md5) return '';
+  const value = String(md5).trim().toLowerCase();
+  if (value.length === 64 && value.substring(0, 32) === value.substring(32)) {
+    return value.substring(0, 32);
+  }
+  return value;
+}
+
+/**
+ * Parse a user mapping, one "md5: path/to/book.pdf" (or "md5 = path") per line
+ */
+export function parseDocumentMapping(text: string): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  for (const line of (text || '').split('\n')) {
+    const match = line.match(/^\s*([0-9a-fA-F]{32,64})\s*[:=]\s*(.+?)\s*$/);
+    if (match) {
+      mapping[normalizeDocMd5(match[1])] = match[2];
+    }
+  }
+  return mapping;
+}
+
+export class DocumentRegistry {
+  private documents = new Map<string, DocumentInfo>();
+  private options: DocumentRegistryOptions;
+
+  constructor(documents: DocumentInfo[] = [], options: DocumentRegistryOptions = {}) {
+    this.options = options;
+    for (const document of documents) {
+      this.documents.set(normalizeDocMd5(document.md5), document);
+    }
+  }
+
+  /**
+   * Collect the documents of a notebook and match them to vault PDFs.
+   * The user mapping wins; otherwise the ZBOOK file name, then the ZBOOKCONFIG
+   * title, is compared with the vault PDF names (case-insensitive, extension optional).
+   */
+  static fromDatabase(databaseData: DatabaseData, vaultPdfPaths: string[],
+                      mapping: Record<string, string> = {}, options: DocumentRegistryOptions = {}): DocumentRegistry {
+    const documents = new Map<string, DocumentInfo>();
+    const documentFor = (md5: any): DocumentInfo | undefined => {
+      const key = normalizeDocMd5(md5);
+      if (!key) return undefined;
+      if (!documents.has(key)) {
+        documents.set(key, { md5: key });
+      }
+      return documents.get(key);
+    };
+
+    for (const row of databaseData.books || []) {
+      const document = documentFor(row.ZMD5 || row.md5);
+      if (!document) continue;
+
+      const file = row.ZFILE || row.ZPATH;
+      if (file && !document.file) {
+        document.file = String(file).split('/').pop();
+      }
+      if (row.ZTITLE && !document.title) {
+        document.title = String(row.ZTITLE);
+      }
+    }
+
+    // Documents only referenced by notes can still be mapped by hand
+    for (const row of databaseData.booknotes) {
+      documentFor(row.ZBOOKMD5);
+    }
+
+    const pdfsByName = new Map<string, string>();
+    for (const path of vaultPdfPaths) {
+      const name = path.split('/').pop()!.toLowerCase();
+      if (!pdfsByName.has(name)) {
+        pdfsByName.set(name, path);
+      }
+      const stem = name.replace(/\.pdf$/, '');
+      if (!pdfsByName.has(stem)) {
+        pdfsByName.set(stem, path);
+      }
+    }
+
+    for (const document of documents.values()) {
+      const mapped = mapping[document.md5];
+      if (mapped) {
+        document.pdfPath = mapped;
+        continue;
+      }
+
+      for (const candidate of [document.file, document.title]) {
+        if (!candidate) continue;
+        const name = candidate.toLowerCase();
+        const match = pdfsByName.get(name) || pdfsByName.get(name.replace(/\.pdf$/, ''));
+        if (match) {
+          document.pdfPath = match;
+          break;
+        }
+      }
+    }
+
+    return new DocumentRegistry(Array.from(documents.values()), options);
+  }
+
+  getDocument(md5: any): DocumentInfo | undefined {
+    return this.documents.get(normalizeDocMd5(md5));
+  }
+
+  getPdfPath(md5: any): string | undefined {
+    return this.getDocument(md5)?.pdfPath;
+  }
+
+  /**
+   * Unmatched documents, for reporting
+   */
+  getUnmatched(): DocumentInfo[] {
+    return Array.from(this.documents.values()).filter(document => !document.pdfPath);
+  }
+
+  /**
+   * Deep links to the excerpt's page (and selection), or '' when the PDF is not in the vault
+   */
+  formatSourceLinks(md5: any, location: PageLinkOptions): string {
+    const pdfPath = this.getPdfPath(md5);
+    const page = Number(location.startPage);
+    if (!pdfPath || !page) return '';
+
+    const endPage = Number(location.endPage);
+    const label = endPage && endPage !== page ? `p. ${page}-${endPage}` : `p. ${page}`;
+    const links = [`[[${pdfPath}#page=${page}|${label}]]`];
+
+    const rect = this.options.rectLinks ? this.getSelectionRect(location) : undefined;
+    if (rect && (!endPage || endPage === page)) {
+      links.push(`[[${pdfPath}#page=${page}&rect=${rect}|selection]]`);
+    }
+
+    return links.join(' · ');
+  }
+
+  /**
+   * Rectangle (left,bottom,right,top in PDF points) spanning the start and end positions
+   */
+  private getSelectionRect(location: PageLinkOptions): string | undefined {
+    const start = parsePoint(location.startPos);
+    const end = parsePoint(location.endPos);
+    if (!start || !end) return undefined;
+
+    const left = Math.min(start.x, end.x);
+    const right = Math.max(start.x, end.x);
+    // Positions are on the text baseline: include the line above the higher one
+    const bottom = Math.min(start.y, end.y) - LINE_HEIGHT / 3;
+    const top = Math.max(start.y, end.y) + LINE_HEIGHT;
+    if (right - left < 1) return undefined;
+
+    return [left, bottom, right, top].map(value => Math.round(value)).join(',');
+  }
+}
+
+function parsePoint(value?: string): { x: number; y: number } | undefined {
+  if (!value) return undefined;
+  const [x, y] = (String(value).match(/-?\d+(?:\.\d+)?/g) || []).map(parseFloat);
+  return x === undefined || y === undefined ? undefined : { x, y };
+}
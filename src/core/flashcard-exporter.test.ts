@@ -0,0 +1,86 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { FlashcardExporter, loadDeckTopicIds } from './flashcard-exporter';
+import { DatabaseData } from './margin-note-importer';
+import { MemoryVault } from '../testing/memory-vault';
+import { loadSamplePackage } from '../testing/sample-package';
+
+const TESTING3 = '5E47B810-2BF2-4833-8966-BB4A56492307';
+const RC1 = 'C63E28EF-E8F4-4774-99FD-C6E5D3DDA79D';
+
+describe('FlashcardExporter on the sample notebook', () => {
+  let databaseData: DatabaseData;
+
+  beforeAll(async () => {
+    databaseData = await loadSamplePackage();
+  });
+
+  it('finds the deck topic, not the notebook pointing at it', () => {
+    expect(Array.from(loadDeckTopicIds(databaseData))).toEqual([RC1]);
+  });
+
+  it('resolves the deck cards to their source notes', () => {
+    const decks = FlashcardExporter.collectCardNotes(databaseData);
+    expect(decks.map(deck => deck.title)).toEqual(['RC1']);
+
+    const notes = decks[0].notes;
+    expect(notes).toHaveLength(15);
+    expect(notes.every(note => note.noteId && note.topicId !== RC1)).toBe(true);
+    expect(notes.filter(note => note.topicId === TESTING3)).toHaveLength(14);
+    expect(notes.map(note => note.noteTitle)).toContain('GRANCHILD4TITLE');
+  });
+
+  it('writes one deck note named after the deck', async () => {
+    const vault = new MemoryVault();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const written = await new FlashcardExporter({ outputDirectory: 'Flashcards', format: 'single-line', vaultAdapter: vault })
+      .exportDecks(databaseData);
+    vi.restoreAllMocks();
+
+    expect(written).toEqual(['Flashcards/RC1.md']);
+    const deck = vault.files.get('Flashcards/RC1.md') as string;
+    expect(deck.startsWith('#flashcards/RC1\n')).toBe(true);
+    expect(deck).toContain('title::Child4 has a title');
+  });
+});
+
+describe('FlashcardExporter deck files', () => {
+  const topic = (id: string, title: string) => ({ ZTOPICID: id, ZTITLE: title, ZFORUMOWNER: '{"MN3_FlashcardsDeck009":true}' });
+  const card = (id: string, topicId: string, sourceId: string) => ({ ZNOTEID: id, ZTOPICID: topicId, ZTYPE: 5, ZEVERNOTEID: sourceId });
+  const source = (id: string, text: string) => ({ ZNOTEID: id, ZTOPICID: 'BOOK', ZTYPE: 256, ZNOTETITLE: 'Q', ZHIGHLIGHT_TEXT: text });
+
+  it('strips wikilink characters and keeps decks with the same title apart', async () => {
+    const data = {
+      booknotes: [
+        source('S1', 'First'), source('S2', 'Second'),
+        card('C1', 'DECK-A-1', 'S1'), card('C2', 'DECK-B-2', 'S2')
+      ],
+      topics: [topic('DECK-A-1', 'Doc1 #1'), topic('DECK-B-2', 'Doc1 #1')],
+      media: []
+    } as unknown as DatabaseData;
+
+    const vault = new MemoryVault();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const written = await new FlashcardExporter({ outputDirectory: 'Flashcards', format: 'single-line', vaultAdapter: vault })
+      .exportDecks(data);
+    vi.restoreAllMocks();
+
+    expect(written).toEqual(['Flashcards/Doc1 1.md', 'Flashcards/Doc1 1 (DECK-B-2).md']);
+    expect(vault.files.get('Flashcards/Doc1 1 (DECK-B-2).md')).toContain('Q::Second');
+  });
+
+  it('reads a card left without its source note from the excerpt copy', () => {
+    const data = {
+      booknotes: [
+        card('C1', 'DECK', 'S1'),
+        { ZNOTEID: 'X1', ZGROUPNOTEID: 'C1', ZTOPICID: 'DECK', ZTYPE: 256, ZHIGHLIGHT_TEXT: 'Copied excerpt' }
+      ],
+      topics: [topic('DECK', 'Deck')],
+      media: []
+    } as unknown as DatabaseData;
+
+    const [deck] = FlashcardExporter.collectCardNotes(data);
+    expect(deck.notes).toHaveLength(1);
+    expect(deck.notes[0].noteId).toBe('S1');
+    expect(deck.notes[0].excerptText).toBe('Copied excerpt');
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Flashcard Exporter
+ * Splits MarginNote review cards into front and back and writes one deck note per
+ * review deck in a spaced-repetition syntax: single-line Q::A, multi-line cards
+ * with a ? separator, or cloze deletions built from the highlight masks.
+ *
+ * A review deck is a topic flagged MN3_FlashcardsDeck* in its ZFORUMOWNER (a
+ * notebook's reviewTopic points at it). Its cards are rows whose ZEVERNOTEID
+ * names the source note; the card rows' children hold copies of the excerpt.
+ */
+
+import { DatabaseData } from './margin-note-importer';
+import { MbBookNote } from '../models/MbBookNote';
+import { VaultIO } from '../utils/vault-io';
+import { loadTopicTitles } from './note-tree';
+import { sanitizeFileName, uniqueFileName } from '../utils/file-names';
+import { ReviewSchedule, formatCardSchedule } from './review-schedule';
+
+export type FlashcardFormat = 'none' | 'single-line' | 'multi-line' | 'cloze';
+
+export interface FlashcardExportOptions {
+  outputDirectory: string;
+  format: FlashcardFormat;
+  deckTagPrefix?: string; // Deck tag is #<prefix>/<topic title> (default: flashcards)
+  schedules?: Map<string, ReviewSchedule>; // Carried over as <!--SR:...--> card comments
+  vaultAdapter?: any;
+}
+
+export interface FlashcardDeck {
+  topicId: string;
+  title: string;
+  notes: MbBookNote[]; // Source notes of the cards, in card order
+}
+
+export interface Flashcard {
+  noteId: string;
+  front: string;
+  back: string;
+  cloze?: string; // Highlight text with the masked ranges marked as ==cloze==
+}
+
+export class FlashcardExporter {
+  private options: FlashcardExportOptions;
+  private io: VaultIO;
+
+  constructor(options: FlashcardExportOptions) {
+    this.options = options;
+    this.io = new VaultIO(options.vaultAdapter);
+  }
+
+  /**
+   * Write one deck note per review deck that has cards; returns the paths of the written notes
+   */
+  async exportDecks(databaseData: DatabaseData): Promise<string[]> {
+    if (this.options.format === 'none') return [];
+
+    const decks: Array<{ deck: FlashcardDeck; cards: Flashcard[] }> = [];
+    for (const deck of FlashcardExporter.collectCardNotes(databaseData)) {
+      const cards = deck.notes
+        .map(note => FlashcardExporter.createCard(note))
+        .filter((card): card is Flashcard => card !== null);
+      if (cards.length > 0) {
+        decks.push({ deck, cards });
+      }
+    }
+
+    if (decks.length === 0) return [];
+    await this.io.ensureDirectory(this.options.outputDirectory);
+
+    const written: string[] = [];
+    const usedNames = new Set<string>();
+    for (const { deck, cards } of decks) {
+      const name = uniqueFileName(sanitizeFileName(deck.title, 'Flashcards'), deck.topicId, usedNames);
+      const path = `${this.options.outputDirectory}/${name}.md`;
+      try {
+        await this.io.write(path, this.renderDeck(deck.title, cards));
+        written.push(path);
+      } catch (error) {
+        console.warn(`Failed to write flashcard deck ${path}:`, error);
+      }
+    }
+
+    console.log(`Flashcard export: ${written.length} decks written`);
+    return written;
+  }
+
+  /**
+   * Source notes of the cards of each review deck, in card order
+   */
+  static collectCardNotes(databaseData: DatabaseData): FlashcardDeck[] {
+    const topicTitles = loadTopicTitles(databaseData);
+    const deckTopics = loadDeckTopicIds(databaseData);
+    const rowsById = new Map<string, any>();
+    const childRows = new Map<string, any[]>();
+    for (const row of databaseData.booknotes) {
+      if (!row.ZNOTEID) continue;
+      rowsById.set(row.ZNOTEID, row);
+      if (row.ZGROUPNOTEID) {
+        if (!childRows.has(row.ZGROUPNOTEID)) {
+          childRows.set(row.ZGROUPNOTEID, []);
+        }
+        childRows.get(row.ZGROUPNOTEID)!.push(row);
+      }
+    }
+
+    const decks = new Map<string, FlashcardDeck>();
+    const carded = new Set<string>(); // topic id + source note id
+    for (const row of databaseData.booknotes) {
+      if (!row.ZNOTEID || !deckTopics.has(row.ZTOPICID) || !row.ZEVERNOTEID || row.ZGROUPNOTEID) continue;
+      if (carded.has(`${row.ZTOPICID}/${row.ZEVERNOTEID}`)) continue;
+      carded.add(`${row.ZTOPICID}/${row.ZEVERNOTEID}`);
+
+      // A source note left out of the import (by a filter, say) is read from the card's excerpt copy
+      const source = rowsById.get(row.ZEVERNOTEID) || { ...(childRows.get(row.ZNOTEID) || [row])[0], ZNOTEID: row.ZEVERNOTEID };
+      if (!decks.has(row.ZTOPICID)) {
+        decks.set(row.ZTOPICID, { topicId: row.ZTOPICID, title: topicTitles.get(row.ZTOPICID) || row.ZTOPICID, notes: [] });
+      }
+      decks.get(row.ZTOPICID)!.notes.push(new MbBookNote(source));
+    }
+
+    return Array.from(decks.values());
+  }
+
+  /**
+   * Split a note into a card: the title (or excerpt) is the front and the
+   * remaining text the back. Returns null when one side would be empty.
+   */
+  static createCard(note: MbBookNote): Flashcard | null {
+    const excerpt = (note.excerptText || note.textHighlight?.highlight_text || '').trim();
+    const comment = (note.notesText || '').trim();
+    const title = (note.noteTitle || '').trim();
+
+    let front: string;
+    let back: string;
+    if (title && title !== excerpt) {
+      front = title;
+      back = [excerpt, comment].filter(Boolean).join('\n\n');
+    } else {
+      front = excerpt;
+      back = comment;
+    }
+
+    const cloze = FlashcardExporter.createCloze(note);
+    if (!cloze && (!front || !back)) return null;
+
+    return { noteId: note.noteId, front, back, cloze };
+  }
+
+  /**
+   * Mark the masked parts of a highlight as cloze deletions.
+   * Masks are either "location,length" ranges or the masked text itself.
+   */
+  static createCloze(note: MbBookNote): string | undefined {
+    const text = note.textHighlight?.highlight_text || note.excerptText || '';
+    const masks = note.textHighlight?.maskList || [];
+    if (!text || masks.length === 0) return undefined;
+
+    const ranges: Array<[number, number]> = [];
+    for (const mask of masks) {
+      const range = String(mask).match(/^\{?\s*(\d+)\s*[,:-]\s*(\d+)\s*\}?$/);
+      if (range) {
+        ranges.push([parseInt(range[1], 10), parseInt(range[1], 10) + parseInt(range[2], 10)]);
+        continue;
+      }
+
+      const index = text.indexOf(String(mask));
+      if (mask && index !== -1) {
+        ranges.push([index, index + String(mask).length]);
+      }
+    }
+
+    // Apply from the end so earlier offsets stay valid, skipping overlaps
+    ranges.sort((a, b) => b[0] - a[0]);
+    let result = text;
+    let limit = text.length;
+    for (const [start, end] of ranges) {
+      if (start >= end || end > limit) continue;
+      result = `${result.substring(0, start)}==${result.substring(start, end)}==${result.substring(end)}`;
+      limit = start;
+    }
+
+    return result === text ? undefined : result;
+  }
+
+  /**
+   * Render the cards of one deck in the configured syntax
+   */
+  renderDeck(deck: string, cards: Flashcard[]): string {
+    const prefix = this.options.deckTagPrefix || 'flashcards';
+    const tag = `#${prefix}/${deck.replace(/[\s#,.:;!?'"()\[\]{}<>|\\&*+=~`^$%@]+/g, '-').replace(/^-+|-+$/g, '') || 'Default'}`;
+
+    const blocks = cards
+      .map(card => this.renderCard(card))
+      .filter(block => block.length > 0);
+
+    return [tag, '', `# ${deck}`, '', blocks.join('\n\n'), ''].join('\n');
+  }
+
+  private renderCard(card: Flashcard): string {
+    const schedule = this.options.schedules?.get(card.noteId);
+    const comment = schedule ? ` ${formatCardSchedule(schedule)}` : '';
+
+    if (this.options.format === 'cloze' && card.cloze) {
+      return `${this.joinLines(card.cloze)}${comment}`;
+    }
+    if (!card.front || !card.back) return '';
+
+    if (this.options.format === 'multi-line') {
+      // Blank lines end a card, so paragraphs are kept as single line breaks
+      const back = card.back.replace(/\n\s*\n/g, '\n');
+      return `${card.front.replace(/\n\s*\n/g, '\n')}\n?\n${back}${schedule ? `\n${formatCardSchedule(schedule)}` : ''}`;
+    }
+
+    return `${this.joinLines(card.front)}::${this.joinLines(card.back)}${comment}`;
+  }
+
+  private joinLines(text: string): string {
+    return text.split('\n').map(line => line.trim()).filter(Boolean).join('<br>');
+  }
+}
+
+/**
+ * Ids of the review deck topics: flagged as a flashcards deck themselves, or
+ * named as the reviewTopic of a notebook
+ */
+export function loadDeckTopicIds(databaseData: DatabaseData): Set<string> {
+  const deckTopics = new Set<string>();
+  for (const topic of databaseData.topics) {
+    const options = parseForumOwner(topic);
+    if (topic.ZTOPICID && Object.keys(options).some(key => /^MN\d*_FlashcardsDeck/.test(key) && options[key])) {
+      deckTopics.add(topic.ZTOPICID);
+    }
+    if (typeof options.reviewTopic === 'string' && options.reviewTopic) {
+      deckTopics.add(options.reviewTopic);
+    }
+  }
+  return deckTopics;
+}
+
+function parseForumOwner(topic: any): Record<string, any> {
+  const forumOwner = topic.ZFORUMOWNER || topic.forumOwner;
+  if (!forumOwner) return {};
+  try {
+    const options = JSON.parse(forumOwner);
+    return options && typeof options === 'object' ? options : {};
+  } catch (e) {
+    return {};
+  }
+}
@@ -0,0 +1,154 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  ImportConfigError,
+  isImportConfigFile,
+  loadImportConfig,
+  mergeImportConfig,
+  parseImportConfig,
+  splitByNotebookConfig
+} from './import-config';
+import { DatabaseData, ImportConfig, MarginNoteImporter } from './margin-note-importer';
+import { MemoryVault } from '../testing/memory-vault';
+
+const problemsOf = (raw: unknown): string[] => {
+  try {
+    parseImportConfig(raw, 'config.json');
+  } catch (error) {
+    expect(error).toBeInstanceOf(ImportConfigError);
+    return (error as ImportConfigError).problems;
+  }
+  throw new Error('expected the config to be rejected');
+};
+
+describe('parseImportConfig', () => {
+  it('reads config.example.json', () => {
+    const raw = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../../config.example.json'), 'utf8'));
+    const { config, notebooks } = parseImportConfig(raw);
+
+    expect(config.outputDirectory).toBe('obsidian_import');
+    expect(config.reportFile).toBe('import_report.json');
+    expect(config.logLevel).toBe('info');
+    expect(config.obsidianConfig!.linkFormat).toBe('[[{note_id}]]');
+    expect(config.obsidianConfig!.dateFormat).toBe('YYYY-MM-DD HH:mm:ss');
+    expect(config.obsidianConfig!.contentSections!.coordinates).toBe(true);
+    expect(notebooks).toEqual([]);
+  });
+
+  it('sets only the keys the file has', () => {
+    expect(parseImportConfig({ include_media: false }).config).toEqual({ includeMedia: false });
+  });
+
+  it('reports every problem at once, each with its key', () => {
+    const problems = problemsOf({
+      output_dir: 'x',
+      skip_empty_notes: 'yes',
+      log_level: 'LOUD',
+      obsidian_config: { link_format: '[[{id}]]', date_format: '%Y %Q', content_sections: { quotes: true } },
+      notebooks: { 'Reading list': { log_level: 'INFO' } }
+    });
+
+    expect(problems).toEqual([
+      'output_dir: unknown setting (did you mean output_directory?)',
+      'skip_empty_notes: expected true or false, got "yes"',
+      'log_level: expected one of DEBUG, INFO, WARN, WARNING, ERROR, CRITICAL, got "LOUD"',
+      'obsidian_config.link_format: must contain {note_id}',
+      'obsidian_config.content_sections.quotes: unknown section',
+      'obsidian_config.date_format: unsupported directive %Q',
+      'notebooks.Reading list.log_level: unknown setting'
+    ]);
+  });
+
+  it('rejects note templates that do not compile', () => {
+    expect(problemsOf({ obsidian_config: { note_template: '{{#if title}}' } })[0])
+      .toMatch(/^obsidian_config\.note_template: Missing \{\{\/if\}\}/);
+  });
+
+  it('reads per-notebook overrides', () => {
+    const { notebooks } = parseImportConfig({
+      notebooks: { 'Reading list': { output_directory: './reading/', obsidian_config: { link_format: '[[{note_id}|x]]' } } }
+    });
+    expect(notebooks).toEqual([{
+      notebook: 'Reading list',
+      config: { outputDirectory: 'reading', obsidianConfig: { linkFormat: '[[{note_id}|x]]' } }
+    }]);
+  });
+});
+
+describe('loadImportConfig', () => {
+  it('reads a vault file and names it in errors', async () => {
+    const vault = new MemoryVault();
+    vault.files.set('config.json', '{"report_file": "report.json"}');
+    vault.files.set('broken.json', '{ nope');
+
+    expect((await loadImportConfig('config.json', vault)).config).toEqual({ reportFile: 'report.json' });
+    await expect(loadImportConfig('broken.json', vault)).rejects.toThrow('broken.json is not valid JSON');
+    await expect(loadImportConfig('missing.json', vault)).rejects.toThrow('Config file not found: missing.json');
+  });
+});
+
+describe('isImportConfigFile', () => {
+  it('tells config files from plugin settings', () => {
+    expect(isImportConfigFile({ output_directory: 'x' })).toBe(true);
+    expect(isImportConfigFile({ notebooks: {} })).toBe(true);
+    expect(isImportConfigFile({ defaultOutputFolder: 'x', converterStrategy: 'grouped' })).toBe(false);
+  });
+});
+
+describe('mergeImportConfig', () => {
+  it('merges the Obsidian settings and content sections key by key', () => {
+    const base: ImportConfig = {
+      ...new MarginNoteImporter().getConfig(),
+      outputDirectory: 'base',
+      obsidianConfig: { linkFormat: '[[{note_id}]]', contentSections: { highlights: true, notes: true } as any }
+    };
+    const merged = mergeImportConfig(base, {
+      outputDirectory: 'other',
+      obsidianConfig: { hashtagFormat: '#{tag}', contentSections: { notes: false } as any }
+    });
+
+    expect(merged.outputDirectory).toBe('other');
+    expect(merged.obsidianConfig).toEqual({
+      linkFormat: '[[{note_id}]]',
+      hashtagFormat: '#{tag}',
+      contentSections: { highlights: true, notes: false }
+    });
+    expect(base.obsidianConfig!.contentSections!.notes).toBe(true);
+  });
+});
+
+describe('splitByNotebookConfig', () => {
+  const data = {
+    booknotes: [
+      { ZNOTEID: 'A', ZTOPICID: 'T1' },
+      { ZNOTEID: 'B', ZTOPICID: 'T2' },
+      { ZNOTEID: 'C', ZTOPICID: 'T1' },
+      { ZNOTEID: 'D' }
+    ],
+    topics: [{ ZTOPICID: 'T1', ZTITLE: 'Reading List' }, { ZTOPICID: 'T2', ZTITLE: 'Other' }],
+    media: []
+  } as unknown as DatabaseData;
+
+  it('splits the notes by the override of their notebook, matched by title or id', () => {
+    const parts = splitByNotebookConfig(data, parseImportConfig({
+      notebooks: { 'reading list': { output_directory: 'reading' } }
+    }));
+
+    expect(parts.map(part => [part.notebooks, part.databaseData.booknotes.map(row => row.ZNOTEID)])).toEqual([
+      [['T1'], ['A', 'C']],
+      [[], ['B', 'D']]
+    ]);
+    expect(parts[0].config).toEqual({ outputDirectory: 'reading' });
+    expect(parts[1].databaseData.topics).toBe(data.topics);
+  });
+
+  it('warns about overrides that match no notebook', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const parts = splitByNotebookConfig(data, parseImportConfig({ notebooks: { Missing: { include_media: false } } }));
+
+    expect(parts).toHaveLength(1);
+    expect(warn).toHaveBeenCalledWith('Config override for notebook "Missing" matches no imported notebook');
+    vi.restoreAllMocks();
+  });
+});
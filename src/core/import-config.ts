@@ -0,0 +1,336 @@
+/**
+ * Import Config Files
+ * Reads configuration files in the config.example.json format (snake_case keys,
+ * Python-style date formats) into ImportConfig, for the grouped import. A
+ * "notebooks" section overrides settings per notebook, keyed by notebook title
+ * or ZTOPICID:
+ *
+ *   "notebooks": {
+ *     "Reading list": { "output_directory": "Reading", "obsidian_config": { "link_format": "[[{note_id}]]" } }
+ *   }
+ *
+ * Every problem in a file is reported at once, each with the key it is about.
+ */
+
+import { DatabaseData, ImportConfig, LogLevel } from './margin-note-importer';
+import { ObsidianConfig } from './obsidian-converter';
+import { compileNoteTemplate } from './note-template';
+import { VaultIO } from '../utils/vault-io';
+
+export interface ImportConfigFile {
+  config: Partial<ImportConfig>; // Only the settings the file sets
+  notebooks: NotebookConfig[];
+}
+
+export interface NotebookConfig {
+  notebook: string; // Notebook title or ZTOPICID
+  config: Partial<ImportConfig>;
+}
+
+export interface NotebookImport {
+  notebooks: string[]; // ZTOPICIDs of the notebooks in this part ([] for the notes without an override)
+  config: Partial<ImportConfig>;
+  databaseData: DatabaseData;
+}
+
+export class ImportConfigError extends Error {
+  constructor(message: string, public problems: string[] = []) {
+    super(problems.length > 0 ? `${message}:\n${problems.map(problem => `  - ${problem}`).join('\n')}` : message);
+    this.name = 'ImportConfigError';
+  }
+}
+
+type Field = { key: string; type: 'string' | 'boolean'; required?: string };
+
+const IMPORT_FIELDS: Record<string, Field> = {
+  output_directory: { key: 'outputDirectory', type: 'string' },
+  create_subdirectories: { key: 'createSubdirectories', type: 'boolean' },
+  preserve_structure: { key: 'preserveStructure', type: 'boolean' },
+  strict_decoding: { key: 'strictDecoding', type: 'boolean' },
+  include_metadata: { key: 'includeMetadata', type: 'boolean' },
+  include_media: { key: 'includeMedia', type: 'boolean' },
+  include_coordinates: { key: 'includeCoordinates', type: 'boolean' },
+  skip_empty_notes: { key: 'skipEmptyNotes', type: 'boolean' },
+  attachments_folder: { key: 'attachmentsFolder', type: 'string' },
+  report_file: { key: 'reportFile', type: 'string' }
+};
+
+const OBSIDIAN_FIELDS: Record<string, Field> = {
+  note_template: { key: 'noteTemplate', type: 'string' },
+  include_coordinates: { key: 'includeCoordinates', type: 'boolean' },
+  include_media_references: { key: 'includeMediaReferences', type: 'boolean' },
+  preserve_hierarchy: { key: 'preserveHierarchy', type: 'boolean' },
+  link_format: { key: 'linkFormat', type: 'string', required: '{note_id}' },
+  hashtag_format: { key: 'hashtagFormat', type: 'string', required: '{tag}' },
+  media_format: { key: 'mediaFormat', type: 'string' },
+  date_format: { key: 'dateFormat', type: 'string' },
+  metadata_section: { key: 'metadataSection', type: 'boolean' }
+};
+
+const CONTENT_SECTIONS = ['highlights', 'notes', 'tags', 'links', 'media', 'coordinates'];
+
+const LOG_LEVELS: Record<string, LogLevel> = {
+  DEBUG: 'debug',
+  INFO: 'info',
+  WARN: 'warning',
+  WARNING: 'warning',
+  ERROR: 'error',
+  CRITICAL: 'error'
+};
+
+// strftime directives and their template-engine date tokens
+const DATE_DIRECTIVES: Record<string, string> = {
+  Y: 'YYYY', y: 'YY', m: 'MM', d: 'DD', H: 'HH', I: 'hh', M: 'mm', S: 'ss',
+  p: 'A', B: 'MMMM', b: 'MMM', A: 'dddd', a: 'ddd', '%': '%'
+};
+
+/**
+ * Validate a parsed config file and map it onto ImportConfig; source names the file in errors
+ */
+export function parseImportConfig(raw: unknown, source: string = 'config'): ImportConfigFile {
+  const problems: string[] = [];
+  if (!isObject(raw)) {
+    throw new ImportConfigError(`${source}: expected a JSON object`);
+  }
+
+  const config = readSection(raw, '', problems, true);
+  const notebooks: NotebookConfig[] = [];
+  if (raw.notebooks !== undefined) {
+    if (!isObject(raw.notebooks)) {
+      problems.push('notebooks: expected an object keyed by notebook title or id');
+    } else {
+      for (const [notebook, section] of Object.entries(raw.notebooks)) {
+        if (!isObject(section)) {
+          problems.push(`notebooks.${notebook}: expected an object`);
+          continue;
+        }
+        notebooks.push({ notebook, config: readSection(section, `notebooks.${notebook}.`, problems, false) });
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ImportConfigError(`${source} has ${problems.length} problem${problems.length === 1 ? '' : 's'}`, problems);
+  }
+  return { config, notebooks };
+}
+
+/**
+ * Read and validate a config file (a vault path when an adapter is given, else a file path)
+ */
+export async function loadImportConfig(path: string, vaultAdapter?: any): Promise<ImportConfigFile> {
+  const io = new VaultIO(vaultAdapter);
+  if (!(await io.exists(path))) {
+    throw new ImportConfigError(`Config file not found: ${path}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await io.read(path));
+  } catch (error) {
+    throw new ImportConfigError(`${path} is not valid JSON: ${(error as Error).message}`);
+  }
+  return parseImportConfig(raw, path);
+}
+
+/**
+ * Whether parsed JSON looks like a config file rather than plugin settings
+ */
+export function isImportConfigFile(raw: unknown): boolean {
+  return isObject(raw) && Object.keys(raw).some(key =>
+    key in IMPORT_FIELDS || key === 'obsidian_config' || key === 'log_level' || key === 'notebooks');
+}
+
+/**
+ * Overlay settings on a config; the Obsidian settings and content sections merge key by key
+ */
+export function mergeImportConfig(base: ImportConfig, overrides: Partial<ImportConfig>): ImportConfig {
+  const baseObsidian = base.obsidianConfig || {};
+  const overrideObsidian = overrides.obsidianConfig || {};
+  const contentSections = baseObsidian.contentSections || overrideObsidian.contentSections
+    ? { ...baseObsidian.contentSections, ...overrideObsidian.contentSections } as ObsidianConfig['contentSections']
+    : undefined;
+
+  return {
+    ...base,
+    ...overrides,
+    obsidianConfig: {
+      ...baseObsidian,
+      ...overrideObsidian,
+      ...(contentSections ? { contentSections } : {})
+    }
+  };
+}
+
+/**
+ * Split the notes by the override that applies to their notebook. Topics, media
+ * and books stay whole in every part; notes of different parts are grouped apart.
+ */
+export function splitByNotebookConfig(databaseData: DatabaseData, configFile: ImportConfigFile): NotebookImport[] {
+  const overrideByTopic = new Map<string, NotebookConfig>();
+  for (const topic of databaseData.topics || []) {
+    if (!topic.ZTOPICID) continue;
+    const title = String(topic.ZTITLE || '').trim().toLowerCase();
+    const override = configFile.notebooks.find(candidate => candidate.notebook === String(topic.ZTOPICID)) ||
+      configFile.notebooks.find(candidate => candidate.notebook.trim().toLowerCase() === title);
+    if (override) {
+      overrideByTopic.set(String(topic.ZTOPICID), override);
+    }
+  }
+
+  const parts = new Map<NotebookConfig | undefined, NotebookImport>();
+  for (const row of databaseData.booknotes) {
+    const override = row.ZTOPICID ? overrideByTopic.get(String(row.ZTOPICID)) : undefined;
+    if (!parts.has(override)) {
+      parts.set(override, {
+        notebooks: [],
+        config: override ? override.config : {},
+        databaseData: { ...databaseData, booknotes: [] }
+      });
+    }
+    const part = parts.get(override)!;
+    part.databaseData.booknotes.push(row);
+    if (override && !part.notebooks.includes(String(row.ZTOPICID))) {
+      part.notebooks.push(String(row.ZTOPICID));
+    }
+  }
+
+  for (const notebook of configFile.notebooks) {
+    if (!Array.from(overrideByTopic.values()).includes(notebook)) {
+      console.warn(`Config override for notebook "${notebook.notebook}" matches no imported notebook`);
+    }
+  }
+
+  return Array.from(parts.values());
+}
+
+/**
+ * One level of settings: the top level (with log_level) or a notebook override
+ */
+function readSection(section: Record<string, any>, prefix: string, problems: string[], topLevel: boolean): Partial<ImportConfig> {
+  const config: Partial<ImportConfig> = {};
+
+  for (const [name, value] of Object.entries(section)) {
+    const field = IMPORT_FIELDS[name];
+    if (field) {
+      const parsed = readField(field, value, `${prefix}${name}`, problems);
+      if (parsed !== undefined) (config as any)[field.key] = parsed;
+    } else if (name === 'obsidian_config') {
+      const obsidianConfig = readObsidianConfig(value, `${prefix}${name}`, problems);
+      if (obsidianConfig) config.obsidianConfig = obsidianConfig;
+    } else if (name === 'log_level' && topLevel) {
+      const level = typeof value === 'string' ? LOG_LEVELS[value.trim().toUpperCase()] : undefined;
+      if (level) {
+        config.logLevel = level;
+      } else {
+        problems.push(`${prefix}${name}: expected one of ${Object.keys(LOG_LEVELS).join(', ')}, got ${JSON.stringify(value)}`);
+      }
+    } else if (!(name === 'notebooks' && topLevel)) {
+      problems.push(`${prefix}${name}: unknown setting${suggest(name, [...Object.keys(IMPORT_FIELDS), 'obsidian_config', ...(topLevel ? ['log_level', 'notebooks'] : [])])}`);
+    }
+  }
+
+  return config;
+}
+
+function readObsidianConfig(value: unknown, prefix: string, problems: string[]): Partial<ObsidianConfig> | undefined {
+  if (!isObject(value)) {
+    problems.push(`${prefix}: expected an object`);
+    return undefined;
+  }
+
+  const config: Partial<ObsidianConfig> = {};
+  for (const [name, item] of Object.entries(value)) {
+    const field = OBSIDIAN_FIELDS[name];
+    if (field) {
+      const parsed = readField(field, item, `${prefix}.${name}`, problems);
+      if (parsed !== undefined) (config as any)[field.key] = parsed;
+    } else if (name === 'content_sections') {
+      const sections = readContentSections(item, `${prefix}.${name}`, problems);
+      if (sections) config.contentSections = sections;
+    } else {
+      problems.push(`${prefix}.${name}: unknown setting${suggest(name, [...Object.keys(OBSIDIAN_FIELDS), 'content_sections'])}`);
+    }
+  }
+
+  if (typeof config.noteTemplate === 'string') {
+    try {
+      compileNoteTemplate(config.noteTemplate);
+    } catch (error) {
+      problems.push(`${prefix}.note_template: ${(error as Error).message}`);
+    }
+  }
+  if (typeof config.dateFormat === 'string') {
+    const dateFormat = convertDateFormat(config.dateFormat);
+    if (dateFormat.unknown.length > 0) {
+      problems.push(`${prefix}.date_format: unsupported directive${dateFormat.unknown.length === 1 ? '' : 's'} ${dateFormat.unknown.join(', ')}`);
+    }
+    config.dateFormat = dateFormat.format;
+  }
+
+  return config;
+}
+
+function readContentSections(value: unknown, prefix: string, problems: string[]): ObsidianConfig['contentSections'] | undefined {
+  if (!isObject(value)) {
+    problems.push(`${prefix}: expected an object`);
+    return undefined;
+  }
+
+  // Sections the file leaves out stay on, as in the defaults
+  const sections = Object.fromEntries(CONTENT_SECTIONS.map(section => [section, true])) as ObsidianConfig['contentSections'];
+  for (const [name, item] of Object.entries(value)) {
+    if (!CONTENT_SECTIONS.includes(name)) {
+      problems.push(`${prefix}.${name}: unknown section${suggest(name, CONTENT_SECTIONS)}`);
+    } else if (typeof item !== 'boolean') {
+      problems.push(`${prefix}.${name}: expected true or false, got ${JSON.stringify(item)}`);
+    } else {
+      (sections as any)[name] = item;
+    }
+  }
+  return sections;
+}
+
+function readField(field: Field, value: unknown, path: string, problems: string[]): string | boolean | undefined {
+  if (field.type === 'boolean') {
+    if (typeof value === 'boolean') return value;
+    problems.push(`${path}: expected true or false, got ${JSON.stringify(value)}`);
+    return undefined;
+  }
+
+  if (typeof value !== 'string') {
+    problems.push(`${path}: expected a string, got ${JSON.stringify(value)}`);
+    return undefined;
+  }
+  if (field.required && !value.includes(field.required)) {
+    problems.push(`${path}: must contain ${field.required}`);
+    return undefined;
+  }
+  // Paths are relative to the vault (or working folder); ./ adds nothing
+  return field.key === 'outputDirectory' ? value.replace(/^\.\/+/, '').replace(/\/+$/, '') || '.' : value;
+}
+
+/**
+ * Python strftime format (%Y-%m-%d) as template-engine tokens (YYYY-MM-DD);
+ * formats without directives are taken to be in token form already
+ */
+function convertDateFormat(format: string): { format: string; unknown: string[] } {
+  const unknown: string[] = [];
+  const converted = format.replace(/%(.)/g, (directive, letter: string) => {
+    if (letter in DATE_DIRECTIVES) return DATE_DIRECTIVES[letter];
+    unknown.push(directive);
+    return directive;
+  });
+  return { format: converted, unknown };
+}
+
+function suggest(name: string, known: string[]): string {
+  const lower = name.toLowerCase().replace(/[-\s]/g, '_');
+  const match = known.find(candidate => candidate.replace(/_/g, '') === lower.replace(/_/g, '')) ||
+    known.find(candidate => candidate.startsWith(lower) || lower.startsWith(candidate));
+  return match ? ` (did you mean ${match}?)` : '';
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
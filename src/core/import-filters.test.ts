@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ImportFilterError,
+  applyImportFilters,
+  matchesFilter,
+  parseFilterPresets,
+  parseFilterQuery
+} from './import-filters';
+import { DatabaseData } from './margin-note-importer';
+
+const CORE_DATA_EPOCH = 978307200; // 2001-01-01 in seconds
+
+// Core Data seconds for a local date, as MarginNote stores ZHIGHLIGHT_DATE and ZNOTE_DATE
+const coreDate = (year: number, month: number, day: number, hour = 12) =>
+  new Date(year, month - 1, day, hour).getTime() / 1000 - CORE_DATA_EPOCH;
+
+describe('parseFilterQuery', () => {
+  it('reads one criterion per line or separated by ;', () => {
+    const filter = parseFilterQuery('created: 2025-02-01..2025-06-30\npage: 10..40; type: Highlight, flashcard');
+    expect(filter.createdFrom).toEqual(new Date(2025, 1, 1));
+    expect(filter.createdTo).toEqual(new Date(2025, 5, 30, 23, 59, 59, 999));
+    expect([filter.pageFrom, filter.pageTo]).toEqual([10, 40]);
+    expect(filter.types).toEqual(['highlight', 'flashcard']);
+  });
+
+  it('reads open-ended ranges and single values', () => {
+    const filter = parseFilterQuery('modified: ..2025-03-01\npage: 7');
+    expect(filter.modifiedFrom).toBeUndefined();
+    expect(filter.modifiedTo).toEqual(new Date(2025, 2, 1, 23, 59, 59, 999));
+    expect([filter.pageFrom, filter.pageTo]).toEqual([7, 7]);
+  });
+
+  it('looks colours up in the colour table, then the palette', () => {
+    const table = [{ index: 3, name: 'Important', tag: '', callout: '', highlight: false }];
+    expect(parseFilterQuery('colour: important, dark red, 0', table).colors).toEqual([3, 11, 0]);
+  });
+
+  it('strips # from tags', () => {
+    expect(parseFilterQuery('tags: #Exam, ＃review').hashtags).toEqual(['exam', 'review']);
+  });
+
+  it('rejects malformed criteria', () => {
+    expect(() => parseFilterQuery('created')).toThrow(ImportFilterError);
+    expect(() => parseFilterQuery('size: 3')).toThrow('Unknown filter "size"');
+    expect(() => parseFilterQuery('page:')).toThrow('Missing value for "page"');
+    expect(() => parseFilterQuery('created: 2025/02/01')).toThrow('expected YYYY-MM-DD');
+    expect(() => parseFilterQuery('colour: mauve')).toThrow('Unknown colour "mauve"');
+  });
+
+  it('names the preset a query error comes from', () => {
+    expect(() => parseFilterPresets([{ name: 'Broken', query: 'page: x', enabled: true }]))
+      .toThrow('Import filter "Broken": Invalid page "x"');
+  });
+});
+
+describe('matchesFilter', () => {
+  const row = {
+    ZNOTEID: 'A',
+    ZTOPICID: 'TOPIC-1',
+    ZTYPE: 256,
+    ZHIGHLIGHT_DATE: coreDate(2025, 3, 15),
+    ZNOTE_DATE: coreDate(2025, 4, 2),
+    ZSTARTPAGE: 12,
+    ZHIGHLIGHT_STYLE: 'mbooks-annotation17', // Red
+    ZNOTES_TEXT: 'Check this #Exam'
+  };
+  const topicTitles = new Map([['TOPIC-1', 'Doc1 #1']]);
+  const matches = (query: string) => matchesFilter(row, parseFilterQuery(query), topicTitles);
+
+  it('matches dates by local day, inclusive', () => {
+    expect(matches('created: 2025-03-15')).toBe(true);
+    expect(matches('created: 2025-03-16..')).toBe(false);
+    expect(matches('modified: 2025-04-01..2025-04-02')).toBe(true);
+  });
+
+  it('matches pages, colours, types, tags and notebooks', () => {
+    expect(matches('page: 10..12')).toBe(true);
+    expect(matches('page: 13..')).toBe(false);
+    expect(matches('colour: blue, red')).toBe(true);
+    expect(matches('colour: blue')).toBe(false);
+    expect(matches('type: highlight')).toBe(true);
+    expect(matches('type: mindmap')).toBe(false);
+    expect(matches('tag: exam')).toBe(true);
+    expect(matches('tag: other')).toBe(false);
+    expect(matches('notebook: doc1 #1')).toBe(true);
+    expect(matches('notebook: topic-1')).toBe(true);
+    expect(matches('notebook: Doc2 #1')).toBe(false);
+  });
+
+  it('requires every criterion to match', () => {
+    expect(matches('page: 12; colour: red; tag: exam')).toBe(true);
+    expect(matches('page: 12; colour: green')).toBe(false);
+  });
+
+  it('leaves out rows without the filtered value', () => {
+    expect(matchesFilter({ ZNOTEID: 'B' }, parseFilterQuery('page: 1..'))).toBe(false);
+    expect(matchesFilter({ ZNOTEID: 'B' }, parseFilterQuery('created: 2025-01-01..'))).toBe(false);
+  });
+});
+
+describe('applyImportFilters', () => {
+  it('keeps the rows matching every filter and the other tables whole', () => {
+    const data = {
+      booknotes: [
+        { ZNOTEID: 'A', ZSTARTPAGE: 1, ZHIGHLIGHT_STYLE: 'mbooks-annotation17' },
+        { ZNOTEID: 'B', ZSTARTPAGE: 5, ZHIGHLIGHT_STYLE: 'mbooks-annotation17' },
+        { ZNOTEID: 'C', ZSTARTPAGE: 5, ZHIGHLIGHT_STYLE: 'mbooks-annotation16' }
+      ],
+      topics: [{ ZTOPICID: 'T' }],
+      media: [{ ZMD5: 'M' }]
+    } as unknown as DatabaseData;
+
+    const filtered = applyImportFilters(data, [parseFilterQuery('page: 2..'), parseFilterQuery('colour: red')]);
+    expect(filtered.booknotes.map(row => row.ZNOTEID)).toEqual(['B']);
+    expect(filtered.topics).toBe(data.topics);
+    expect(filtered.media).toBe(data.media);
+    expect(applyImportFilters(data, [])).toBe(data);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Import Filters
+ * Narrow the parsed ZBOOKNOTE rows down before they reach a converter. A filter
+ * is written as a query, one criterion per line or separated by ";":
+ *
+ *   created: 2025-02-01..2025-06-30
+ *   modified: 2025-03-01..
+ *   page: 10..40
+ *   colour: red, 7
+ *   type: highlight, flashcard
+ *   tag: exam
+ *   notebook: Doc1 #1
+ *
+ * Criteria combine with AND, values inside one criterion with OR, and several
+ * filters (presets) applied together must all match.
+ */
+
+import { DatabaseData } from './margin-note-importer';
+import { parseNoteType } from '../models/MbBookNote';
+import { ColorRule, MARGINNOTE_COLORS, parseHighlightStyle } from '../utils/highlight-colors';
+import { TextProcessor } from '../utils/text-utils';
+
+export interface ImportFilter {
+  createdFrom?: Date;
+  createdTo?: Date;
+  modifiedFrom?: Date;
+  modifiedTo?: Date;
+  pageFrom?: number;
+  pageTo?: number;
+  colors?: number[];    // Colour indices
+  types?: string[];     // Type names from ZTYPE (highlight, flashcard, mindmap, ...)
+  hashtags?: string[];  // Without the leading #, compared case-insensitively
+  notebooks?: string[]; // ZTOPICID or notebook title, compared case-insensitively
+}
+
+export interface FilterPreset {
+  name: string;
+  query: string;
+  enabled: boolean; // Applied to every import
+}
+
+/**
+ * Error thrown for a filter query that does not parse
+ */
+export class ImportFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFilterError';
+  }
+}
+
+const CORE_DATA_EPOCH = 978307200000; // 2001-01-01 in ms
+const CRITERION_KEYS: Record<string, keyof typeof CRITERIA> = {
+  created: 'created', modified: 'modified',
+  page: 'page', pages: 'page',
+  color: 'color', colour: 'color', colors: 'color', colours: 'color',
+  type: 'type', types: 'type',
+  tag: 'tag', tags: 'tag', hashtag: 'tag', hashtags: 'tag',
+  notebook: 'notebook', notebooks: 'notebook'
+};
+
+const CRITERIA = {
+  created: (filter: ImportFilter, value: string) => {
+    [filter.createdFrom, filter.createdTo] = parseDateRange(value);
+  },
+  modified: (filter: ImportFilter, value: string) => {
+    [filter.modifiedFrom, filter.modifiedTo] = parseDateRange(value);
+  },
+  page: (filter: ImportFilter, value: string) => {
+    [filter.pageFrom, filter.pageTo] = parsePageRange(value);
+  },
+  color: (filter: ImportFilter, value: string, colorTable: ColorRule[]) => {
+    filter.colors = splitList(value).map(name => parseColor(name, colorTable));
+  },
+  type: (filter: ImportFilter, value: string) => {
+    filter.types = splitList(value).map(type => type.toLowerCase());
+  },
+  tag: (filter: ImportFilter, value: string) => {
+    filter.hashtags = splitList(value).map(tag => tag.replace(/^[#＃]/, '').toLowerCase());
+  },
+  notebook: (filter: ImportFilter, value: string) => {
+    filter.notebooks = splitList(value).map(notebook => notebook.toLowerCase());
+  }
+};
+
+/**
+ * Parse a filter query; colour names are looked up in the colour table, then the palette
+ */
+export function parseFilterQuery(query: string, colorTable: ColorRule[] = []): ImportFilter {
+  const filter: ImportFilter = {};
+
+  for (const part of (query || '').split(/[;\n]/)) {
+    const criterion = part.trim();
+    if (!criterion) continue;
+
+    const match = criterion.match(/^([A-Za-z]+)\s*:\s*(.*)$/);
+    if (!match) {
+      throw new ImportFilterError(`Invalid filter "${criterion}", expected "name: value"`);
+    }
+    const key = CRITERION_KEYS[match[1].toLowerCase()];
+    if (!key) {
+      throw new ImportFilterError(`Unknown filter "${match[1]}"`);
+    }
+    if (!match[2].trim()) {
+      throw new ImportFilterError(`Missing value for "${match[1]}"`);
+    }
+    CRITERIA[key](filter, match[2].trim(), colorTable);
+  }
+
+  return filter;
+}
+
+/**
+ * Parse the queries of several presets; errors name the preset they come from
+ */
+export function parseFilterPresets(presets: FilterPreset[], colorTable: ColorRule[] = []): ImportFilter[] {
+  return presets.map(preset => {
+    try {
+      return parseFilterQuery(preset.query, colorTable);
+    } catch (error) {
+      throw new ImportFilterError(`Import filter "${preset.name}": ${(error as Error).message}`);
+    }
+  });
+}
+
+/**
+ * Keep the rows matching every filter; topics, media and books stay whole
+ */
+export function applyImportFilters(databaseData: DatabaseData, filters: ImportFilter[]): DatabaseData {
+  if (filters.length === 0) return databaseData;
+
+  const topicTitles = new Map<string, string>();
+  for (const topic of databaseData.topics || []) {
+    if (topic.ZTOPICID) topicTitles.set(String(topic.ZTOPICID), String(topic.ZTITLE || ''));
+  }
+
+  return {
+    ...databaseData,
+    booknotes: databaseData.booknotes.filter(row => filters.every(filter => matchesFilter(row, filter, topicTitles)))
+  };
+}
+
+/**
+ * Whether a ZBOOKNOTE row passes the filter
+ */
+export function matchesFilter(row: any, filter: ImportFilter, topicTitles: Map<string, string> = new Map()): boolean {
+  if (!inDateRange(row.ZHIGHLIGHT_DATE, filter.createdFrom, filter.createdTo)) return false;
+  if (!inDateRange(row.ZNOTE_DATE, filter.modifiedFrom, filter.modifiedTo)) return false;
+
+  if (filter.pageFrom !== undefined || filter.pageTo !== undefined) {
+    const page = Number(row.ZSTARTPAGE);
+    if (!page) return false;
+    if (filter.pageFrom !== undefined && page < filter.pageFrom) return false;
+    if (filter.pageTo !== undefined && page > filter.pageTo) return false;
+  }
+
+  if (filter.colors) {
+    const style = parseHighlightStyle(row.ZHIGHLIGHT_STYLE);
+    if (!style || !filter.colors.includes(style.colorIndex)) return false;
+  }
+
+  if (filter.types && !filter.types.includes(parseNoteType(row.ZTYPE))) return false;
+
+  if (filter.hashtags) {
+    const tags = getRowHashtags(row);
+    if (!filter.hashtags.some(tag => tags.includes(tag))) return false;
+  }
+
+  if (filter.notebooks) {
+    const topicId = String(row.ZTOPICID || '');
+    const title = (topicTitles.get(topicId) || '').toLowerCase();
+    if (!filter.notebooks.some(notebook => notebook === topicId.toLowerCase() || (title && notebook === title))) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Hashtags of a row, lower case and without #: the decoded ZNOTES hashtags plus
+ * any written in the note text
+ */
+export function getRowHashtags(row: any): string[] {
+  const tags = String(row.ZNOTES_HASHTAGS || '').split(/[,\s]+/);
+  tags.push(...TextProcessor.extractHashtags(row.ZNOTES_TEXT || ''));
+  tags.push(...TextProcessor.extractHashtags(row.ZNOTES_FORMATTED_TEXT || ''));
+  return Array.from(new Set(tags.map(tag => tag.replace(/^[#＃]/, '').trim().toLowerCase()).filter(Boolean)));
+}
+
+function inDateRange(timestamp: any, from?: Date, to?: Date): boolean {
+  if (!from && !to) return true;
+  const seconds = parseFloat(timestamp);
+  if (isNaN(seconds)) return false;
+
+  const time = seconds * 1000 + CORE_DATA_EPOCH;
+  return (!from || time >= from.getTime()) && (!to || time <= to.getTime());
+}
+
+/**
+ * "2025-02-01..2025-06-30", open-ended "2025-02-01.." / "..2025-06-30", or one day
+ */
+function parseDateRange(value: string): [Date | undefined, Date | undefined] {
+  const [from, to] = value.includes('..') ? value.split('..').map(part => part.trim()) : [value, value];
+  return [from ? parseDay(from, false) : undefined, to ? parseDay(to, true) : undefined];
+}
+
+function parseDay(value: string, endOfDay: boolean): Date {
+  const match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (!match) {
+    throw new ImportFilterError(`Invalid date "${value}", expected YYYY-MM-DD`);
+  }
+  const [year, month, day] = [match[1], match[2], match[3]].map(Number);
+  return endOfDay ? new Date(year, month - 1, day, 23, 59, 59, 999) : new Date(year, month - 1, day);
+}
+
+function parsePageRange(value: string): [number | undefined, number | undefined] {
+  const [from, to] = value.includes('..') ? value.split('..').map(part => part.trim()) : [value, value];
+  const parsePage = (page: string) => {
+    if (!page) return undefined;
+    if (!/^\d+$/.test(page)) throw new ImportFilterError(`Invalid page "${page}"`);
+    return parseInt(page, 10);
+  };
+  return [parsePage(from), parsePage(to)];
+}
+
+function parseColor(name: string, colorTable: ColorRule[]): number {
+  if (/^\d+$/.test(name) && Number(name) < MARGINNOTE_COLORS.length) {
+    return Number(name);
+  }
+
+  const lower = name.toLowerCase();
+  const rule = colorTable.find(candidate => candidate.name.toLowerCase() === lower);
+  if (rule) return rule.index;
+
+  const index = MARGINNOTE_COLORS.findIndex(color => color.name.toLowerCase() === lower);
+  if (index === -1) {
+    throw new ImportFilterError(`Unknown colour "${name}"`);
+  }
+  return index;
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
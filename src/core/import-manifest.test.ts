@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ImportManifest } from './import-manifest';
+import { SimpleZBookNoteConverter } from './simple-zbooknote-converter';
+import { VaultIO } from '../utils/vault-io';
+import { MemoryVault } from '../testing/memory-vault';
+
+const row = (noteId: string, noteDate: number) => ({
+  ZNOTEID: noteId,
+  ZNOTE_DATE: noteDate,
+  ZHIGHLIGHT_DATE: noteDate,
+  ZNOTETITLE: `Note ${noteId}`,
+  ZHIGHLIGHT_TEXT: `Excerpt of ${noteId}`
+});
+
+describe('ImportManifest', () => {
+  let vault: MemoryVault;
+
+  beforeEach(() => {
+    vault = new MemoryVault();
+  });
+
+  it('starts empty when the folder has no manifest', async () => {
+    const manifest = await ImportManifest.load(new VaultIO(vault), 'out');
+    expect(manifest.getPreviousEntry('A')).toBeUndefined();
+    expect(await manifest.isUnchanged('A', 1, 'out/A.md')).toBe(false);
+  });
+
+  it('reports a note unchanged only when path, date and file all match', async () => {
+    const first = await ImportManifest.load(new VaultIO(vault), 'out');
+    first.record('A', 'out/A.md', 10);
+    await first.save();
+    vault.files.set('out/A.md', 'note');
+
+    const second = await ImportManifest.load(new VaultIO(vault), 'out');
+    expect(await second.isUnchanged('A', 10, 'out/A.md')).toBe(true);
+    expect(await second.isUnchanged('A', 11, 'out/A.md')).toBe(false);
+    expect(await second.isUnchanged('A', 10, 'out/B.md')).toBe(false);
+
+    vault.files.delete('out/A.md');
+    expect(await second.isUnchanged('A', 10, 'out/A.md')).toBe(false);
+  });
+
+  it('lists the notes of the previous import that were not recorded again', async () => {
+    const first = await ImportManifest.load(new VaultIO(vault), 'out');
+    first.record('A', 'out/A.md', 1);
+    first.record('B', 'out/B.md', 1);
+    first.record('C', 'out/C.md', 1);
+    await first.save();
+
+    const second = await ImportManifest.load(new VaultIO(vault), 'out');
+    second.record('A', 'out/A.md', 2);
+    second.keepPrevious('B');
+    expect(second.getDeletedNoteIds()).toEqual(['C']);
+  });
+
+  it('ignores a manifest of another version', async () => {
+    vault.files.set(`out/${ImportManifest.FILENAME}`, JSON.stringify({ version: 99, notes: { A: {} } }));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const manifest = await ImportManifest.load(new VaultIO(vault), 'out');
+    expect(manifest.getPreviousEntry('A')).toBeUndefined();
+  });
+});
+
+describe('sync mode', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  const sync = (vault: MemoryVault, rows: any[], skippedNoteIds?: string[]) =>
+    new SimpleZBookNoteConverter({ outputDirectory: 'out', vaultAdapter: vault, syncMode: true, includeMedia: false, skippedNoteIds })
+      .convertFromData({ booknotes: rows, topics: [], media: [] });
+
+  it('skips unchanged notes and rewrites changed ones', async () => {
+    const vault = new MemoryVault();
+    await sync(vault, [row('A', 1), row('B', 1)]);
+
+    const result = await sync(vault, [row('A', 1), row('B', 2)]);
+    expect(result.notesUnchanged).toBe(1);
+    expect(result.notesUpdated).toBe(1);
+    expect(result.notesCreated).toBe(0);
+  });
+
+  it('retries a note whose write failed on the next sync', async () => {
+    const vault = new MemoryVault();
+    await sync(vault, [row('A', 1), row('B', 1)]);
+
+    vault.failingWrites.add('out/B.md');
+    const failed = await sync(vault, [row('A', 1), row('B', 2)]);
+    expect(failed.errors).toHaveLength(1);
+    expect(failed.deletedNoteIds).toEqual([]);
+
+    vault.failingWrites.clear();
+    const retried = await sync(vault, [row('A', 1), row('B', 2)]);
+    expect(retried.notesUpdated).toBe(1);
+    expect(retried.notesUnchanged).toBe(1);
+  });
+
+  it('keeps the notes a partial import leaves out', async () => {
+    const vault = new MemoryVault();
+    await sync(vault, [row('A', 1), row('B', 1)]);
+
+    const partial = await sync(vault, [row('A', 2)], ['B']);
+    expect(partial.deletedNoteIds).toEqual([]);
+
+    const full = await sync(vault, [row('A', 2), row('B', 1)]);
+    expect(full.notesUnchanged).toBe(2);
+    expect(full.notesCreated).toBe(0);
+  });
+});
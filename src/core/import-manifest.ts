@@ -0,0 +1,115 @@
+/**
+ * Import Manifest
+ * Records the state of the last import in the output folder so that a
+ * re-import of the same notebook only touches notes that actually changed
+ */
+
+import { VaultIO } from '../utils/vault-io';
+
+export interface ManifestEntry {
+  noteId: string;
+  path: string;
+  modifiedDate: number | null;
+}
+
+export interface ImportManifestData {
+  version: number;
+  lastImport: string | null;
+  notes: Record<string, ManifestEntry>;
+}
+
+export class ImportManifest {
+  static readonly FILENAME = '.marginnote-manifest.json';
+  static readonly VERSION = 1;
+
+  private io: VaultIO;
+  private manifestPath: string;
+  private previous: Record<string, ManifestEntry>;
+  private current: Record<string, ManifestEntry> = {};
+
+  private constructor(io: VaultIO, manifestPath: string, data: ImportManifestData) {
+    this.io = io;
+    this.manifestPath = manifestPath;
+    this.previous = data.notes || {};
+  }
+
+  /**
+   * Load the manifest from the output folder, or start an empty one
+   */
+  static async load(io: VaultIO, outputDir: string): Promise<ImportManifest> {
+    const manifestPath = `${outputDir}/${ImportManifest.FILENAME}`;
+    let data: ImportManifestData = { version: ImportManifest.VERSION, lastImport: null, notes: {} };
+
+    try {
+      if (await io.exists(manifestPath)) {
+        const parsed = JSON.parse(await io.read(manifestPath));
+        if (parsed && parsed.version === ImportManifest.VERSION && parsed.notes) {
+          data = parsed;
+        } else {
+          console.warn(`Ignoring import manifest with unsupported version: ${manifestPath}`);
+        }
+      }
+    } catch (error) {
+      console.warn(`Failed to read import manifest ${manifestPath}:`, error);
+    }
+
+    return new ImportManifest(io, manifestPath, data);
+  }
+
+  /**
+   * Get the entry recorded by the previous import
+   */
+  getPreviousEntry(noteId: string): ManifestEntry | undefined {
+    return this.previous[noteId];
+  }
+
+  /**
+   * Check whether a note is unchanged since the previous import.
+   * A note whose file was removed from the vault counts as changed.
+   */
+  async isUnchanged(noteId: string, modifiedDate: number | null, path: string): Promise<boolean> {
+    const entry = this.previous[noteId];
+    if (!entry) return false;
+    if (entry.path !== path || entry.modifiedDate !== modifiedDate) return false;
+
+    return await this.io.exists(path);
+  }
+
+  /**
+   * Record a note as part of the current import
+   */
+  record(noteId: string, path: string, modifiedDate: number | null): void {
+    this.current[noteId] = { noteId, path, modifiedDate };
+  }
+
+  /**
+   * Carry the previous import's entry over for a note that failed to write or
+   * was left out of the import, so it is neither reported as deleted nor taken
+   * as current on the next sync
+   */
+  keepPrevious(noteId: string): void {
+    if (this.previous[noteId]) {
+      this.current[noteId] = this.previous[noteId];
+    }
+  }
+
+  /**
+   * Note IDs from the previous import that are missing from the current one
+   */
+  getDeletedNoteIds(): string[] {
+    return Object.keys(this.previous).filter(noteId => !(noteId in this.current));
+  }
+
+  /**
+   * Write the current import state back to the output folder
+   */
+  async save(): Promise<void> {
+    const data: ImportManifestData = {
+      version: ImportManifest.VERSION,
+      lastImport: new Date().toISOString(),
+      notes: this.current
+    };
+
+    await this.io.write(this.manifestPath, JSON.stringify(data, null, 2));
+  }
+}
@@ -0,0 +1,34 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { runImportPipeline } from './import-pipeline';
+import { DatabaseData } from './margin-note-importer';
+import { mergeSettings } from '../settings';
+import { MemoryVault } from '../testing/memory-vault';
+import { loadSamplePackage } from '../testing/sample-package';
+
+describe('runImportPipeline on the sample notebook', () => {
+  let databaseData: DatabaseData;
+
+  beforeAll(async () => {
+    databaseData = await loadSamplePackage();
+  });
+
+  it('resolves MarginNote links in flashcard decks', async () => {
+    const vault = new MemoryVault();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const result = await runImportPipeline(databaseData, {
+      settings: mergeSettings({ defaultOutputFolder: 'MarginNote', flashcardFormat: 'single-line' }),
+      vaultAdapter: vault,
+      packageName: 'Testing3'
+    });
+    vi.restoreAllMocks();
+
+    const deck = vault.files.get('MarginNote/Flashcards/RC1.md') as string;
+    expect(result.outputFiles).toContain('MarginNote/Flashcards/RC1.md');
+    expect(deck).not.toContain('marginnote4app://');
+
+    // "This card is in studyset2" links to "This links back to doc2"
+    const target = result.noteFiles!['E5F67D44-ED16-4660-A24D-AB0CE7E94AB9'].replace(/\.md$/, '');
+    expect(deck).toContain(`This card is in studyset2::[[${target}`);
+  });
+});
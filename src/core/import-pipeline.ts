@@ -0,0 +1,146 @@
+/**
+ * Import Pipeline
+ * Everything an import does once the notes are parsed, filtered and selected:
+ * the conversion in the configured output style, then the passes that build on
+ * the written notes (canvases, outlines, notebook overviews, review schedules,
+ * flashcard decks, link resolution, backlinks and the Anki package). Shared by
+ * the Obsidian plugin and the command-line importer, so both write the same notes.
+ */
+
+import { DatabaseData } from './margin-note-importer';
+import { ConversionResult, ConverterRegistry, createDefaultConverterRegistry } from './converter-registry';
+import { CanvasExporter } from './canvas-exporter';
+import { OutlineExporter } from './outline-exporter';
+import { NotebookOverviewExporter } from './notebook-overview';
+import { LinkResolver, UnresolvedLink } from './link-resolver';
+import { BacklinkWriter } from './backlink-writer';
+import { FlashcardExporter } from './flashcard-exporter';
+import { ReviewScheduleWriter, loadReviewSchedules } from './review-schedule';
+import { AnkiExporter, AnkiExportResult } from './anki-exporter';
+import { DocumentRegistry } from './document-registry';
+import { PropertyRule } from './property-schema';
+import { ImportConfigFile } from './import-config';
+import { MarginNoteSettings } from '../settings';
+
+export interface ImportPipelineOptions {
+  settings: MarginNoteSettings;
+  vaultAdapter?: any; // Obsidian vault adapter; files are written with Node's fs when unset
+  documents?: DocumentRegistry; // Read from the package when unset
+  noteTemplate?: string;
+  propertySchema?: PropertyRule[];
+  importConfig?: ImportConfigFile; // Config file for the grouped import
+  packageName: string; // Name of the imported source, for the Anki package
+  skippedNoteIds?: string[]; // Notes of the source left out by the preview or the filters
+  converterRegistry?: ConverterRegistry;
+}
+
+export interface ImportPipelineResult extends ConversionResult {
+  unresolvedLinks: UnresolvedLink[]; // MarginNote links to notes that were not imported
+  anki?: AnkiExportResult;
+}
+
+/**
+ * Convert the notes and run the follow-up passes the settings ask for
+ */
+export async function runImportPipeline(databaseData: DatabaseData, options: ImportPipelineOptions): Promise<ImportPipelineResult> {
+  const { settings, vaultAdapter } = options;
+  const documents = options.documents || DocumentRegistry.fromDatabase(databaseData, []);
+  const registry = options.converterRegistry || createDefaultConverterRegistry();
+
+  // Setup the converter for the selected output style
+  const converter = registry.create(settings.converterStrategy, {
+    outputDirectory: settings.defaultOutputFolder,
+    vaultAdapter,
+    createSubdirectories: settings.createSubdirectories,
+    includeMetadata: settings.includeMetadata,
+    includeCoordinates: settings.includeCoordinates,
+    skipEmptyNotes: settings.skipEmptyNotes,
+    strictDecoding: settings.strictDecoding,
+    includeMedia: settings.includeMedia,
+    attachmentsFolder: settings.attachmentsFolder,
+    hierarchyMode: settings.noteHierarchy,
+    notebookFolders: settings.notebookFolders,
+    syncMode: settings.syncMode,
+    skippedNoteIds: options.skippedNoteIds,
+    preserveUserContent: settings.preserveUserContent,
+    colorTable: settings.colorTable,
+    documents,
+    noteTemplate: options.noteTemplate,
+    propertySchema: options.propertySchema,
+    importConfig: options.importConfig
+  });
+  const result: ImportPipelineResult = { ...(await converter.convertFromData(databaseData)), unresolvedLinks: [] };
+  if (!result.success) return result;
+
+  const noteFiles = result.noteFiles;
+  const outputFolder = result.outputFolder || settings.defaultOutputFolder;
+
+  // Lay the imported notes out as one canvas per mind map
+  if (settings.exportCanvas && noteFiles) {
+    const canvasExporter = new CanvasExporter({ outputDirectory: outputFolder, vaultAdapter });
+    result.outputFiles.push(...await canvasExporter.exportCanvases(databaseData, noteFiles));
+  }
+
+  // Mirror each mind map as an outline of indented links
+  if (settings.noteHierarchy === 'outline' && noteFiles) {
+    const outlineExporter = new OutlineExporter({ outputDirectory: outputFolder, vaultAdapter });
+    result.outputFiles.push(...await outlineExporter.exportOutlines(databaseData, noteFiles));
+  }
+
+  // Landing page per notebook: metadata, documents, counts, activity and links to every card
+  if (settings.notebookOverview && noteFiles) {
+    const overviewExporter = new NotebookOverviewExporter({
+      outputDirectory: outputFolder,
+      vaultAdapter,
+      preserveUserContent: settings.preserveUserContent,
+      colorTable: settings.colorTable,
+      documents
+    });
+    result.outputFiles.push(...await overviewExporter.exportOverviews(databaseData, noteFiles));
+  }
+
+  // MarginNote review state, carried into spaced-repetition fields
+  const schedules = settings.includeReviewSchedule ? loadReviewSchedules(databaseData) : new Map();
+  if (schedules.size > 0 && noteFiles) {
+    const scheduleWriter = new ReviewScheduleWriter({ vaultAdapter });
+    await scheduleWriter.writeSchedules(schedules, noteFiles);
+  }
+
+  // Decks go before link resolution so their cards get the same links as the notes
+  if (settings.flashcardFormat !== 'none') {
+    const flashcardExporter = new FlashcardExporter({
+      outputDirectory: `${outputFolder}/${settings.flashcardFolder}`,
+      format: settings.flashcardFormat,
+      schedules,
+      vaultAdapter
+    });
+    result.outputFiles.push(...await flashcardExporter.exportDecks(databaseData));
+  }
+
+  // Point MarginNote links at the imported files now that every filename is known
+  if (noteFiles) {
+    const linkResolver = new LinkResolver(noteFiles, { vaultAdapter });
+    const linkReport = await linkResolver.resolveFiles([...result.outputFiles, ...Object.values(noteFiles)]);
+    result.unresolvedLinks = linkReport.unresolved;
+  }
+
+  if (settings.backlinks !== 'none' && noteFiles) {
+    const backlinkWriter = new BacklinkWriter({ mode: settings.backlinks, vaultAdapter });
+    await backlinkWriter.writeBacklinks(databaseData, noteFiles);
+  }
+
+  if (settings.exportAnki) {
+    const ankiExporter = new AnkiExporter({
+      outputDirectory: outputFolder,
+      packageName: options.packageName.replace(/\.[^.]*$/, ''),
+      schedules,
+      vaultAdapter
+    });
+    result.anki = await ankiExporter.exportPackage(databaseData);
+    if (result.anki.path) {
+      result.outputFiles.push(result.anki.path);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,156 @@
+/**
+ * Import Preview
+ * Summarises a parsed notebook before anything is written (notes per notebook,
+ * source document, note type and colour) and narrows the import down to the
+ * notebooks, documents and note types the user picked
+ */
+
+import { DatabaseData } from './margin-note-importer';
+import { MbBookNote, MarkdownRenderOptions, parseNoteType } from '../models/MbBookNote';
+import { HighlightColorizer, parseHighlightStyle } from '../utils/highlight-colors';
+import { normalizeDocMd5 } from './document-registry';
+import { compileNoteTemplate, createMbBookNoteContext } from './note-template';
+
+export interface PreviewGroup {
+  id: string;     // '' collects notes without a notebook / document / colour
+  label: string;
+  count: number;
+}
+
+export interface ImportPreview {
+  totalNotes: number;
+  notebooks: PreviewGroup[]; // by ZTOPICID
+  documents: PreviewGroup[]; // by document MD5
+  types: PreviewGroup[];     // by ZTYPE (mindmap, flashcard, highlight, ...)
+  colors: PreviewGroup[];    // by highlight colour, for information
+}
+
+/**
+ * Ids to import per category; a missing category imports everything
+ */
+export interface ImportSelection {
+  notebooks?: string[];
+  documents?: string[];
+  types?: string[];
+}
+
+export interface SampleNoteOptions extends MarkdownRenderOptions {
+  template?: string;
+}
+
+/**
+ * Count the notes per notebook, document, type and colour
+ */
+export function buildImportPreview(databaseData: DatabaseData, colorizer: HighlightColorizer = new HighlightColorizer()): ImportPreview {
+  const topicTitles = new Map<string, string>();
+  for (const topic of databaseData.topics || []) {
+    if (topic.ZTOPICID) topicTitles.set(String(topic.ZTOPICID), topic.ZTITLE || '');
+  }
+
+  const documentTitles = new Map<string, string>();
+  for (const book of databaseData.books || []) {
+    const md5 = normalizeDocMd5(book.ZMD5);
+    if (md5 && (book.ZTITLE || book.ZFILE) && !documentTitles.has(md5)) {
+      documentTitles.set(md5, String(book.ZTITLE || book.ZFILE));
+    }
+  }
+
+  const notebooks = new GroupCounter();
+  const documents = new GroupCounter();
+  const types = new GroupCounter();
+  const colors = new GroupCounter();
+
+  for (const row of databaseData.booknotes) {
+    const topicId = getNotebookId(row);
+    notebooks.add(topicId, topicId ? topicTitles.get(topicId) || `Notebook ${topicId.substring(0, 8)}` : 'No notebook');
+
+    const md5 = getDocumentId(row);
+    documents.add(md5, md5 ? documentTitles.get(md5) || `Document ${md5.substring(0, 8)}` : 'No document');
+
+    const type = getNoteType(row);
+    types.add(type, type);
+
+    const style = parseHighlightStyle(row.ZHIGHLIGHT_STYLE);
+    colors.add(style ? String(style.colorIndex) : '', style ? colorizer.getName(style.colorIndex) : 'No colour');
+  }
+
+  return {
+    totalNotes: databaseData.booknotes.length,
+    notebooks: notebooks.list(),
+    documents: documents.list(),
+    types: types.list(),
+    colors: colors.list()
+  };
+}
+
+/**
+ * Copy of the data holding only the selected notes. Topics, media and books are
+ * kept whole so folder names and lookups match a full import.
+ */
+export function filterDatabaseData(databaseData: DatabaseData, selection: ImportSelection): DatabaseData {
+  return {
+    ...databaseData,
+    booknotes: databaseData.booknotes.filter(row => isSelected(row, selection))
+  };
+}
+
+/**
+ * ZNOTEIDs of the source notes left out of the import, so a sync keeps their
+ * manifest entries instead of reporting them as deleted
+ */
+export function getSkippedNoteIds(source: DatabaseData, imported: DatabaseData): string[] {
+  const importedIds = new Set(imported.booknotes.map(row => row.ZNOTEID));
+  return source.booknotes.map(row => row.ZNOTEID).filter(noteId => noteId && !importedIds.has(noteId));
+}
+
+export function isSelected(row: any, selection: ImportSelection): boolean {
+  return (!selection.notebooks || selection.notebooks.includes(getNotebookId(row))) &&
+         (!selection.documents || selection.documents.includes(getDocumentId(row))) &&
+         (!selection.types || selection.types.includes(getNoteType(row)));
+}
+
+/**
+ * The first selected note with text, rendered the way the template (or the MbBookNote layout) would
+ */
+export function renderSampleNote(databaseData: DatabaseData, selection: ImportSelection, options: SampleNoteOptions = {}): string {
+  const row = databaseData.booknotes.find(candidate =>
+    isSelected(candidate, selection) && (candidate.ZHIGHLIGHT_TEXT || candidate.ZNOTES_TEXT || candidate.ZNOTETITLE));
+  if (!row) return '';
+
+  const note = new MbBookNote(row);
+  return options.template
+    ? compileNoteTemplate(options.template).render(createMbBookNoteContext(note, options))
+    : note.toMarkdown(options);
+}
+
+function getNotebookId(row: any): string {
+  return row.ZTOPICID ? String(row.ZTOPICID) : '';
+}
+
+function getDocumentId(row: any): string {
+  return normalizeDocMd5(row.ZBOOKMD5);
+}
+
+function getNoteType(row: any): string {
+  return parseNoteType(row.ZTYPE);
+}
+
+class GroupCounter {
+  private groups = new Map<string, PreviewGroup>();
+
+  add(id: string, label: string): void {
+    const group = this.groups.get(id);
+    if (group) {
+      group.count++;
+    } else {
+      this.groups.set(id, { id, label, count: 1 });
+    }
+  }
+
+  /**
+   * Largest groups first
+   */
+  list(): PreviewGroup[] {
+    return Array.from(this.groups.values()).sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+  }
+}
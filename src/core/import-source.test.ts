@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import { zipSync } from 'fflate';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { detectCsvTable, detectSourceFormat, readCsvTables } from './import-source';
+import { SAMPLE_PACKAGE } from '../testing/sample-package';
+
+const bytes = (text: string) => new TextEncoder().encode(text).buffer;
+const csvFile = (name: string, text: string) => ({ name, data: bytes(text) });
+
+describe('detectSourceFormat', () => {
+  it('tells archives, databases and CSV exports by their content', () => {
+    const database = fs.readFileSync(SAMPLE_PACKAGE);
+    const sqlite = database.buffer.slice(database.byteOffset, database.byteOffset + database.byteLength);
+    expect(detectSourceFormat(zipSync({ 'Testing3.marginnotes': new Uint8Array(sqlite) }).buffer)).toBe('marginpkg');
+    expect(detectSourceFormat(sqlite)).toBe('sqlite');
+    expect(detectSourceFormat(bytes('\uFEFFZNOTEID,ZHIGHLIGHT_TEXT\r\nA,text\r\n'))).toBe('csv');
+  });
+
+  it('rejects anything else', () => {
+    expect(detectSourceFormat(bytes('# Notes\n\nnot a table'))).toBeNull();
+    expect(detectSourceFormat(bytes('NAME,AGE\nAda,36\n'))).toBeNull();
+    expect(detectSourceFormat(new Uint8Array([0x50, 0x4b, 0x05, 0x06, 0, 0]).buffer)).toBeNull();
+    expect(detectSourceFormat(new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0, 0x10, 0x4a, 0x46]).buffer)).toBeNull();
+    expect(detectSourceFormat(new ArrayBuffer(0))).toBeNull();
+  });
+});
+
+describe('detectCsvTable', () => {
+  it('names the MarginNote table from the header row', () => {
+    expect(detectCsvTable(['ZNOTEID', 'ZTOPICID', 'ZSTARTPAGE'])).toBe('booknotes');
+    expect(detectCsvTable(['ztopicid', 'ztitle'])).toBe('topics');
+    expect(detectCsvTable(['ZMD5', 'ZDATA'])).toBe('media');
+    expect(detectCsvTable(['ZMD5', 'ZFILE'])).toBe('books');
+    expect(detectCsvTable(['ZNOTEID', 'ZTOPICID', 'ZACTION', 'ZINFO'])).toBe('reviews');
+    expect(detectCsvTable(['CARD_NOTEID', 'ZDUE'])).toBe('reviews');
+    expect(detectCsvTable(['ZTITLE', 'ZDATE'])).toBeNull();
+  });
+});
+
+describe('readCsvTables', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('decodes hex and base64 blob cells and drops mangled ones', () => {
+    const tables = readCsvTables([csvFile('ZMEDIA.csv', [
+      'ZMD5,ZDATA',
+      "a,X'48690a'",
+      'b,0x4869',
+      'c,486921',
+      'd,SGkh',
+      'e,not a blob',
+      'f,'
+    ].join('\n'))]);
+
+    expect(tables.media.map(row => row.ZDATA)).toEqual([
+      new Uint8Array([0x48, 0x69, 0x0a]),
+      new Uint8Array([0x48, 0x69]),
+      new Uint8Array([0x48, 0x69, 0x21]),
+      new Uint8Array([0x48, 0x69, 0x21]),
+      undefined,
+      ''
+    ]);
+    expect('ZDATA' in tables.media[4]).toBe(false);
+  });
+
+  it('leaves text columns alone', () => {
+    const tables = readCsvTables([csvFile('ZTOPIC.csv', 'ZTOPICID,ZTITLE\nT1,0x4869\n')]);
+    expect(tables.topics[0].ZTITLE).toBe('0x4869');
+  });
+
+  it('keeps the booknote export with more columns and names review tables after their file', () => {
+    const tables = readCsvTables([
+      csvFile('export/ZBOOKNOTE.csv', 'ZNOTEID,ZTOPICID,ZSTARTPAGE,ZHIGHLIGHT_TEXT\nA,T,1,full\n'),
+      csvFile('export/notes.csv', 'ZNOTEID,ZTOPICID\nA,T\n'),
+      csvFile('export/ZACTIVITY.csv', 'ZNOTEID,ZTOPICID,ZACTION,ZINFO\nA,T,SpacedRepetition,{}\n'),
+      csvFile('export/readme.csv', 'NAME,VALUE\nx,y\n')
+    ]);
+
+    expect(tables.booknotes).toEqual([{ ZNOTEID: 'A', ZTOPICID: 'T', ZSTARTPAGE: 1, ZHIGHLIGHT_TEXT: 'full' }]);
+    expect(tables.reviews.map(row => row.__table)).toEqual(['ZACTIVITY']);
+    expect(console.warn).toHaveBeenCalledWith('Skipping export/readme.csv: not a MarginNote table export');
+  });
+});
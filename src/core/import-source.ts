@@ -0,0 +1,147 @@
+/**
+ * Import Sources
+ * Tells what a picked file holds from its bytes rather than its extension: a
+ * .marginpkg archive (ZIP), a MarginNote database (.marginnotes backups, .sqlite
+ * or .db files, all SQLite) or a CSV export of one MarginNote table. CSV exports
+ * come one table per file, so each file's table is told from its header row.
+ */
+
+import type { DatabaseRow, MarginPkgFile } from './database-parser';
+import { CSVParser } from '../utils/csv-parser';
+
+export type ImportSourceFormat = 'marginpkg' | 'sqlite' | 'csv';
+export type CsvTable = 'booknotes' | 'topics' | 'media' | 'books' | 'reviews';
+
+export type CsvTables = Record<CsvTable, DatabaseRow[]>;
+
+const ZIP_MAGIC = [0x50, 0x4b, 0x03, 0x04]; // PK\3\4
+const SQLITE_MAGIC = 'SQLite format 3\0';
+const SNIFF_BYTES = 4096;
+
+// Blob columns; CSV tools write these as hex (X'..' or 0x..) or base64
+const BLOB_COLUMNS = new Set(['ZNOTES', 'ZHIGHLIGHTS', 'ZHIGHLIGHT_PIC', 'ZDATA', 'ZTHUMBNAIL', 'ZTHUMBNAILS', 'ZDELNOTES']);
+
+/**
+ * Format of the data, or null when it is none of the supported ones
+ */
+export function detectSourceFormat(data: ArrayBuffer): ImportSourceFormat | null {
+  const bytes = new Uint8Array(data, 0, Math.min(data.byteLength, SNIFF_BYTES));
+
+  if (ZIP_MAGIC.every((byte, index) => bytes[index] === byte)) return 'marginpkg';
+  if (bytes.length >= SQLITE_MAGIC.length &&
+      String.fromCharCode(...Array.from(bytes.subarray(0, SQLITE_MAGIC.length))) === SQLITE_MAGIC) {
+    return 'sqlite';
+  }
+
+  const text = new TextDecoder('utf-8', { fatal: false }).decode(bytes);
+  if (!text.includes('\0') && detectCsvTable(parseHeaderLine(text)) !== null) return 'csv';
+
+  return null;
+}
+
+/**
+ * Format of a picked file, read from its first bytes only
+ */
+export async function detectFileFormat(file: Blob): Promise<ImportSourceFormat | null> {
+  return detectSourceFormat(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+}
+
+/**
+ * The MarginNote table a CSV export holds, from its column names
+ */
+export function detectCsvTable(headers: string[]): CsvTable | null {
+  const columns = new Set(headers.map(header => header.trim().toUpperCase()));
+
+  // ZACTIVITY (the review log) has ZNOTEID and ZTOPICID too
+  if (columns.has('ZACTION') && columns.has('ZINFO')) return 'reviews';
+  if (columns.has('ZNOTEID') && ['ZHIGHLIGHT_TEXT', 'ZNOTETITLE', 'ZSTARTPAGE', 'ZTOPICID'].some(column => columns.has(column))) {
+    return 'booknotes';
+  }
+  if (columns.has('ZTOPICID') && columns.has('ZTITLE')) return 'topics';
+  if (columns.has('ZMD5') && columns.has('ZDATA')) return 'media';
+  if (columns.has('ZMD5') && ['ZFILE', 'ZMD5LONG', 'ZCURRPAGE', 'ZTITLE'].some(column => columns.has(column))) return 'books';
+  if (Array.from(columns).some(column => /NOTE_?ID$/.test(column))) return 'reviews';
+
+  return null;
+}
+
+/**
+ * Rows of every recognised CSV file, grouped by table. When an export holds the
+ * same table twice (ZBOOKNOTE.csv next to a post-processed copy), the file with
+ * more columns wins.
+ */
+export function readCsvTables(files: MarginPkgFile[]): CsvTables {
+  const tables: CsvTables = { booknotes: [], topics: [], media: [], books: [], reviews: [] };
+  let booknoteColumns = 0;
+  const parser = new CSVParser();
+
+  for (const file of files) {
+    const text = new TextDecoder('utf-8', { fatal: false }).decode(file.data).replace(/^\uFEFF/, '');
+    const headers = parseHeaderLine(text);
+    const table = detectCsvTable(headers);
+    if (!table) {
+      console.warn(`Skipping ${file.name}: not a MarginNote table export`);
+      continue;
+    }
+
+    const rows = parser.parse(text).map(row => decodeBlobColumns(row));
+    console.log(`Read ${rows.length} ${table} rows from ${file.name}`);
+
+    if (table === 'booknotes') {
+      if (headers.length <= booknoteColumns) continue;
+      booknoteColumns = headers.length;
+      tables.booknotes = rows;
+    } else if (table === 'reviews') {
+      const name = file.name.replace(/^.*[\\/]/, '').replace(/\.[^.]*$/, '');
+      tables.reviews.push(...rows.map(row => ({ ...row, __table: name })));
+    } else {
+      tables[table].push(...rows);
+    }
+  }
+
+  return tables;
+}
+
+/**
+ * Blob cells as bytes; cells that are neither hex nor base64 were mangled by the
+ * export and are dropped so they never reach the archive decoder
+ */
+function decodeBlobColumns(row: DatabaseRow): DatabaseRow {
+  for (const column of Object.keys(row)) {
+    if (!BLOB_COLUMNS.has(column) || row[column] === '' || row[column] === null) continue;
+
+    const bytes = decodeBlob(String(row[column]));
+    if (bytes) {
+      row[column] = bytes;
+    } else {
+      delete row[column];
+    }
+  }
+  return row;
+}
+
+function decodeBlob(value: string): Uint8Array | null {
+  const text = value.trim();
+
+  const hex = text.match(/^(?:[xX]'([0-9a-fA-F]*)'|0x([0-9a-fA-F]+)|([0-9a-fA-F]+))$/);
+  const digits = hex ? hex[1] ?? hex[2] ?? hex[3] : null;
+  if (digits !== null && digits.length % 2 === 0) {
+    const bytes = new Uint8Array(digits.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(digits.substr(i * 2, 2), 16);
+    }
+    return bytes;
+  }
+
+  if (text.length % 4 === 0 && /^[A-Za-z0-9+/]+={0,2}$/.test(text)) {
+    return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+  }
+
+  return null;
+}
+
+function parseHeaderLine(text: string): string[] {
+  const line = text.replace(/^\uFEFF/, '').split(/\r?\n/)[0] || '';
+  if (!line.includes(',')) return [];
+  return line.split(',').map(header => header.trim().replace(/^"|"$/g, ''));
+}
@@ -0,0 +1,61 @@
+/**
+ * Ink Renderer
+ * Turns decoded MarginNote ink strokes into a standalone SVG document
+ */
+
+import { InkDrawingData, InkStroke } from './nskeyedarchiver-decoder';
+
+const PADDING = 4;
+
+/**
+ * Render strokes to SVG, cropped to the drawing's bounding box
+ */
+export function renderInkSvg(drawing: InkDrawingData): string {
+  const strokes = drawing.strokes.filter(stroke => stroke.points.length > 0);
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const stroke of strokes) {
+    const margin = stroke.width / 2;
+    for (const point of stroke.points) {
+      minX = Math.min(minX, point.x - margin);
+      minY = Math.min(minY, point.y - margin);
+      maxX = Math.max(maxX, point.x + margin);
+      maxY = Math.max(maxY, point.y + margin);
+    }
+  }
+
+  if (strokes.length === 0) {
+    minX = minY = 0;
+    maxX = maxY = 1;
+  }
+
+  const x = round(minX - PADDING);
+  const y = round(minY - PADDING);
+  const width = round(maxX - minX + PADDING * 2);
+  const height = round(maxY - minY + PADDING * 2);
+
+  const lines: string[] = [];
+  lines.push(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="${x} ${y} ${width} ${height}" width="${width}" height="${height}">`);
+  for (const stroke of strokes) {
+    lines.push(`  ${renderStroke(stroke)}`);
+  }
+  lines.push('</svg>');
+
+  return lines.join('\n');
+}
+
+function renderStroke(stroke: InkStroke): string {
+  const [first, ...rest] = stroke.points;
+  // A single point still draws a dot thanks to the round line cap
+  const path = rest.length > 0
+    ? `M${round(first.x)} ${round(first.y)} ` + rest.map(point => `L${round(point.x)} ${round(point.y)}`).join(' ')
+    : `M${round(first.x)} ${round(first.y)} l0 0`;
+
+  const opacity = stroke.opacity < 1 ? ` stroke-opacity="${round(stroke.opacity)}"` : '';
+  return `<path d="${path}" fill="none" stroke="${stroke.color}" stroke-width="${round(stroke.width)}"${opacity} ` +
+         `stroke-linecap="round" stroke-linejoin="round"/>`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from 'vitest';
+import { LinkResolutionReport, LinkResolver } from './link-resolver';
+import { MemoryVault } from '../testing/memory-vault';
+
+const TARGET = 'E5F67D44-ED16-4660-A24D-AB0CE7E94AB9';
+const MISSING = '00000000-0000-0000-0000-000000000000';
+
+const emptyReport = (): LinkResolutionReport => ({ filesUpdated: 0, linksResolved: 0, unresolved: [] });
+
+describe('LinkResolver.resolveContent', () => {
+  const resolver = new LinkResolver({ [TARGET.toLowerCase()]: 'MarginNote/Doc2/Back link.md' });
+
+  it('rewrites note URLs and LinkNote wikilinks to the target path', () => {
+    const report = emptyReport();
+    const content = [
+      `[see](marginnote4app://note/${TARGET})`,
+      `marginnote4app://note/${TARGET}`,
+      `[[${TARGET}|Other note]]`,
+      `[[${TARGET}]]`
+    ].join('\n');
+
+    expect(resolver.resolveContent(content, 'a.md', report)).toBe([
+      '[[MarginNote/Doc2/Back link|see]]',
+      '[[MarginNote/Doc2/Back link|Back link]]',
+      '[[MarginNote/Doc2/Back link|Other note]]',
+      '[[MarginNote/Doc2/Back link|Back link]]'
+    ].join('\n'));
+    expect(report.linksResolved).toBe(4);
+    expect(report.unresolved).toEqual([]);
+  });
+
+  it('leaves embeds and wikilinks that are not note IDs alone', () => {
+    const content = `![[${TARGET}]] [[Some page]] [[Some page|alias]]`;
+    expect(resolver.resolveContent(content, 'a.md', emptyReport())).toBe(content);
+  });
+
+  it('keeps unresolved links and reports each target once per file', () => {
+    const report = emptyReport();
+    const content = `[x](marginnote4app://note/${MISSING}) [[${MISSING}]]`;
+
+    expect(resolver.resolveContent(content, 'a.md', report)).toBe(content);
+    resolver.resolveContent(content, 'b.md', report);
+    expect(report.unresolved).toEqual([{ file: 'a.md', noteId: MISSING }, { file: 'b.md', noteId: MISSING }]);
+  });
+
+  it('strips link syntax from aliases', () => {
+    expect(resolver.resolveContent(`[a|b [c](marginnote4app://note/${TARGET})`, 'a.md', emptyReport()))
+      .toBe('[[MarginNote/Doc2/Back link|a b  c]]');
+  });
+});
+
+describe('LinkResolver.resolveFiles', () => {
+  it('rewrites only the markdown files whose links change', async () => {
+    const vault = new MemoryVault();
+    vault.files.set('MarginNote/a.md', `[[${TARGET}]]`);
+    vault.files.set('MarginNote/b.md', 'No links');
+    vault.files.set('MarginNote/c.canvas', `marginnote4app://note/${TARGET}`);
+    vault.failingWrites.add('MarginNote/b.md');
+
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const report = await new LinkResolver({ [TARGET]: 'MarginNote/target.md' }, { vaultAdapter: vault })
+      .resolveFiles(['MarginNote/a.md', 'MarginNote/a.md', 'MarginNote/b.md', 'MarginNote/c.canvas', 'MarginNote/gone.md']);
+    vi.restoreAllMocks();
+
+    expect(report).toEqual({ filesUpdated: 1, linksResolved: 1, unresolved: [] });
+    expect(vault.files.get('MarginNote/a.md')).toBe('[[MarginNote/target|target]]');
+    expect(vault.files.get('MarginNote/c.canvas')).toBe(`marginnote4app://note/${TARGET}`);
+  });
+});
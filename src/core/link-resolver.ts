@@ -0,0 +1,137 @@
+/**
+ * Link Resolver
+ * Runs after all note files are written: rewrites marginnote4app://note/ID URLs
+ * and [[ZNOTEID|text]] LinkNote references to the vault path of the target note,
+ * and reports the links whose target was not imported
+ */
+
+import { VaultIO } from '../utils/vault-io';
+
+export interface LinkResolverOptions {
+  vaultAdapter?: any;
+}
+
+export interface UnresolvedLink {
+  file: string;   // note containing the link
+  noteId: string; // MarginNote ID of the missing target
+}
+
+export interface LinkResolutionReport {
+  filesUpdated: number;
+  linksResolved: number;
+  unresolved: UnresolvedLink[];
+}
+
+// [text](marginnote4app://note/ID), then bare marginnote4app://note/ID
+const MARKDOWN_URL_PATTERN = /\[([^\]\n]*)\]\(marginnote4app:\/\/note\/([A-Za-z0-9\-]+)\)/g;
+const BARE_URL_PATTERN = /marginnote4app:\/\/note\/([A-Za-z0-9\-]+)/g;
+// [[target]] or [[target|alias]], optionally embedded
+const WIKILINK_PATTERN = /(!?)\[\[([^\]|\n]+)(?:\|([^\]\n]*))?\]\]/g;
+// ZNOTEID format (UUID)
+const NOTE_ID_PATTERN = /^[A-F0-9]{8}-[A-F0-9]{4}-[A-F0-9]{4}-[A-F0-9]{4}-[A-F0-9]{12}$/i;
+
+export class LinkResolver {
+  private io: VaultIO;
+  private noteFiles: Map<string, string>; // upper-cased ZNOTEID -> note path
+
+  constructor(noteFiles: Record<string, string>, options: LinkResolverOptions = {}) {
+    this.io = new VaultIO(options.vaultAdapter);
+    this.noteFiles = new Map();
+    for (const [noteId, path] of Object.entries(noteFiles)) {
+      this.noteFiles.set(noteId.toUpperCase(), path);
+    }
+  }
+
+  /**
+   * Rewrite the links of every imported note file in place
+   */
+  async resolveFiles(files: Iterable<string>): Promise<LinkResolutionReport> {
+    const report: LinkResolutionReport = { filesUpdated: 0, linksResolved: 0, unresolved: [] };
+
+    for (const file of new Set(files)) {
+      if (!file.endsWith('.md')) continue;
+
+      try {
+        if (!(await this.io.exists(file))) continue;
+
+        const content = await this.io.read(file);
+        const resolved = this.resolveContent(content, file, report);
+        if (resolved !== content) {
+          await this.io.write(file, resolved);
+          report.filesUpdated++;
+        }
+      } catch (error) {
+        console.warn(`Failed to resolve links in ${file}:`, error);
+      }
+    }
+
+    console.log(`Link resolution: ${report.linksResolved} links resolved in ${report.filesUpdated} files, ` +
+                `${report.unresolved.length} unresolved`);
+    return report;
+  }
+
+  /**
+   * Rewrite the links in one note's content; unresolved links are left as they are
+   */
+  resolveContent(content: string, file: string, report: LinkResolutionReport): string {
+    const unresolved = (noteId: string) => {
+      if (!report.unresolved.some(link => link.file === file && link.noteId === noteId)) {
+        report.unresolved.push({ file, noteId });
+      }
+    };
+
+    let result = content.replace(WIKILINK_PATTERN, (match, embed: string, target: string, alias?: string) => {
+      const noteId = target.trim();
+      if (embed || !NOTE_ID_PATTERN.test(noteId)) return match;
+
+      const path = this.getNotePath(noteId);
+      if (!path) {
+        unresolved(noteId);
+        return match;
+      }
+
+      report.linksResolved++;
+      return this.toWikilink(path, alias);
+    });
+
+    result = result.replace(MARKDOWN_URL_PATTERN, (match, text: string, noteId: string) => {
+      const path = this.getNotePath(noteId);
+      if (!path) {
+        unresolved(noteId);
+        return match;
+      }
+
+      report.linksResolved++;
+      return this.toWikilink(path, text);
+    });
+
+    result = result.replace(BARE_URL_PATTERN, (match, noteId: string, offset: number, whole: string) => {
+      // Skip URLs kept by the markdown-link pass above
+      if (whole.substring(offset - 2, offset) === '](') return match;
+
+      const path = this.getNotePath(noteId);
+      if (!path) {
+        unresolved(noteId);
+        return match;
+      }
+
+      report.linksResolved++;
+      return this.toWikilink(path);
+    });
+
+    return result;
+  }
+
+  private getNotePath(noteId: string): string | undefined {
+    return this.noteFiles.get(noteId.toUpperCase());
+  }
+
+  /**
+   * [[path|alias]], with the .md extension dropped and the file name as default alias
+   */
+  private toWikilink(path: string, alias?: string): string {
+    const target = path.replace(/\.md$/, '');
+    const label = (alias || '').replace(/[|\[\]]/g, ' ').trim() || target.split('/').pop();
+    return `[[${target}|${label}]]`;
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from 'vitest';
+import { LiteratureNoteConverter, getBlockId } from './literature-note-converter';
+import { DatabaseData } from './margin-note-importer';
+import { MemoryVault } from '../testing/memory-vault';
+
+const MD5 = '0123456789abcdef0123456789abcdef';
+
+const excerpt = (noteId: string, text: string, page: number | null, pos: string | null, created: number, fields: Record<string, any> = {}) => ({
+  ZNOTEID: noteId,
+  ZBOOKMD5: MD5 + MD5,
+  ZHIGHLIGHT_TEXT: text,
+  ZSTARTPAGE: page,
+  ZSTARTPOS: pos,
+  ZHIGHLIGHT_DATE: created,
+  ...fields
+});
+
+const databaseData = {
+  booknotes: [
+    excerpt('P2-TOP', 'Second page', 2, '{72, 700}', 3),
+    excerpt('P1-LOW-LEFT', 'Lower left', 1, '{50, 300}', 1),
+    excerpt('P1-HIGH', 'Higher up', 1, '{72, 600}', 5, { ZNOTES_TEXT: 'first thought' }),
+    excerpt('P1-LOW-RIGHT', 'Lower right', 1, '{200, 301}', 0),
+    excerpt('P1-HIGH-COPY', 'Higher  up', 1, '{72, 600}', 4, { ZNOTES_TEXT: 'second thought' }),
+    excerpt('NO-PAGE', 'Floating', null, null, 2),
+    { ZNOTEID: 'MINDMAP', ZBOOKMD5: MD5, ZNOTETITLE: 'Mind map node' }
+  ],
+  topics: [],
+  media: [],
+  books: [{ ZMD5: MD5, ZTITLE: 'Book: One' }]
+} as unknown as DatabaseData;
+
+describe('getBlockId', () => {
+  it('keeps only the characters Obsidian allows in block ids', () => {
+    expect(getBlockId('2F034B80-AB_C.1')).toBe('mn-2f034b80-abc1');
+  });
+});
+
+describe('LiteratureNoteConverter', () => {
+  it('writes excerpts in reading order with a block id each and merges copies', async () => {
+    const vault = new MemoryVault();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const result = await new LiteratureNoteConverter({ outputDirectory: 'Literature', vaultAdapter: vault })
+      .convertFromData(databaseData);
+    vi.restoreAllMocks();
+
+    expect(result.outputFiles).toEqual(['Literature/Book One.md']);
+    expect(result.noteFiles).toEqual({
+      'P2-TOP': 'Literature/Book One.md',
+      'P1-LOW-LEFT': 'Literature/Book One.md',
+      'P1-HIGH': 'Literature/Book One.md',
+      'P1-LOW-RIGHT': 'Literature/Book One.md',
+      'P1-HIGH-COPY': 'Literature/Book One.md',
+      'NO-PAGE': 'Literature/Book One.md'
+    });
+
+    const content = vault.files.get('Literature/Book One.md') as string;
+    expect(content).toContain('\nexcerpts: 5\n');
+    expect(content.split('\n').filter(line => /^(## |> |\^|- )/.test(line))).toEqual([
+      '## Page 1',
+      '> Higher  up',
+      '^mn-p1-high-copy',
+      '- first thought',
+      '- second thought',
+      '> Lower left',
+      '^mn-p1-low-left',
+      '> Lower right',
+      '^mn-p1-low-right',
+      '## Page 2',
+      '> Second page',
+      '^mn-p2-top',
+      '## Without page',
+      '> Floating',
+      '^mn-no-page'
+    ]);
+  });
+});
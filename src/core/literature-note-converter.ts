@@ -0,0 +1,257 @@
+/**
+ * Literature Note Converter
+ * One note per source document (ZBOOKMD5) holding every excerpt taken from it:
+ * grouped under page headings in reading order (page, then top to bottom and
+ * left to right, then creation date), each quote followed by a ^block id and
+ * the card's comments, so single highlights can still be embedded elsewhere
+ * with ![[Book#^id]]. Cards holding the same excerpt (the mind map copy of a
+ * highlight, say) are merged into one entry.
+ */
+
+import { DatabaseData } from './margin-note-importer';
+import { ConversionResult, MarginNoteConverter } from './converter-registry';
+import { DocumentRegistry, normalizeDocMd5 } from './document-registry';
+import { MediaExporter, parseMediaList } from './media-exporter';
+import { MbBookNote } from '../models/MbBookNote';
+import { ColorRule, HighlightColorizer } from '../utils/highlight-colors';
+import { VaultIO } from '../utils/vault-io';
+import { mergeProtectedContent } from '../utils/protected-regions';
+import { formatFrontmatter } from '../utils/yaml';
+import { sanitizeFileName, uniqueFileName } from '../utils/file-names';
+
+export interface LiteratureNoteOptions {
+  outputDirectory: string;
+  vaultAdapter?: any;
+  preserveUserContent?: boolean; // Carry protected regions of existing notes over (default: true)
+  includeMedia?: boolean; // Embed excerpt images and media (default: true)
+  attachmentsFolder?: string; // Relative to the output folder (default: attachments)
+  colorTable?: ColorRule[];
+  documents?: DocumentRegistry; // Titles and vault PDFs; read from the package when unset
+}
+
+interface Excerpt {
+  note: MbBookNote;
+  noteIds: string[]; // Every card merged into this entry
+  comments: string[];
+}
+
+export class LiteratureNoteConverter implements MarginNoteConverter {
+  private options: LiteratureNoteOptions;
+  private io: VaultIO;
+  private colorizer: HighlightColorizer;
+  private mediaPaths = new Map<string, string>();
+
+  constructor(options: LiteratureNoteOptions) {
+    this.options = options;
+    this.io = new VaultIO(options.vaultAdapter);
+    this.colorizer = new HighlightColorizer(options.colorTable);
+  }
+
+  async convertFromData(databaseData: DatabaseData): Promise<ConversionResult> {
+    const result: ConversionResult = {
+      success: false,
+      notesCreated: 0,
+      errors: [],
+      outputFiles: [],
+      outputFolder: this.options.outputDirectory,
+      noteFiles: {}
+    };
+
+    try {
+      const outputDir = this.options.outputDirectory;
+      const documents = this.options.documents || DocumentRegistry.fromDatabase(databaseData, []);
+      await this.io.ensureDirectory(outputDir);
+
+      this.mediaPaths = new Map();
+      if (this.options.includeMedia !== false && databaseData.media && databaseData.media.length > 0) {
+        const mediaExporter = new MediaExporter({
+          attachmentsFolder: `${outputDir}/${this.options.attachmentsFolder || 'attachments'}`,
+          vaultAdapter: this.options.vaultAdapter
+        });
+        this.mediaPaths = (await mediaExporter.exportMedia(MediaExporter.loadMedia(databaseData.media))).mediaPaths;
+      }
+
+      const excerptsByDocument = this.collectExcerpts(databaseData);
+      const usedNames = new Set<string>();
+
+      for (const [md5, excerpts] of excerptsByDocument) {
+        const document = documents.getDocument(md5);
+        const title = document?.title || document?.file?.replace(/\.pdf$/i, '') || `Document ${md5.substring(0, 8)}`;
+
+        const name = uniqueFileName(sanitizeFileName(title), md5, usedNames);
+        const path = `${outputDir}/${name}.md`;
+
+        try {
+          let content = this.renderLiteratureNote(title, md5, excerpts, documents);
+          if (this.options.preserveUserContent !== false && await this.io.exists(path)) {
+            content = mergeProtectedContent(content, await this.io.read(path));
+          }
+          await this.io.write(path, content);
+
+          result.outputFiles.push(path);
+          result.notesCreated++;
+          for (const excerpt of excerpts) {
+            for (const noteId of excerpt.noteIds) {
+              result.noteFiles![noteId] = path;
+            }
+          }
+        } catch (error) {
+          const errorMsg = `Failed to write literature note ${path}: ${error}`;
+          console.warn(errorMsg);
+          result.errors.push(errorMsg);
+        }
+      }
+
+      result.success = result.notesCreated > 0;
+      console.log(`Literature notes: ${result.notesCreated} documents written in ${outputDir}`);
+    } catch (error) {
+      const errorMsg = `Conversion failed: ${error}`;
+      console.error(errorMsg);
+      result.errors.push(errorMsg);
+    }
+
+    return result;
+  }
+
+  /**
+   * Excerpts per document MD5, merged and sorted in reading order
+   */
+  private collectExcerpts(databaseData: DatabaseData): Map<string, Excerpt[]> {
+    const byDocument = new Map<string, Map<string, Excerpt>>();
+
+    for (const row of databaseData.booknotes) {
+      if (!row.ZNOTEID || !row.ZBOOKMD5) continue;
+
+      const note = new MbBookNote(row);
+      const comments = this.getComments(note);
+      const hasMedia = parseMediaList(note.mediaList).some(hash => this.mediaPaths.has(hash));
+      // Excerpts, and comment cards placed on a page; not page-less mind map nodes
+      if (!note.excerptText?.trim() && !hasMedia && !(Number(note.startPage) && comments.length > 0)) continue;
+
+      const md5 = normalizeDocMd5(note.docMd5);
+      if (!byDocument.has(md5)) {
+        byDocument.set(md5, new Map());
+      }
+      const excerpts = byDocument.get(md5)!;
+
+      const key = [note.startPage, note.startPos, note.endPos, (note.excerptText || '').replace(/\s+/g, ' ').trim()].join('|');
+      const existing = excerpts.get(key);
+      if (existing) {
+        existing.noteIds.push(note.noteId);
+        existing.comments.push(...comments.filter(comment => !existing.comments.includes(comment)));
+        if (note.createDate < existing.note.createDate) {
+          existing.note = note;
+        }
+      } else {
+        excerpts.set(key, { note, noteIds: [note.noteId], comments });
+      }
+    }
+
+    const sorted = new Map<string, Excerpt[]>();
+    for (const [md5, excerpts] of byDocument) {
+      sorted.set(md5, Array.from(excerpts.values()).sort((a, b) => compareReadingOrder(a.note, b.note)));
+    }
+    return sorted;
+  }
+
+  /**
+   * Comment texts of a card, with its links as marginnote4app:// links for the link resolver
+   */
+  private getComments(note: MbBookNote): string[] {
+    // Link texts also come through as formatted text; keep them as links only
+    const linkTexts = new Set(note.linkedNotes.map(link => link.linktext.trim()));
+    const comments = note.comments.map(comment => comment.text.trim()).filter(text => text && !linkTexts.has(text));
+    if (comments.length === 0 && note.notesText?.trim() && note.notesText.trim() !== note.excerptText?.trim()) {
+      comments.push(note.notesText.trim());
+    }
+    for (const link of note.linkedNotes) {
+      comments.push(`[${link.linktext.replace(/[[\]]/g, '').trim()}](marginnote4app://note/${link.noteid})`);
+    }
+    return comments;
+  }
+
+  private renderLiteratureNote(title: string, md5: string, excerpts: Excerpt[], documents: DocumentRegistry): string {
+    const pdfPath = documents.getPdfPath(md5);
+    const lines: string[] = [];
+
+    const frontmatter = formatFrontmatter({
+      title,
+      docMd5: md5,
+      source: pdfPath ? `[[${pdfPath}]]` : undefined,
+      excerpts: excerpts.length
+    });
+    if (frontmatter) lines.push(frontmatter, '');
+
+    lines.push(`# ${title}`, '');
+    if (pdfPath) {
+      lines.push(`**Source:** [[${pdfPath}]]`, '');
+    }
+
+    let currentPage: number | undefined | null = null;
+    for (const { note, comments } of excerpts) {
+      const page = Number(note.startPage) || undefined;
+      if (page !== currentPage) {
+        lines.push(page ? `## Page ${page}` : '## Without page', '');
+        currentPage = page;
+      }
+
+      if (note.excerptText?.trim()) {
+        lines.push(...this.colorizer.formatExcerpt(note.excerptText, note.colorIndex), '');
+      }
+      for (const hash of parseMediaList(note.mediaList)) {
+        const mediaPath = this.mediaPaths.get(hash);
+        if (mediaPath) lines.push(`![[${mediaPath}]]`, '');
+      }
+      lines.push(`^${getBlockId(note.noteId)}`, '');
+
+      for (const comment of comments) {
+        const [first, ...rest] = comment.split('\n');
+        lines.push(`- ${first.trim()}`, ...rest.filter(line => line.trim()).map(line => `  ${line.trim()}`));
+      }
+      if (comments.length > 0) lines.push('');
+
+      const details = [
+        documents.formatSourceLinks(md5, note),
+        ...this.colorizer.getTags(note.colorIndex)
+      ].filter(Boolean);
+      if (details.length > 0) lines.push(details.join(' · '), '');
+    }
+
+    lines.push('---', '*Imported from MarginNote*');
+    return lines.join('\n');
+  }
+}
+
+/**
+ * Block id of an excerpt: its ZNOTEID, which only holds the letters, digits and
+ * dashes Obsidian allows and stays the same across re-imports
+ */
+export function getBlockId(noteId: string): string {
+  return `mn-${noteId.toLowerCase().replace(/[^a-z0-9-]/g, '')}`;
+}
+
+/**
+ * Page, then position on the page (PDF points: larger y is higher up), then creation date
+ */
+function compareReadingOrder(a: MbBookNote, b: MbBookNote): number {
+  const pageA = Number(a.startPage) || Infinity;
+  const pageB = Number(b.startPage) || Infinity;
+  if (pageA !== pageB) return pageA < pageB ? -1 : 1;
+
+  const posA = parsePosition(a.startPos);
+  const posB = parsePosition(b.startPos);
+  if (posA && posB) {
+    if (Math.abs(posA.y - posB.y) > 2) return posB.y - posA.y;
+    if (posA.x !== posB.x) return posA.x - posB.x;
+  } else if (posA || posB) {
+    return posA ? -1 : 1;
+  }
+
+  return a.createDate.getTime() - b.createDate.getTime();
+}
+
+function parsePosition(value?: string): { x: number; y: number } | undefined {
+  if (!value) return undefined;
+  const [x, y] = (String(value).match(/-?\d+(?:\.\d+)?/g) || []).map(parseFloat);
+  return x === undefined || y === undefined ? undefined : { x, y };
+}
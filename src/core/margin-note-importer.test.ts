@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MarginNoteImporter } from './margin-note-importer';
+import { MemoryVault } from '../testing/memory-vault';
+
+const databaseData = {
+  booknotes: [
+    { ZNOTEID: 'A', ZTOPICID: 'T', ZNOTETITLE: 'First', ZHIGHLIGHT_TEXT: 'First excerpt' },
+    { ZNOTEID: 'B', ZTOPICID: 'T', ZNOTETITLE: 'Second', ZHIGHLIGHT_TEXT: 'Second excerpt' }
+  ],
+  topics: [{ ZTOPICID: 'T', ZTITLE: 'Notebook' }],
+  media: []
+};
+
+describe('MarginNoteImporter', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  const importInto = async (vault: MemoryVault) => {
+    const importer = new MarginNoteImporter({ outputDirectory: 'out', createSubdirectories: false, includeMedia: false }, vault);
+    return importer.importMarginNoteData(databaseData);
+  };
+
+  it('counts only the notes that were written', async () => {
+    const vault = new MemoryVault();
+    const written = await importInto(vault);
+    expect(written.notesCreated).toBe(2);
+
+    const [failingPath] = written.importReport!.outputFiles;
+    const failing = new MemoryVault();
+    failing.failingWrites.add(`out/${failingPath}`);
+
+    const result = await importInto(failing);
+    expect(result.success).toBe(true);
+    expect(result.notesCreated).toBe(1);
+    expect(result.errors).toEqual([expect.stringContaining(failingPath)]);
+    expect(result.importReport!.outputFiles).not.toContain(failingPath);
+  });
+
+  it('fails when no note could be written', async () => {
+    const vault = new MemoryVault();
+    const written = await importInto(vault);
+    const failing = new MemoryVault();
+    for (const path of written.importReport!.outputFiles) {
+      failing.failingWrites.add(`out/${path}`);
+    }
+
+    const result = await importInto(failing);
+    expect(result.success).toBe(false);
+    expect(result.notesCreated).toBe(0);
+    expect(result.errors).toHaveLength(2);
+  });
+
+  it('writes only plain settings into the report', async () => {
+    const vault = new MemoryVault();
+    const importer = new MarginNoteImporter({
+      outputDirectory: 'out',
+      includeMedia: false,
+      obsidianConfig: { colorTable: [], documents: {} as any, linkFormat: '[[{note_id}]]' }
+    }, vault);
+    await importer.importMarginNoteData(databaseData);
+
+    const report = JSON.parse(await vault.read('out/import_report.json'));
+    expect(report.configuration.obsidianConfig).toEqual({ linkFormat: '[[{note_id}]]' });
+    expect(report.configuration.outputDirectory).toBe('out');
+  });
+});
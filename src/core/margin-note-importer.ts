@@ -11,6 +11,10 @@ import { extractContentFromDatabase } from './content-extractor';
 import { deduplicateContent } from './deduplicator';
 import { convertToObsidian, ObsidianConverter, ObsidianConfig } from './obsidian-converter';
 import { ContentGroup, MNTopic } from '../models/types';
+import { VaultIO } from '../utils/vault-io';
+import { MediaExporter } from './media-exporter';
+
+export type LogLevel = 'debug' | 'info' | 'warning' | 'error';
 
 export interface ImportConfig {
     outputDirectory: string;
@@ -21,6 +25,9 @@ export interface ImportConfig {
     includeMedia: boolean;
     includeCoordinates: boolean;
     skipEmptyNotes: boolean;
+    attachmentsFolder: string;
+    reportFile: string;
+    logLevel?: LogLevel; // For the caller's logging (the command-line importer); set from config files
     obsidianConfig: Partial<ObsidianConfig>;
 }
 
@@ -39,7 +46,9 @@ export interface ImportResult {
     notesCreated?: number;
     statistics: ImportStatistics;
     importReport?: ImportReport;
+    noteFiles?: Record<string, string>; // every grouped ZNOTEID -> vault path of its note
     error?: string;
+    errors?: string[]; // notes that could not be written
 }
 
 export interface ImportReport {
@@ -62,10 +71,19 @@ export interface ImportReport {
     configuration: ImportConfig;
 }
 
+export interface OutputFile {
+    noteId: string;
+    filename: string;
+    content: string;
+    path: string;
+}
+
 export interface DatabaseData {
     booknotes: any[];
     topics: any[];
     media: any[];
+    reviews?: any[]; // review/scheduling rows, when the package has them
+    books?: any[]; // ZBOOK and ZBOOKCONFIG rows describing the notebook's documents
 }
 
 /**
@@ -74,9 +92,13 @@ export interface DatabaseData {
 export class MarginNoteImporter {
     private config: ImportConfig;
     private importStats: ImportStatistics;
+    private vaultAdapter?: any;
+    private io: VaultIO;
 
-    constructor(config?: Partial<ImportConfig>) {
+    constructor(config?: Partial<ImportConfig>, vaultAdapter?: any) {
         this.config = { ...this.getDefaultConfig(), ...config };
+        this.vaultAdapter = vaultAdapter;
+        this.io = new VaultIO(vaultAdapter);
         this.importStats = {
             startTime: new Date(),
             filesProcessed: 0,
@@ -99,12 +121,14 @@ export class MarginNoteImporter {
             includeMedia: true,
             includeCoordinates: true,
             skipEmptyNotes: true,
+            attachmentsFolder: "attachments",
+            reportFile: "import_report.json",
             obsidianConfig: {
-                noteTemplate: `# {title}
+                noteTemplate: `# {{title}}
 
-{content}
+{{content}}
 
-{metadata}`,
+{{metadata}}`,
                 includeCoordinates: true,
                 includeMediaReferences: true,
                 preserveHierarchy: true,
@@ -154,43 +178,72 @@ export class MarginNoteImporter {
 
             console.log(`Deduplicated to ${deduplicatedGroups.length} unique content groups`);
 
-            // Step 3: Convert to Obsidian format
-            console.log("Step 3: Converting to Obsidian markdown...");
+            // Step 3: Export media attachments so notes can embed them
+            let mediaPaths = new Map<string, string>();
+            if (this.config.includeMedia) {
+                console.log("Step 3: Exporting media attachments...");
+                const mediaExporter = new MediaExporter({
+                    attachmentsFolder: `${this.config.outputDirectory}/${this.config.attachmentsFolder}`,
+                    vaultAdapter: this.vaultAdapter
+                });
+                const mediaResult = await mediaExporter.exportMedia(
+                    extractionResult.mediaCollection.mediaItems.values()
+                );
+                mediaPaths = mediaResult.mediaPaths;
+            }
+
+            // Step 4: Convert to Obsidian format
+            console.log("Step 4: Converting to Obsidian markdown...");
             const obsidianNotes = convertToObsidian(
                 deduplicatedGroups,
                 topics,
-                this.config.obsidianConfig
+                this.config.obsidianConfig,
+                mediaPaths
             );
 
             this.importStats.notesImported = obsidianNotes.size;
 
-            // Step 4: Prepare output data
-            console.log("Step 4: Preparing output data...");
+            // Step 5: Prepare output data
+            console.log("Step 5: Preparing output data...");
             const outputFiles = this.prepareOutputFiles(
                 obsidianNotes,
                 deduplicatedGroups,
                 topics
             );
 
-            // Step 5: Generate import report
+            // Step 6: Write notes into the output directory
+            console.log("Step 6: Writing notes...");
+            const { written, errors } = await this.writeOutputFiles(outputFiles);
+
+            this.importStats.endTime = new Date();
+
+            // Step 7: Generate import report and write it next to the notes
             const importReport = this.generateImportReport(
                 extractionResult,
                 dedupReport,
-                outputFiles,
+                written,
                 databaseData
             );
+            if (this.config.reportFile) {
+                await this.io.write(
+                    `${this.config.outputDirectory}/${this.config.reportFile}`,
+                    JSON.stringify(importReport, null, 2)
+                );
+            }
 
-            this.importStats.endTime = new Date();
-
-            console.log('Import completed successfully!');
-            console.log(`Generated ${outputFiles.length} Obsidian notes`);
+            // Failed writes only fail the import when no note was written at all
+            const success = written.length > 0 || errors.length === 0;
+            console.log(success ? 'Import completed successfully!' : 'Import failed: no notes could be written');
+            console.log(`Generated ${written.length} of ${outputFiles.length} Obsidian notes`);
 
             return {
-                success: true,
+                success,
                 outputDirectory: this.config.outputDirectory,
-                notesCreated: outputFiles.length,
+                notesCreated: written.length,
                 statistics: this.importStats,
-                importReport
+                importReport,
+                noteFiles: this.mapNoteFiles(written, deduplicatedGroups),
+                errors
             };
 
         } catch (error) {
@@ -214,9 +267,10 @@ export class MarginNoteImporter {
         obsidianNotes: Map<string, string>,
         contentGroups: ContentGroup[],
         topics: Map<string, MNTopic>
-    ): Array<{ filename: string; content: string; path: string }> {
+    ): OutputFile[] {
         const converter = new ObsidianConverter(this.config.obsidianConfig);
-        const outputFiles: Array<{ filename: string; content: string; path: string }> = [];
+        const outputFiles: OutputFile[] = [];
+        const usedPaths = new Set<string>();
 
         // Create group lookup for filename generation
         const groupLookup = new Map<string, ContentGroup>();
@@ -227,12 +281,14 @@ export class MarginNoteImporter {
         for (const [noteId, markdownContent] of obsidianNotes) {
             try {
                 // Skip empty notes if configured
-                if (this.config.skipEmptyNotes && !markdownContent.trim()) {
+                const group = groupLookup.get(noteId);
+                const isEmpty = !markdownContent.trim() ||
+                    (group !== undefined && group.masterNote !== undefined && !group.masterNote.hasContent());
+                if (this.config.skipEmptyNotes && isEmpty) {
                     continue;
                 }
 
                 // Generate filename
-                const group = groupLookup.get(noteId);
                 let filename: string;
                 let subdirectory = '';
 
@@ -248,10 +304,16 @@ export class MarginNoteImporter {
                     filename = `note_${noteId.substring(0, 8)}.md`;
                 }
 
-                // Determine full path
-                const path = subdirectory ? `${subdirectory}/${filename}` : filename;
+                // Determine full path, keeping notes with the same title apart
+                let path = subdirectory ? `${subdirectory}/${filename}` : filename;
+                if (usedPaths.has(path.toLowerCase())) {
+                    filename = filename.replace(/\.md$/, ` (${noteId.substring(0, 8)}).md`);
+                    path = subdirectory ? `${subdirectory}/${filename}` : filename;
+                }
+                usedPaths.add(path.toLowerCase());
 
                 outputFiles.push({
+                    noteId,
                     filename,
                     content: markdownContent,
                     path
@@ -266,13 +328,67 @@ export class MarginNoteImporter {
         return outputFiles;
     }
 
+    /**
+     * Map every note of each written group to the vault path of the group's note
+     */
+    private mapNoteFiles(outputFiles: OutputFile[], contentGroups: ContentGroup[]): Record<string, string> {
+        const groupLookup = new Map<string, ContentGroup>();
+        for (const group of contentGroups) {
+            groupLookup.set(group.masterNoteId, group);
+        }
+
+        const noteFiles: Record<string, string> = {};
+        for (const file of outputFiles) {
+            const path = `${this.config.outputDirectory}/${file.path}`;
+            const group = groupLookup.get(file.noteId);
+            for (const noteId of group ? group.noteIds : [file.noteId]) {
+                noteFiles[noteId] = path;
+            }
+        }
+        return noteFiles;
+    }
+
+    /**
+     * Write prepared output files below the output directory; returns the files
+     * written and an error message per file that failed
+     */
+    async writeOutputFiles(outputFiles: OutputFile[]): Promise<{ written: OutputFile[]; errors: string[] }> {
+        const outputDirectory = this.config.outputDirectory;
+        await this.io.ensureDirectory(outputDirectory);
+
+        const written: OutputFile[] = [];
+        const errors: string[] = [];
+        const createdDirectories = new Set<string>();
+        for (const file of outputFiles) {
+            try {
+                const slashIndex = file.path.lastIndexOf('/');
+                if (slashIndex !== -1) {
+                    const directory = `${outputDirectory}/${file.path.substring(0, slashIndex)}`;
+                    if (!createdDirectories.has(directory)) {
+                        await this.io.ensureDirectory(directory);
+                        createdDirectories.add(directory);
+                    }
+                }
+
+                await this.io.write(`${outputDirectory}/${file.path}`, file.content);
+                written.push(file);
+            } catch (error) {
+                console.warn(`Failed to write ${file.path}:`, error);
+                errors.push(`Failed to write ${file.path}: ${error instanceof Error ? error.message : error}`);
+                this.importStats.errors++;
+            }
+        }
+
+        return { written, errors };
+    }
+
     /**
      * Generate comprehensive import report
      */
     private generateImportReport(
         extractionResult: any,
         dedupReport: any,
-        outputFiles: Array<{ filename: string; content: string; path: string }>,
+        outputFiles: OutputFile[],
         databaseData: DatabaseData
     ): ImportReport {
         let duration: number | undefined;
@@ -297,10 +413,19 @@ export class MarginNoteImporter {
             processingStatistics: extractionResult.statistics,
             deduplicationReport: dedupReport,
             outputFiles: outputFiles.map(f => f.path),
-            configuration: this.config
+            configuration: this.getReportConfig()
         };
     }
 
+    /**
+     * The configuration as plain settings values; the colour table and the
+     * document registry are runtime objects, not settings of the import
+     */
+    private getReportConfig(): ImportConfig {
+        const { colorTable, documents, ...obsidianConfig } = this.config.obsidianConfig;
+        return { ...this.config, obsidianConfig };
+    }
+
     /**
      * Get current import statistics
      */
@@ -308,6 +433,13 @@ export class MarginNoteImporter {
         return { ...this.importStats };
     }
 
+    /**
+     * Get a copy of the current configuration
+     */
+    getConfig(): ImportConfig {
+        return { ...this.config, obsidianConfig: { ...this.config.obsidianConfig } };
+    }
+
     /**
      * Update configuration
      */
@@ -331,7 +463,7 @@ export async function importMarginNoteDatabase(
  * Create default import configuration
  */
 export function createDefaultImportConfig(): ImportConfig {
-    return new MarginNoteImporter().getStatistics() as any;
+    return new MarginNoteImporter().getConfig();
 }
 
 // Types are already exported above
\ No newline at end of file
@@ -6,6 +6,7 @@
 import { MbBookNote } from '../models/MbBookNote';
 import { MarginNoteDatabaseReader } from './marginnote-database-reader';
 import { CSVParser } from '../utils/csv-parser';
+import { hasUserContent, mergeProtectedContent } from '../utils/protected-regions';
 
 export interface ConversionOptions {
   csvDirectory: string;
@@ -13,6 +14,7 @@ export interface ConversionOptions {
   useModifiedCSV?: boolean;
   createSubdirectories?: boolean;
   overwriteExisting?: boolean;
+  preserveUserContent?: boolean;
 }
 
 export interface ConversionResult {
@@ -31,6 +33,7 @@ export class MarginNoteCSVConverter {
       useModifiedCSV: true,
       createSubdirectories: true,
       overwriteExisting: true,
+      preserveUserContent: true,
       ...options
     };
   }
@@ -196,6 +199,16 @@ export class MarginNoteCSVConverter {
     const filename = note.getFilename();
     const fullPath = path.join(this.options.outputDirectory, subdir, filename);
     
+    // Regenerate notes the user has annotated in place, keeping their protected regions
+    if (fs.existsSync(fullPath) && this.options.preserveUserContent) {
+      const existing = fs.readFileSync(fullPath, 'utf-8');
+      const generated = note.toMarkdown();
+      if (hasUserContent(existing, generated)) {
+        fs.writeFileSync(fullPath, mergeProtectedContent(generated, existing), 'utf-8');
+        return path.join(subdir, filename);
+      }
+    }
+    
     // Check if file exists and handle overwrite
     if (fs.existsSync(fullPath) && !this.options.overwriteExisting) {
       const timestamp = Date.now();
@@ -4,6 +4,7 @@
  */
 
 import { DatabaseData } from './margin-note-importer';
+import { ConversionResult, MarginNoteConverter } from './converter-registry';
 
 export interface ExportConversionOptions {
   outputDirectory: string;
@@ -11,13 +12,6 @@ export interface ExportConversionOptions {
   vaultAdapter?: any; // Obsidian vault adapter
 }
 
-export interface ConversionResult {
-  success: boolean;
-  notesCreated: number;
-  errors: string[];
-  outputFiles: string[];
-}
-
 interface LinkedNote {
   summary: number;
   noteid: string;
@@ -70,7 +64,7 @@ interface MbBookNoteForExport {
   textHighlight: TextHighlight[];
 }
 
-export class MarginNoteExportConverter {
+export class MarginNoteExportConverter implements MarginNoteConverter {
   private options: ExportConversionOptions;
   
   constructor(options: ExportConversionOptions) {
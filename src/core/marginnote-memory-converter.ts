@@ -5,24 +5,31 @@
 
 import { MbBookNote } from '../models/MbBookNote';
 import { DatabaseData } from './margin-note-importer';
+import { ConversionResult, MarginNoteConverter } from './converter-registry';
+import { HierarchyMode, buildNoteTree, getBranchFolders } from './note-tree';
+import { ColorRule, HighlightColorizer } from '../utils/highlight-colors';
+import { DocumentRegistry } from './document-registry';
+import { CompiledTemplate } from '../utils/template-engine';
+import { compileNoteTemplate, createMbBookNoteContext } from './note-template';
 
 export interface MemoryConversionOptions {
   outputDirectory: string;
   createSubdirectories?: boolean;
   overwriteExisting?: boolean;
   vaultAdapter?: any; // Obsidian vault adapter
+  hierarchyMode?: HierarchyMode; // 'folders' nests notes in folders mirroring the mind map branches
+  colorTable?: ColorRule[]; // Highlight colour -> tag / callout / ==highlight== styling
+  documents?: DocumentRegistry; // Source PDFs in the vault, for page links
+  template?: string; // Note template source; the built-in layout when unset
 }
 
-export interface ConversionResult {
-  success: boolean;
-  notesCreated: number;
-  errors: string[];
-  outputFiles: string[];
+export interface MemoryConversionResult extends ConversionResult {
   statistics: any;
 }
 
-export class MarginNoteMemoryConverter {
+export class MarginNoteMemoryConverter implements MarginNoteConverter {
   private options: MemoryConversionOptions;
+  private template?: CompiledTemplate;
   
   constructor(options: MemoryConversionOptions) {
     this.options = {
@@ -30,18 +37,22 @@ export class MarginNoteMemoryConverter {
       overwriteExisting: true,
       ...options
     };
+    if (options.template) {
+      this.template = compileNoteTemplate(options.template);
+    }
   }
   
   /**
    * Convert database data to markdown notes
    */
-  async convertFromData(databaseData: DatabaseData): Promise<ConversionResult> {
-    const result: ConversionResult = {
+  async convertFromData(databaseData: DatabaseData): Promise<MemoryConversionResult> {
+    const result: MemoryConversionResult = {
       success: false,
       notesCreated: 0,
       errors: [],
       outputFiles: [],
-      statistics: {}
+      statistics: {},
+      noteFiles: {}
     };
     
     try {
@@ -82,6 +93,9 @@ export class MarginNoteMemoryConverter {
         return result;
       }
       
+      // Link children to their parents so notes list their real child notes
+      buildNoteTree(bookNotes);
+      
       // Create output directory
       await this.ensureDirectory(this.options.outputDirectory);
       
@@ -95,6 +109,7 @@ export class MarginNoteMemoryConverter {
         try {
           const outputPath = await this.writeNoteToFile(note);
           result.outputFiles.push(outputPath);
+          result.noteFiles![note.noteId] = `${this.options.outputDirectory}/${outputPath}`;
           result.notesCreated++;
           
           console.log(`Created: ${outputPath}`);
@@ -242,19 +257,25 @@ export class MarginNoteMemoryConverter {
    */
   private async writeNoteToFile(note: MbBookNote): Promise<string> {
     // Determine subdirectory
-    let subdir = '';
-    if (this.options.createSubdirectories) {
-      subdir = this.getSubdirectoryForNote(note);
+    const subdir = this.getNoteDirectory(note);
+    if (this.options.hierarchyMode === 'folders' && subdir) {
+      await this.ensureDirectory(`${this.options.outputDirectory}/${subdir}`);
     }
     
     // Generate filename
     const filename = note.getFilename();
     const relativePath = subdir ? `${subdir}/${filename}` : filename;
     const fullPath = `${this.options.outputDirectory}/${relativePath}`;
+    const renderOptions = {
+      colorizer: new HighlightColorizer(this.options.colorTable),
+      documents: this.options.documents
+    };
+    const content = this.template
+      ? this.template.render(createMbBookNoteContext(note, renderOptions))
+      : note.toMarkdown(renderOptions);
     
     if (this.options.vaultAdapter) {
       // Use Obsidian vault adapter
-      const content = note.toMarkdown();
       
       // Check if file exists and handle overwrite
       if ((await this.options.vaultAdapter.exists(fullPath)) && !this.options.overwriteExisting) {
@@ -285,15 +306,30 @@ export class MarginNoteMemoryConverter {
         const newSystemPath = path.join(this.options.outputDirectory, subdir, newFilename);
         const newRelativePath = subdir ? `${subdir}/${newFilename}` : newFilename;
         
-        fs.writeFileSync(newSystemPath, note.toMarkdown(), 'utf-8');
+        fs.writeFileSync(newSystemPath, content, 'utf-8');
         return newRelativePath;
       } else {
-        fs.writeFileSync(systemPath, note.toMarkdown(), 'utf-8');
+        fs.writeFileSync(systemPath, content, 'utf-8');
         return relativePath;
       }
     }
   }
   
+  /**
+   * Folder of a note relative to the output directory: the type subdirectory,
+   * followed by the branch folders in folders mode
+   */
+  private getNoteDirectory(note: MbBookNote): string {
+    const folders: string[] = [];
+    if (this.options.createSubdirectories) {
+      folders.push(this.getSubdirectoryForNote(note));
+    }
+    if (this.options.hierarchyMode === 'folders') {
+      folders.push(...getBranchFolders(note));
+    }
+    return folders.join('/');
+  }
+  
   /**
    * Determine subdirectory for a note based on its properties
    */
@@ -348,7 +384,7 @@ export class MarginNoteMemoryConverter {
       lines.push('');
       
       for (const note of typeNotes) {
-        const subdir = this.options.createSubdirectories ? this.getSubdirectoryForNote(note) : '';
+        const subdir = this.getNoteDirectory(note);
         const linkPath = subdir ? `${subdir}/${note.getFilename()}` : note.getFilename();
         
         lines.push(`- [[${linkPath}|${note.getDisplayTitle()}]]`);
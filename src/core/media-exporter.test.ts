@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MediaExporter, parseMediaList } from './media-exporter';
+import { NSKeyedArchiverDecoder } from './nskeyedarchiver-decoder';
+import { MediaType } from '../models/types';
+import { MemoryVault } from '../testing/memory-vault';
+import { loadSamplePackage } from '../testing/sample-package';
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0]);
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0, 0x10]);
+const PDF = new TextEncoder().encode('%PDF-1.7\n');
+const TEXT = new TextEncoder().encode('plain text');
+
+describe('parseMediaList', () => {
+  it('splits ZMEDIA_LIST values and reads hash arrays', () => {
+    expect(parseMediaList('aaa-bbb-')).toEqual(['aaa', 'bbb']);
+    expect(parseMediaList(['aaa', { hash: 'bbb' }, { mediaHash: 'ccc' }, {}])).toEqual(['aaa', 'bbb', 'ccc']);
+    expect(parseMediaList(null)).toEqual([]);
+  });
+});
+
+describe('MediaExporter', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('detects the media type from the data, not the row', () => {
+    const media = MediaExporter.loadMedia([
+      { ZMD5: 'png', ZDATA: PNG },
+      { ZMD5: 'jpeg', ZDATA: JPEG },
+      { ZMD5: 'pdf', ZDATA: PDF },
+      { ZMD5: 'text', ZDATA: TEXT }
+    ], new NSKeyedArchiverDecoder());
+
+    expect(media.map(item => item.mediaType)).toEqual([
+      MediaType.PNG_IMAGE, MediaType.JPEG_IMAGE, MediaType.PDF_DOCUMENT, MediaType.UNKNOWN
+    ]);
+    expect(media.map(item => item.getFileExtension())).toEqual(['png', 'jpg', 'pdf', null]);
+  });
+
+  it('names attachments by hash and extension and skips what it cannot export', async () => {
+    const vault = new MemoryVault();
+    const exporter = new MediaExporter({ attachmentsFolder: 'MarginNote/attachments', vaultAdapter: vault });
+    const media = MediaExporter.loadMedia([
+      { ZMD5: 'a1', ZDATA: PNG },
+      { ZMD5: 'b2', ZDATA: PDF },
+      { ZMD5: 'c3', ZDATA: TEXT },
+      { ZMD5: 'd4' }
+    ]);
+
+    const result = await exporter.exportMedia(media);
+
+    expect(Array.from(result.mediaPaths)).toEqual([
+      ['a1', 'MarginNote/attachments/a1.png'],
+      ['b2', 'MarginNote/attachments/b2.pdf']
+    ]);
+    expect(result.skipped).toEqual(['c3', 'd4']);
+    expect(new Uint8Array(vault.files.get('MarginNote/attachments/a1.png') as ArrayBuffer)).toEqual(PNG);
+    expect(vault.folders.has('MarginNote/attachments')).toBe(true);
+  });
+
+  it('does not rewrite attachments that already exist', async () => {
+    const vault = new MemoryVault();
+    vault.files.set('attachments/a1.png', 'kept');
+    const exporter = new MediaExporter({ attachmentsFolder: 'attachments', vaultAdapter: vault });
+
+    const result = await exporter.exportMedia(MediaExporter.loadMedia([{ ZMD5: 'a1', ZDATA: PNG }]));
+
+    expect(result.filesWritten).toBe(0);
+    expect(result.mediaPaths.get('a1')).toBe('attachments/a1.png');
+    expect(vault.files.get('attachments/a1.png')).toBe('kept');
+  });
+
+  it('writes the ink drawings of the sample notebook as SVG', async () => {
+    const databaseData = await loadSamplePackage();
+    const vault = new MemoryVault();
+    const exporter = new MediaExporter({ attachmentsFolder: 'attachments', vaultAdapter: vault });
+
+    const result = await exporter.exportMedia(MediaExporter.loadMedia(databaseData.media));
+    const drawings = Array.from(result.mediaPaths.values()).filter(path => path.endsWith('.svg'));
+
+    expect(drawings.length).toBeGreaterThan(0);
+    expect(vault.files.get(drawings[0])).toMatch(/^<svg /);
+  });
+});
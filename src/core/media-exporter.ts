@@ -0,0 +1,117 @@
+/**
+ * Media Exporter
+ * Writes ZMEDIA blobs (image excerpts, PDF snippets, ink drawings rendered as SVG)
+ * into a vault attachments folder, named by MD5 and detected type, so notes can
+ * embed them with ![[...]]
+ */
+
+import { MediaType, MNMediaData, MNMediaDataImpl } from '../models/types';
+import { NSKeyedArchiverDecoder } from './nskeyedarchiver-decoder';
+import { renderInkSvg } from './ink-renderer';
+import { VaultIO } from '../utils/vault-io';
+
+export interface MediaExportOptions {
+  attachmentsFolder: string;
+  vaultAdapter?: any;
+}
+
+export interface MediaExportResult {
+  mediaPaths: Map<string, string>; // MD5 hash -> vault path of the written file
+  filesWritten: number;
+  skipped: string[]; // hashes without data or with an unsupported type
+}
+
+/**
+ * Split a ZMEDIA_LIST value into MD5 hashes
+ */
+export function parseMediaList(mediaList: any): string[] {
+  if (!mediaList) return [];
+  if (Array.isArray(mediaList)) {
+    return mediaList.map(item => typeof item === 'string' ? item : item.hash || item.mediaHash).filter(Boolean);
+  }
+
+  return String(mediaList).split('-').map(hash => hash.trim()).filter(hash => hash.length > 0);
+}
+
+export class MediaExporter {
+  private options: MediaExportOptions;
+  private io: VaultIO;
+
+  constructor(options: MediaExportOptions) {
+    this.options = options;
+    this.io = new VaultIO(options.vaultAdapter);
+  }
+
+  /**
+   * Build media objects from ZMEDIA rows
+   */
+  static loadMedia(mediaRows: any[], decoder: NSKeyedArchiverDecoder = new NSKeyedArchiverDecoder()): MNMediaDataImpl[] {
+    return mediaRows.map(row => MediaExporter.loadMediaRow(row, decoder));
+  }
+
+  /**
+   * Build a media object from a ZMEDIA row: unwrap archived NSData to detect
+   * images and PDFs, otherwise try the archive as an ink drawing
+   */
+  static loadMediaRow(row: any, decoder: NSKeyedArchiverDecoder): MNMediaDataImpl {
+    const raw = row.ZDATA || row.data;
+    const media = MNMediaDataImpl.fromDatabaseRow(row, decoder.unwrapMediaData(raw));
+
+    if (media.mediaType === MediaType.UNKNOWN && raw) {
+      const drawing = decoder.decodeMediaData(raw);
+      if (drawing.type === 'ink') {
+        media.mediaType = MediaType.APPLE_INK;
+        media.parsedContent = drawing;
+      }
+    }
+
+    return media;
+  }
+
+  /**
+   * Write every exportable media item into the attachments folder.
+   * Files that already exist are not rewritten: the name is the content hash.
+   */
+  async exportMedia(media: Iterable<MNMediaData>): Promise<MediaExportResult> {
+    const result: MediaExportResult = {
+      mediaPaths: new Map(),
+      filesWritten: 0,
+      skipped: []
+    };
+
+    let folderReady = false;
+    for (const item of media) {
+      const extension = item.getFileExtension();
+      const isDrawing = item.isInkDrawing() && item.parsedContent && item.parsedContent.type === 'ink';
+      if (!item.mediaHash || !extension || (item.isInkDrawing() ? !isDrawing : !item.data)) {
+        result.skipped.push(item.mediaHash);
+        continue;
+      }
+
+      if (!folderReady) {
+        await this.io.ensureDirectory(this.options.attachmentsFolder);
+        folderReady = true;
+      }
+
+      const path = `${this.options.attachmentsFolder}/${item.mediaHash}.${extension}`;
+      try {
+        if (!(await this.io.exists(path))) {
+          if (isDrawing) {
+            await this.io.write(path, renderInkSvg(item.parsedContent));
+          } else {
+            await this.io.writeBinary(path, item.data!);
+          }
+          result.filesWritten++;
+        }
+        result.mediaPaths.set(item.mediaHash, path);
+      } catch (error) {
+        console.warn(`Failed to write media ${item.mediaHash}:`, error);
+        result.skipped.push(item.mediaHash);
+      }
+    }
+
+    console.log(`Media export: ${result.mediaPaths.size} attachments (${result.filesWritten} written), ` +
+                `${result.skipped.length} skipped`);
+    return result;
+  }
+}
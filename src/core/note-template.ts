@@ -0,0 +1,90 @@
+/**
+ * Note Templates
+ * Loads a user template (see utils/template-engine) from the vault and builds
+ * the fields it can use for a note: every property of the note model plus
+ * computed ones such as title, tags, colorName, sourceLinks and the default
+ * rendering as content
+ */
+
+import { MbBookNote, MarkdownRenderOptions } from '../models/MbBookNote';
+import { MNBookNote } from '../models/types';
+import { VaultIO } from '../utils/vault-io';
+import { HighlightColorizer } from '../utils/highlight-colors';
+import { CompiledTemplate, TemplateError } from '../utils/template-engine';
+import { parseMediaList } from './media-exporter';
+import { DocumentRegistry } from './document-registry';
+
+// Single-brace placeholders of the original ObsidianConfig.noteTemplate
+const LEGACY_PLACEHOLDERS = /\{(title|content|metadata)\}/g;
+
+/**
+ * Read a template from the vault and check its syntax.
+ * Throws a TemplateError when the file is missing or does not parse.
+ */
+export async function loadNoteTemplate(path: string, vaultAdapter?: any): Promise<string> {
+  const io = new VaultIO(vaultAdapter);
+  if (!(await io.exists(path))) {
+    throw new TemplateError(`Template file not found: ${path}`);
+  }
+
+  const source = await io.read(path);
+  try {
+    new CompiledTemplate(source);
+  } catch (error) {
+    throw new TemplateError(`${path}: ${(error as Error).message}`);
+  }
+  return source;
+}
+
+/**
+ * Compile a template, accepting the {title}/{content}/{metadata} placeholders
+ * of templates written before the template language existed
+ */
+export function compileNoteTemplate(source: string): CompiledTemplate {
+  return new CompiledTemplate(source.includes('{{') ? source : source.replace(LEGACY_PLACEHOLDERS, '{{$1}}'));
+}
+
+/**
+ * Fields for an MbBookNote (in-memory converter)
+ */
+export function createMbBookNoteContext(note: MbBookNote, options: MarkdownRenderOptions = {}): Record<string, any> {
+  const colorizer = options.colorizer || new HighlightColorizer();
+  return {
+    ...note,
+    note,
+    title: note.getDisplayTitle(),
+    filename: note.getFilename(),
+    colorName: colorizer.getName(note.colorIndex),
+    tags: note.getTags(colorizer),
+    sourceLinks: options.documents ? options.documents.formatSourceLinks(note.docMd5, note) : '',
+    media: parseMediaList(note.mediaList),
+    content: note.toMarkdown(options)
+  };
+}
+
+/**
+ * Fields for an MNBookNote (grouped converter)
+ */
+export function createMNBookNoteContext(note: MNBookNote, fields: {
+  title: string;
+  content: string;
+  metadata: string;
+  topic?: string;
+  colorizer?: HighlightColorizer;
+  documents?: DocumentRegistry;
+}): Record<string, any> {
+  const colorizer = fields.colorizer || new HighlightColorizer();
+  return {
+    ...note,
+    note,
+    title: fields.title,
+    content: fields.content,
+    metadata: fields.metadata,
+    topic: fields.topic || '',
+    createDate: note.highlightDate,
+    modifiedDate: note.noteDate,
+    colorName: colorizer.getName(note.colorIndex),
+    tags: [...note.hashtags.map(tag => tag.startsWith('#') ? tag : `#${tag}`), ...colorizer.getTags(note.colorIndex)],
+    sourceLinks: fields.documents ? fields.documents.formatSourceLinks(note.docMd5, note) : ''
+  };
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildNoteTree, getNestedNotePath, renderNoteLinks } from './note-tree';
+import { OutlineExporter } from './outline-exporter';
+import { DatabaseData } from './margin-note-importer';
+import { MbBookNote } from '../models/MbBookNote';
+import { MemoryVault } from '../testing/memory-vault';
+
+const note = (noteId: string, fields: Record<string, any> = {}) =>
+  new MbBookNote({ ZNOTEID: noteId, ZNOTETITLE: `Title ${noteId}`, ...fields });
+
+describe('buildNoteTree', () => {
+  it('links children from ZMINDLINKS, then from ZGROUPNOTEID', () => {
+    const notes = [
+      note('ROOT', { ZMINDLINKS: 'A|B' }),
+      note('A'),
+      note('B', { ZGROUPNOTEID: 'A' }),
+      note('C', { ZGROUPNOTEID: 'A' })
+    ];
+
+    const roots = buildNoteTree(notes);
+
+    expect(roots.map(root => root.noteId)).toEqual(['ROOT']);
+    expect(notes[0].childNotes.map(child => child.noteId)).toEqual(['A', 'B']); // B keeps its first parent
+    expect(notes[1].childNotes.map(child => child.noteId)).toEqual(['C']);
+    expect(notes[3].parentNote).toBe(notes[1]);
+  });
+
+  it('ignores links that would form a cycle', () => {
+    const notes = [note('A', { ZMINDLINKS: 'B' }), note('B', { ZMINDLINKS: 'A' }), note('C', { ZMINDLINKS: 'C' })];
+
+    const roots = buildNoteTree(notes);
+
+    expect(roots.map(root => root.noteId)).toEqual(['A', 'C']);
+    expect(notes[1].childNotes).toEqual([]);
+    expect(notes[2].childNotes).toEqual([]);
+  });
+});
+
+describe('getNestedNotePath', () => {
+  it('puts a note in its ancestors\' folders, and in its own when it has children', () => {
+    const notes = [note('ROOT', { ZMINDLINKS: 'A' }), note('A', { ZMINDLINKS: 'B' }), note('B')];
+    buildNoteTree(notes);
+
+    expect(getNestedNotePath(notes[0], 'ROOT.md')).toBe('Title_ROOT/ROOT.md');
+    expect(getNestedNotePath(notes[1], 'A.md')).toBe('Title_ROOT/Title_A/A.md');
+    expect(getNestedNotePath(notes[2], 'B.md')).toBe('Title_ROOT/Title_A/B.md');
+  });
+});
+
+describe('renderNoteLinks', () => {
+  it('indents one wikilink per note and lists notes that were not imported as text', () => {
+    const notes = [note('ROOT', { ZMINDLINKS: 'A|B' }), note('A', { ZNOTETITLE: 'A [draft] | 2' }), note('B')];
+    const roots = buildNoteTree(notes);
+
+    expect(renderNoteLinks(roots, { ROOT: 'MarginNote/ROOT.md', A: 'MarginNote/A.md' })).toEqual([
+      '- [[MarginNote/ROOT|Title ROOT]]',
+      '\t- [[MarginNote/A|A  draft    2]]',
+      '\t- Title B'
+    ]);
+  });
+});
+
+describe('OutlineExporter', () => {
+  it('writes one outline per topic with unique names', async () => {
+    const vault = new MemoryVault();
+    const databaseData = {
+      booknotes: [
+        { ZNOTEID: 'A', ZTOPICID: 'T1', ZNOTETITLE: 'First', ZMINDLINKS: 'B' },
+        { ZNOTEID: 'B', ZTOPICID: 'T1', ZNOTETITLE: 'Second' },
+        { ZNOTEID: 'C', ZTOPICID: 'T2', ZNOTETITLE: 'Third' }
+      ],
+      topics: [{ ZTOPICID: 'T1', ZTITLE: 'Book #1' }, { ZTOPICID: 'T2', ZTITLE: 'Book 1' }],
+      media: []
+    } as unknown as DatabaseData;
+
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const written = await new OutlineExporter({ outputDirectory: 'MarginNote', vaultAdapter: vault })
+      .exportOutlines(databaseData, { A: 'MarginNote/A.md', B: 'MarginNote/B.md', C: 'MarginNote/C.md' });
+    vi.restoreAllMocks();
+
+    expect(written).toEqual(['MarginNote/Book 1 Outline.md', 'MarginNote/Book 1 Outline (T2).md']);
+    expect(vault.files.get(written[0])).toContain('# Book #1\n\n- [[MarginNote/A|First]]\n\t- [[MarginNote/B|Second]]');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Note Tree
+ * Rebuilds the MarginNote mind map hierarchy from ZMINDLINKS and the child
+ * references in ZNOTES (falling back to ZGROUPNOTEID), and lays it out as
+ * nested folders or as an indented outline
+ */
+
+import { DatabaseData } from './margin-note-importer';
+import { MbBookNote } from '../models/MbBookNote';
+import { sanitizeFileName } from '../utils/file-names';
+
+export type HierarchyMode = 'flat' | 'folders' | 'outline';
+
+/**
+ * Link children to their parents; returns the root notes.
+ * Each note keeps the first parent found, and links that would form a cycle are ignored.
+ */
+export function buildNoteTree(notes: MbBookNote[]): MbBookNote[] {
+  const notesById = new Map<string, MbBookNote>();
+  for (const note of notes) {
+    notesById.set(note.noteId, note);
+  }
+
+  const attach = (parent: MbBookNote, child: MbBookNote) => {
+    if (child.parentNote || child === parent) return;
+    for (let ancestor: MbBookNote | undefined = parent; ancestor; ancestor = ancestor.parentNote) {
+      if (ancestor === child) return;
+    }
+
+    child.parentNote = parent;
+    parent.childNotes.push(child);
+  };
+
+  for (const note of notes) {
+    for (const childId of note.childNoteIds) {
+      const child = notesById.get(childId);
+      if (child) attach(note, child);
+    }
+  }
+
+  for (const note of notes) {
+    if (!note.parentNote && note.groupNoteId) {
+      const parent = notesById.get(note.groupNoteId);
+      if (parent) attach(parent, note);
+    }
+  }
+
+  return notes.filter(note => !note.parentNote);
+}
+
+/**
+ * Build MbBookNotes from ZBOOKNOTE rows, grouped by topic, with each topic's tree linked
+ */
+export function loadNotesByTopic(databaseData: DatabaseData): Map<string, MbBookNote[]> {
+  const notesByTopic = new Map<string, MbBookNote[]>();
+  for (const row of databaseData.booknotes) {
+    if (!row.ZNOTEID) continue;
+
+    const note = new MbBookNote(row);
+    const topicId = note.topicId || 'untitled';
+    if (!notesByTopic.has(topicId)) {
+      notesByTopic.set(topicId, []);
+    }
+    notesByTopic.get(topicId)!.push(note);
+  }
+
+  for (const notes of notesByTopic.values()) {
+    buildNoteTree(notes);
+  }
+
+  return notesByTopic;
+}
+
+/**
+ * Topic titles by ZTOPICID
+ */
+export function loadTopicTitles(databaseData: DatabaseData): Map<string, string> {
+  const topicTitles = new Map<string, string>();
+  for (const topic of databaseData.topics) {
+    if (topic.ZTOPICID) {
+      topicTitles.set(topic.ZTOPICID, topic.ZTITLE || topic.ZTOPICID);
+    }
+  }
+  return topicTitles;
+}
+
+/**
+ * Relative path of a note inside nested branch folders:
+ * each ancestor is a folder, and a note with children gets its own folder too
+ */
+export function getNestedNotePath(note: MbBookNote, filename: string): string {
+  return [...getBranchFolders(note), filename].join('/');
+}
+
+/**
+ * Branch folders holding a note, from the root of its tree down
+ */
+export function getBranchFolders(note: MbBookNote): string[] {
+  const folders: string[] = [];
+  for (let ancestor = note.parentNote; ancestor; ancestor = ancestor.parentNote) {
+    folders.unshift(getBranchFolderName(ancestor));
+  }
+  if (note.childNotes.length > 0) {
+    folders.push(getBranchFolderName(note));
+  }
+  return folders;
+}
+
+function getBranchFolderName(note: MbBookNote): string {
+  return sanitizeFileName(note.getFilename().replace(/\.md$/, ''), note.noteId);
+}
+
+/**
+ * Render a topic's tree as an outline of indented wikilinks
+ */
+export function renderOutline(title: string, roots: MbBookNote[], noteFiles: Record<string, string>): string {
+  const lines: string[] = [];
+  lines.push(`# ${title}`);
+  lines.push('');
+
+  lines.push(...renderNoteLinks(roots, noteFiles));
+  lines.push('');
+  lines.push('---');
+  lines.push('*Imported from MarginNote*');
+
+  return lines.join('\n');
+}
+
+/**
+ * Indented list of wikilinks to the imported notes, one entry per note of the
+ * tree (notes that were not imported are listed as plain text)
+ */
+export function renderNoteLinks(roots: MbBookNote[], noteFiles: Record<string, string>): string[] {
+  const lines: string[] = [];
+
+  const visit = (note: MbBookNote, depth: number) => {
+    const label = note.getDisplayTitle().replace(/[|\[\]]/g, ' ').trim();
+    const file = noteFiles[note.noteId];
+    const entry = file ? `[[${file.replace(/\.md$/, '')}|${label}]]` : label;
+    lines.push(`${'\t'.repeat(depth)}- ${entry}`);
+
+    for (const child of note.childNotes) {
+      visit(child, depth + 1);
+    }
+  };
+
+  for (const root of roots) {
+    visit(root, 0);
+  }
+
+  return lines;
+}
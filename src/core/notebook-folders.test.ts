@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { NotebookFolders } from './notebook-folders';
+import { DatabaseData } from './margin-note-importer';
+
+const withTopics = (topics: any[]) => ({ booknotes: [], topics, media: [] }) as unknown as DatabaseData;
+
+describe('NotebookFolders', () => {
+  it('nests child notebooks by ZTOPICID or Z_PK parent', () => {
+    const folders = NotebookFolders.fromDatabase(withTopics([
+      { Z_PK: 1, ZTOPICID: 'ROOT0000-1', ZTITLE: 'Course: Biology' },
+      { Z_PK: 2, ZTOPICID: 'CHAP0000-1', ZTITLE: 'Chapter #1', ZPARENT_TOPIC: 'ROOT0000-1' },
+      { Z_PK: 3, ZTOPICID: 'SECT0000-1', ZTITLE: 'Cells', ZPARENT_TOPIC: 2 },
+      { Z_PK: 4, ZTOPICID: 'LOST0000-1', ZTITLE: 'Orphan', parentTopicId: 'GONE' }
+    ]));
+
+    expect(folders.getFolder('ROOT0000-1')).toBe('Course Biology');
+    expect(folders.getFolder('CHAP0000-1')).toBe('Course Biology/Chapter 1');
+    expect(folders.getFolder('SECT0000-1')).toBe('Course Biology/Chapter 1/Cells');
+    expect(folders.getFolder('LOST0000-1')).toBe('Orphan');
+    expect(folders.getFolder('UNKNOWN')).toBe('');
+    expect(folders.getFolder(null)).toBe('');
+  });
+
+  it('tells sibling notebooks with the same name apart by their id', () => {
+    const folders = NotebookFolders.fromDatabase(withTopics([
+      { ZTOPICID: 'AAAAAAAA-1', ZTITLE: 'Reading' },
+      { ZTOPICID: 'BBBBBBBB-2', ZTITLE: 'reading' },
+      { ZTOPICID: 'CCCCCCCC-3', ZTITLE: 'Reading', ZPARENT_TOPIC: 'AAAAAAAA-1' },
+      { ZTOPICID: 'DDDDDDDD-4', ZTITLE: '???' }
+    ]));
+
+    expect(folders.getFolder('AAAAAAAA-1')).toBe('Reading');
+    expect(folders.getFolder('BBBBBBBB-2')).toBe('reading (BBBBBBBB)');
+    expect(folders.getFolder('CCCCCCCC-3')).toBe('Reading/Reading');
+    expect(folders.getFolder('DDDDDDDD-4')).toBe('Notebook DDDDDDDD');
+  });
+
+  it('stops at parent cycles and counts the notebooks notes belong to', () => {
+    const folders = new NotebookFolders([
+      { topicId: 'A', title: 'One', parentId: 'B' },
+      { topicId: 'B', title: 'Two', parentId: 'A' }
+    ]);
+
+    expect(folders.getFolder('A')).toBe('Two/One');
+    expect(folders.getFolder('B')).toBe('One/Two');
+    expect(folders.countNotebooks([{ ZTOPICID: 'A' }, { ZTOPICID: 'A' }, { ZTOPICID: 'B' }, { ZTOPICID: 'X' }])).toBe(2);
+  });
+});
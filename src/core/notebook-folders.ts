@@ -0,0 +1,90 @@
+/**
+ * Notebook Folders
+ * Maps each notebook (ZTOPIC row) to the folder its notes are written to, named
+ * from the topic title. Nested topics (ZPARENT_TOPIC / parentTopicId, given as a
+ * ZTOPICID or a Z_PK) become nested folders; sibling notebooks with the same
+ * title are told apart by the start of their id.
+ */
+
+import { DatabaseData } from './margin-note-importer';
+import { sanitizeFileName } from '../utils/file-names';
+
+interface NotebookEntry {
+  topicId: string;
+  title: string;
+  parentId?: string;
+}
+
+export class NotebookFolders {
+  private folders = new Map<string, string>(); // ZTOPICID -> folder relative to the output folder
+
+  constructor(notebooks: NotebookEntry[]) {
+    const entries = new Map(notebooks.map(notebook => [notebook.topicId, notebook]));
+    const names = this.assignNames(notebooks);
+
+    for (const notebook of notebooks) {
+      const segments: string[] = [];
+      const seen = new Set<string>();
+      for (let current: NotebookEntry | undefined = notebook; current && !seen.has(current.topicId);
+           current = current.parentId ? entries.get(current.parentId) : undefined) {
+        seen.add(current.topicId);
+        segments.unshift(names.get(current.topicId)!);
+      }
+      this.folders.set(notebook.topicId, segments.join('/'));
+    }
+  }
+
+  /**
+   * Folders for the notebooks of a package
+   */
+  static fromDatabase(databaseData: DatabaseData): NotebookFolders {
+    const topics = (databaseData.topics || []).filter(topic => topic.ZTOPICID);
+    const idsByPk = new Map<string, string>(topics.map(topic => [String(topic.Z_PK), String(topic.ZTOPICID)]));
+    const topicIds = new Set(topics.map(topic => String(topic.ZTOPICID)));
+
+    return new NotebookFolders(topics.map(topic => {
+      const parent = topic.ZPARENT_TOPIC ?? topic.parentTopicId;
+      const parentKey = parent === null || parent === undefined || parent === '' ? undefined : String(parent);
+      const parentId = parentKey && (topicIds.has(parentKey) ? parentKey : idsByPk.get(parentKey));
+      return {
+        topicId: String(topic.ZTOPICID),
+        title: String(topic.ZTITLE || ''),
+        parentId: parentId && parentId !== String(topic.ZTOPICID) ? parentId : undefined
+      };
+    }));
+  }
+
+  /**
+   * Folder of a notebook; '' for notes without a known notebook
+   */
+  getFolder(topicId: string | null | undefined): string {
+    return topicId ? this.folders.get(String(topicId)) || '' : '';
+  }
+
+  /**
+   * Number of distinct notebooks the given notes belong to
+   */
+  countNotebooks(booknotes: any[]): number {
+    return new Set(booknotes.map(row => this.getFolder(row.ZTOPICID)).filter(Boolean)).size;
+  }
+
+  /**
+   * Folder name per notebook, unique among its siblings
+   */
+  private assignNames(notebooks: NotebookEntry[]): Map<string, string> {
+    const names = new Map<string, string>();
+    const used = new Set<string>();
+
+    for (const notebook of notebooks) {
+      let name = sanitizeFileName(notebook.title, '') || `Notebook ${notebook.topicId.substring(0, 8)}`;
+      const key = (candidate: string) => `${notebook.parentId || ''}/${candidate.toLowerCase()}`;
+      if (used.has(key(name))) {
+        name = `${name} (${notebook.topicId.substring(0, 8)})`;
+      }
+      used.add(key(name));
+      names.set(notebook.topicId, name);
+    }
+
+    return names;
+  }
+}
@@ -0,0 +1,32 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { NotebookOverviewExporter } from './notebook-overview';
+import { DatabaseData } from './margin-note-importer';
+import { MemoryVault } from '../testing/memory-vault';
+import { loadSamplePackage } from '../testing/sample-package';
+
+describe('NotebookOverviewExporter on the sample notebook', () => {
+  let databaseData: DatabaseData;
+
+  beforeAll(async () => {
+    databaseData = await loadSamplePackage();
+  });
+
+  it('names every note type and strips # from the overview names', async () => {
+    const vault = new MemoryVault();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const written = await new NotebookOverviewExporter({ outputDirectory: 'MarginNote', vaultAdapter: vault })
+      .exportOverviews(databaseData, {});
+    vi.restoreAllMocks();
+
+    expect(written).toContain('MarginNote/Doc1 1 Overview.md');
+    for (const path of written) {
+      const types = (vault.files.get(path) as string).split('## Notes by type')[1].split('\n## ')[0];
+      expect(types).not.toMatch(/type_\d+/);
+    }
+
+    const doc1 = vault.files.get('MarginNote/Doc1 1 Overview.md') as string;
+    expect(doc1).toMatch(/\| drawing \| 1 \|/);
+    const deck = vault.files.get('MarginNote/RC1 Overview.md') as string;
+    expect(deck).toMatch(/\| review-card \| 15 \|/);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Notebook Overview
+ * Writes one overview note (a map of content) per imported notebook: the
+ * topic's metadata, the documents it covers, note counts by type and colour, a
+ * timeline of highlight activity and links to every card in mind map order
+ */
+
+import { DatabaseData } from './margin-note-importer';
+import { DocumentRegistry, normalizeDocMd5 } from './document-registry';
+import { loadNotesByTopic, renderNoteLinks } from './note-tree';
+import { MNTopicImpl } from '../models/types';
+import { parseNoteType } from '../models/MbBookNote';
+import { sanitizeFileName, uniqueFileName } from '../utils/file-names';
+import { ColorRule, HighlightColorizer, parseHighlightStyle } from '../utils/highlight-colors';
+import { VaultIO } from '../utils/vault-io';
+import { mergeProtectedContent } from '../utils/protected-regions';
+import { formatFrontmatter } from '../utils/yaml';
+import { formatDate } from '../utils/template-engine';
+
+export interface NotebookOverviewOptions {
+  outputDirectory: string;
+  vaultAdapter?: any;
+  preserveUserContent?: boolean; // Carry protected regions of existing overviews over (default: true)
+  colorTable?: ColorRule[];
+  documents?: DocumentRegistry; // Titles and vault PDFs; read from the package when unset
+}
+
+interface Count {
+  label: string;
+  count: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class NotebookOverviewExporter {
+  private options: NotebookOverviewOptions;
+  private io: VaultIO;
+  private colorizer: HighlightColorizer;
+
+  constructor(options: NotebookOverviewOptions) {
+    this.options = options;
+    this.io = new VaultIO(options.vaultAdapter);
+    this.colorizer = new HighlightColorizer(options.colorTable);
+  }
+
+  /**
+   * Write one overview per notebook that has imported notes; returns the paths of the written notes
+   */
+  async exportOverviews(databaseData: DatabaseData, noteFiles: Record<string, string>): Promise<string[]> {
+    const documents = this.options.documents || DocumentRegistry.fromDatabase(databaseData, []);
+    const notesByTopic = loadNotesByTopic(databaseData);
+    const topics = new Map<string, MNTopicImpl>();
+    for (const row of databaseData.topics || []) {
+      if (row.ZTOPICID) topics.set(String(row.ZTOPICID), MNTopicImpl.fromDatabaseRow(row));
+    }
+
+    const rowsByTopic = new Map<string, any[]>();
+    for (const row of databaseData.booknotes) {
+      if (!row.ZNOTEID) continue;
+      const topicId = row.ZTOPICID ? String(row.ZTOPICID) : 'untitled';
+      if (!rowsByTopic.has(topicId)) {
+        rowsByTopic.set(topicId, []);
+      }
+      rowsByTopic.get(topicId)!.push(row);
+    }
+
+    await this.io.ensureDirectory(this.options.outputDirectory);
+
+    const written: string[] = [];
+    const usedNames = new Set<string>();
+    for (const [topicId, rows] of rowsByTopic) {
+      const topic = topics.get(topicId) || new MNTopicImpl(topicId, '');
+      const title = topic.title.trim() || (topicId === 'untitled' ? 'Notes without notebook' : `Notebook ${topicId.substring(0, 8)}`);
+
+      const name = uniqueFileName(`${sanitizeFileName(title)} Overview`, topicId, usedNames);
+      const path = `${this.options.outputDirectory}/${name}.md`;
+
+      const roots = (notesByTopic.get(topicId) || []).filter(note => !note.parentNote);
+      try {
+        let content = this.renderOverview(title, topic, rows, renderNoteLinks(roots, noteFiles), documents);
+        if (this.options.preserveUserContent !== false && await this.io.exists(path)) {
+          content = mergeProtectedContent(content, await this.io.read(path));
+        }
+        await this.io.write(path, content);
+        written.push(path);
+      } catch (error) {
+        console.warn(`Failed to write notebook overview ${path}:`, error);
+      }
+    }
+
+    console.log(`Notebook overviews: ${written.length} overviews written`);
+    return written;
+  }
+
+  private renderOverview(title: string, topic: MNTopicImpl, rows: any[], noteLinks: string[], documents: DocumentRegistry): string {
+    const documentCounts = countBy(rows.filter(row => row.ZBOOKMD5), row => {
+      const md5 = normalizeDocMd5(row.ZBOOKMD5);
+      const document = documents.getDocument(md5);
+      const label = document?.title || document?.file || `Document ${md5.substring(0, 8)}`;
+      return document?.pdfPath ? `[[${document.pdfPath}|${label.replace(/[|[\]]/g, ' ').trim()}]]` : label;
+    });
+    const typeCounts = countBy(rows, row => parseNoteType(row.ZTYPE));
+    const colorCounts = countBy(rows, row => {
+      const style = parseHighlightStyle(row.ZHIGHLIGHT_STYLE);
+      return style ? this.colorizer.getName(style.colorIndex) || `Colour ${style.colorIndex}` : 'No colour';
+    });
+
+    const lines: string[] = [];
+    const frontmatter = formatFrontmatter({
+      title,
+      topicId: topic.topicId || undefined,
+      type: topic.topicType,
+      author: topic.author || undefined,
+      created: topic.createDate,
+      modified: topic.modifyDate,
+      documents: documentCounts.map(document => document.label),
+      notes: rows.length
+    });
+    if (frontmatter) lines.push(frontmatter, '');
+
+    lines.push(`# ${title}`, '');
+
+    if (documentCounts.length > 0) {
+      lines.push('## Documents', '');
+      for (const { label, count } of documentCounts) {
+        lines.push(`- ${label} (${formatCount(count, 'note')})`);
+      }
+      lines.push('');
+    }
+
+    lines.push('## Notes by type', '', ...renderTable('Type', typeCounts), '');
+    lines.push('## Notes by colour', '', ...renderTable('Colour', colorCounts), '');
+
+    const timeline = this.buildTimeline(rows);
+    if (timeline.length > 0) {
+      lines.push('## Highlight activity', '');
+      for (const { label, count } of timeline) {
+        lines.push(`- ${label}: ${formatCount(count, 'note')}`);
+      }
+      lines.push('');
+    }
+
+    lines.push('## Cards', '', ...noteLinks, '');
+    lines.push('---', '*Imported from MarginNote*');
+    return lines.join('\n');
+  }
+
+  /**
+   * Notes per day by highlight date, or per month when the notebook spans more than a month
+   */
+  private buildTimeline(rows: any[]): Count[] {
+    const dates = rows
+      .map(row => Number(row.ZHIGHLIGHT_DATE))
+      .filter(timestamp => timestamp > 0)
+      .map(timestamp => new Date(timestamp * 1000 + 978307200000))
+      .sort((a, b) => a.getTime() - b.getTime());
+    if (dates.length === 0) return [];
+
+    const byMonth = dates[dates.length - 1].getTime() - dates[0].getTime() > 31 * DAY_MS;
+    return countBy(dates, date => formatDate(date, byMonth ? 'YYYY-MM' : 'YYYY-MM-DD'), false);
+  }
+}
+
+/**
+ * Counts per label, most frequent first (or in first-seen order)
+ */
+function countBy<T>(items: T[], getLabel: (item: T) => string, byCount: boolean = true): Count[] {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    const label = getLabel(item);
+    counts.set(label, (counts.get(label) || 0) + 1);
+  }
+
+  const list = Array.from(counts, ([label, count]) => ({ label, count }));
+  return byCount ? list.sort((a, b) => b.count - a.count) : list;
+}
+
+function renderTable(heading: string, counts: Count[]): string[] {
+  return [
+    `| ${heading} | Notes |`,
+    '| --- | ---: |',
+    ...counts.map(({ label, count }) => `| ${label.replace(/\|/g, '\\|')} | ${count} |`)
+  ];
+}
+
+function formatCount(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
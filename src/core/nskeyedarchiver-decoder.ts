@@ -5,6 +5,8 @@
  * Based on the pattern from working_export.ts that was tested and verified.
  */
 
+import { decodePencilKitDrawing, isPencilKitDrawing } from './pencilkit-drawing';
+
 // Keep the original interfaces for compatibility
 export interface NSKeyedArchiverOptions {
     strictMode?: boolean;
@@ -29,6 +31,23 @@ export interface ZHighlightsData {
     coordinates: Record<string, any>;
 }
 
+export interface InkPoint {
+    x: number;
+    y: number;
+}
+
+export interface InkStroke {
+    points: InkPoint[];
+    color: string; // CSS colour, e.g. "#1e90ff"
+    opacity: number;
+    width: number;
+}
+
+export interface InkDrawingData {
+    type: string;
+    strokes: InkStroke[];
+}
+
 interface NSArchive {
   $archiver: string;
   $version: number;
@@ -93,6 +112,53 @@ export class NSKeyedArchiverDecoder {
         }
     }
 
+    /**
+     * Unwrap media stored as an archived NSData blob (ZMEDIA.ZDATA).
+     * Returns the largest data object inside the plist, or the bytes unchanged
+     * when they are not a binary plist.
+     */
+    unwrapMediaData(binaryData: any): Uint8Array | null {
+        if (!binaryData) {
+            return null;
+        }
+
+        try {
+            const buffer = this.ensureBuffer(binaryData);
+            if (buffer.length < 8 || buffer.toString('latin1', 0, 6) !== 'bplist') {
+                return new Uint8Array(buffer);
+            }
+
+            const parsed = this.getBplistParser().parseBuffer(buffer);
+            const payload = this.findLargestData(parsed, new Set());
+            return new Uint8Array(payload || buffer);
+        } catch (error) {
+            console.warn('Failed to unwrap media data:', error);
+            if (this.strictMode) {
+                throw error;
+            }
+            return null;
+        }
+    }
+
+    private findLargestData(obj: any, visited: Set<any>): Buffer | null {
+        if (Buffer.isBuffer(obj)) {
+            return obj;
+        }
+        if (obj === null || typeof obj !== 'object' || visited.has(obj)) {
+            return null;
+        }
+        visited.add(obj);
+
+        let largest: Buffer | null = null;
+        for (const value of Object.values(obj)) {
+            const found = this.findLargestData(value, visited);
+            if (found && (!largest || found.length > largest.length)) {
+                largest = found;
+            }
+        }
+        return largest;
+    }
+
     /**
      * Main NSKeyedArchiver decoding function (from working_export.ts)
      */
@@ -180,7 +246,7 @@ export class NSKeyedArchiverDecoder {
     }
 
     private resolveUIDs(obj: any, objectsArray: any[]): any {
-        if (obj === null || typeof obj !== 'object') {
+        if (obj === null || typeof obj !== 'object' || Buffer.isBuffer(obj)) {
             return obj;
         }
         if (Array.isArray(obj)) {
@@ -204,6 +270,11 @@ export class NSKeyedArchiverDecoder {
             return obj === '$null' ? null : obj;
         }
 
+        // Case 1b: Raw data (NSData, NSColor components) stays as a Buffer
+        if (Buffer.isBuffer(obj)) {
+            return obj;
+        }
+
         // Case 2: Filter out explicit '$null' object
         if (obj === '$null') {
             return null;
@@ -376,9 +447,35 @@ export class NSKeyedArchiverDecoder {
         };
     }
 
-    // Legacy methods for compatibility - delegate to new implementation
-    decodeMediaData(binaryData: any): any {
-        return { type: 'unknown', note: 'Media decoding not implemented in this version' };
+    /**
+     * Decode a handwriting payload from ZMEDIA: PencilKit drawing data archived as NSData.
+     * Returns `{ type: 'ink', strokes }` for a drawing with strokes, otherwise
+     * `{ type: 'unknown' }` (raster images, highlight rects, ...).
+     */
+    decodeMediaData(binaryData: any): InkDrawingData | { type: string; note: string } {
+        if (!binaryData) {
+            return { type: 'unknown', note: 'No media data' };
+        }
+
+        try {
+            const payload = this.unwrapMediaData(binaryData);
+            if (!payload || !isPencilKitDrawing(payload)) {
+                return { type: 'unknown', note: 'Media is not a PencilKit drawing' };
+            }
+
+            const strokes = decodePencilKitDrawing(payload);
+            if (strokes.length === 0) {
+                return { type: 'unknown', note: 'No strokes found in drawing' };
+            }
+
+            return { type: 'ink', strokes };
+        } catch (error) {
+            console.warn('Failed to decode ink data:', error);
+            if (this.strictMode) {
+                throw error;
+            }
+            return { type: 'unknown', note: `Ink decoding failed: ${error}` };
+        }
     }
 
     // Utility methods that might be called by other parts of the plugin
@@ -9,9 +9,14 @@
 
 import { ContentGroup, MNBookNote, MNTopic, MNMediaAttachment } from '../models/types';
 import { TextProcessor } from '../utils/text-utils';
+import { ColorRule, HighlightColorizer } from '../utils/highlight-colors';
+import { DocumentRegistry } from './document-registry';
+import { CompiledTemplate } from '../utils/template-engine';
+import { compileNoteTemplate, createMNBookNoteContext } from './note-template';
+import { sanitizeFileName } from '../utils/file-names';
 
 export interface ObsidianConfig {
-    noteTemplate: string;
+    noteTemplate: string; // See utils/template-engine; {title}/{content}/{metadata} still work
     includeCoordinates: boolean;
     includeMediaReferences: boolean;
     preserveHierarchy: boolean;
@@ -28,6 +33,8 @@ export interface ObsidianConfig {
         media: boolean;
         coordinates: boolean;
     };
+    colorTable?: ColorRule[]; // Highlight colour -> tag / callout / ==highlight== styling
+    documents?: DocumentRegistry; // Source PDFs in the vault, for page links
 }
 
 export interface ConversionStatistics {
@@ -54,9 +61,15 @@ export class ObsidianConverter {
     private config: ObsidianConfig;
     private textProcessor: typeof TextProcessor;
     private conversionStats: ConversionStatistics;
+    private mediaPaths: Map<string, string>; // MD5 hash -> exported attachment path
+    private colorizer: HighlightColorizer;
+    private template: CompiledTemplate;
 
-    constructor(config?: Partial<ObsidianConfig>) {
+    constructor(config?: Partial<ObsidianConfig>, mediaPaths: Map<string, string> = new Map()) {
         this.config = { ...this.getDefaultConfig(), ...config };
+        this.mediaPaths = mediaPaths;
+        this.colorizer = new HighlightColorizer(this.config.colorTable);
+        this.template = compileNoteTemplate(this.config.noteTemplate);
         this.textProcessor = TextProcessor;
         this.conversionStats = {
             notesConverted: 0,
@@ -72,11 +85,11 @@ export class ObsidianConverter {
      */
     private getDefaultConfig(): ObsidianConfig {
         return {
-            noteTemplate: `# {title}
+            noteTemplate: `# {{title}}
 
-{content}
+{{content}}
 
-{metadata}`,
+{{metadata}}`,
             includeCoordinates: true,
             includeMediaReferences: true,
             preserveHierarchy: true,
@@ -159,8 +172,9 @@ export class ObsidianConverter {
         }
 
         // Tags section
-        if (note.hashtags.length > 0 && this.config.contentSections.tags) {
-            contentSections.push(this.formatTagsSection(note.hashtags));
+        const colorTags = this.colorizer.getTags(note.colorIndex);
+        if ((note.hashtags.length > 0 || colorTags.length > 0) && this.config.contentSections.tags) {
+            contentSections.push(this.formatTagsSection(note.hashtags, colorTags));
         }
 
         // Links section
@@ -183,10 +197,14 @@ export class ObsidianConverter {
         }
 
         // Apply template
-        const markdown = this.config.noteTemplate
-            .replace('{title}', title)
-            .replace('{content}', content)
-            .replace('{metadata}', metadata);
+        const markdown = this.template.render(createMNBookNoteContext(note, {
+            title,
+            content,
+            metadata,
+            topic: topic?.title,
+            colorizer: this.colorizer,
+            documents: this.config.documents
+        }));
 
         return markdown.trim();
     }
@@ -249,14 +267,24 @@ export class ObsidianConverter {
 
         // Main highlight text
         if (note.excerptText) {
-            // Format as blockquote
-            const highlightLines = note.excerptText.trim().split('\n');
-            for (const line of highlightLines) {
-                if (line.trim()) {
-                    content.push(`> ${line}`);
+            // Format as blockquote, or as a callout / ==highlight== per the colour table
+            if (this.colorizer.isStyled(note.colorIndex)) {
+                content.push(...this.colorizer.formatExcerpt(note.excerptText, note.colorIndex));
+            } else {
+                const highlightLines = note.excerptText.trim().split('\n');
+                for (const line of highlightLines) {
+                    if (line.trim()) {
+                        content.push(`> ${line}`);
+                    }
                 }
             }
             content.push("");
+
+            const sourceLinks = this.config.documents ? this.config.documents.formatSourceLinks(note.docMd5, note) : '';
+            if (sourceLinks) {
+                content.push(`**Source:** ${sourceLinks}`);
+                content.push("");
+            }
         }
 
         // Coordinate information if available and enabled
@@ -322,8 +350,8 @@ export class ObsidianConverter {
     /**
      * Format tags section
      */
-    private formatTagsSection(hashtags: string[]): string {
-        if (hashtags.length === 0) return '';
+    private formatTagsSection(hashtags: string[], colorTags: string[] = []): string {
+        if (hashtags.length === 0 && colorTags.length === 0) return '';
 
         // Convert to Obsidian tag format
         const obsidianTags: string[] = [];
@@ -337,6 +365,8 @@ export class ObsidianConverter {
             }
         }
 
+        obsidianTags.push(...colorTags);
+
         if (obsidianTags.length > 0) {
             return `**Tags:** ${obsidianTags.join(' ')}`;
         }
@@ -381,7 +411,7 @@ export class ObsidianConverter {
                     if (this.config.includeMediaReferences) {
                         const altText = `Image ${media.mediaHash.substring(0, 8)}`;
                         if (media.mediaData && media.mediaData.toMarkdownImage) {
-                            const markdownImg = media.mediaData.toMarkdownImage(altText);
+                            const markdownImg = media.mediaData.toMarkdownImage(altText, this.mediaPaths.get(media.mediaHash));
                             if (markdownImg) {
                                 content.push(markdownImg);
                                 content.push("");
@@ -394,7 +424,16 @@ export class ObsidianConverter {
                     // Fallback to reference
                     content.push(`![Image](${media.mediaHash})`);
                 } else if (media.isInkDrawing()) {
-                    content.push(`🖊️ **Drawing:** \`${media.mediaHash}\``);
+                    if (this.config.includeMediaReferences && this.mediaPaths.has(media.mediaHash)) {
+                        content.push(`![[${this.mediaPaths.get(media.mediaHash)}|Drawing ${media.mediaHash.substring(0, 8)}]]`);
+                        this.conversionStats.mediaIncluded++;
+                    } else {
+                        content.push(`🖊️ **Drawing:** \`${media.mediaHash}\``);
+                    }
+                } else if (this.config.includeMediaReferences && this.mediaPaths.has(media.mediaHash)) {
+                    // Exported attachment such as a PDF snippet
+                    content.push(`![[${this.mediaPaths.get(media.mediaHash)}]]`);
+                    this.conversionStats.mediaIncluded++;
                 } else {
                     content.push(`📎 **Attachment:** \`${media.mediaHash}\``);
                 }
@@ -515,9 +554,8 @@ export class ObsidianConverter {
     generateFilename(note: MNBookNote, topic?: MNTopic): string {
         const title = this.generateNoteTitle(note, topic);
 
-        // Clean filename
-        let safeFilename = title.replace(/[<>:"/\\|?*]/g, '');
-        safeFilename = safeFilename.trim();
+        // Clean filename; wikilinks to it break on # ^ [ ] |
+        let safeFilename = sanitizeFileName(title, '');
 
         // Limit length
         if (safeFilename.length > 100) {
@@ -553,8 +591,9 @@ export class ObsidianConverter {
 export function convertToObsidian(
     contentGroups: ContentGroup[], 
     topics: Map<string, MNTopic>,
-    config?: Partial<ObsidianConfig>
+    config?: Partial<ObsidianConfig>,
+    mediaPaths?: Map<string, string>
 ): Map<string, string> {
-    const converter = new ObsidianConverter(config);
+    const converter = new ObsidianConverter(config, mediaPaths);
     return converter.convertContentGroups(contentGroups, topics);
 }
\ No newline at end of file
@@ -0,0 +1,54 @@
+/**
+ * Outline Exporter
+ * Writes one outline note per topic: the mind map tree as indented [[wikilinks]]
+ * to the imported notes
+ */
+
+import { DatabaseData } from './margin-note-importer';
+import { VaultIO } from '../utils/vault-io';
+import { loadNotesByTopic, loadTopicTitles, renderOutline } from './note-tree';
+import { sanitizeFileName, uniqueFileName } from '../utils/file-names';
+
+export interface OutlineExportOptions {
+  outputDirectory: string;
+  vaultAdapter?: any;
+}
+
+export class OutlineExporter {
+  private options: OutlineExportOptions;
+  private io: VaultIO;
+
+  constructor(options: OutlineExportOptions) {
+    this.options = options;
+    this.io = new VaultIO(options.vaultAdapter);
+  }
+
+  /**
+   * Write one outline per topic; returns the paths of the written notes
+   */
+  async exportOutlines(databaseData: DatabaseData, noteFiles: Record<string, string>): Promise<string[]> {
+    const topicTitles = loadTopicTitles(databaseData);
+    const notesByTopic = loadNotesByTopic(databaseData);
+
+    await this.io.ensureDirectory(this.options.outputDirectory);
+
+    const written: string[] = [];
+    const usedNames = new Set<string>();
+    for (const [topicId, notes] of notesByTopic) {
+      const title = topicTitles.get(topicId) || topicId;
+      const roots = notes.filter(note => !note.parentNote);
+      const name = uniqueFileName(`${sanitizeFileName(title)} Outline`, topicId, usedNames);
+      const path = `${this.options.outputDirectory}/${name}.md`;
+
+      try {
+        await this.io.write(path, renderOutline(title, roots, noteFiles));
+        written.push(path);
+      } catch (error) {
+        console.warn(`Failed to write outline ${path}:`, error);
+      }
+    }
+
+    console.log(`Outline export: ${written.length} outlines written`);
+    return written;
+  }
+}
@@ -0,0 +1,62 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { decodePencilKitDrawing, isPencilKitDrawing } from './pencilkit-drawing';
+import { MediaExporter } from './media-exporter';
+import { NSKeyedArchiverDecoder } from './nskeyedarchiver-decoder';
+import { renderInkSvg } from './ink-renderer';
+import { DatabaseData } from './margin-note-importer';
+import { MediaType } from '../models/types';
+import { loadSamplePackage } from '../testing/sample-package';
+
+const DRAWING_MD5 = '7d4925069f30bf6a6cc21df16fcb3f32'; // Ink of "Child5 is a picture with a drawing"
+const HANDWRITING_MD5 = '79425db9c9600a92cece6b2e23a8b33a'; // Handwritten note in "Doc1 #1", 18-byte points
+
+describe('PencilKit drawings in the sample notebook', () => {
+  let databaseData: DatabaseData;
+
+  beforeAll(async () => {
+    databaseData = await loadSamplePackage();
+  });
+
+  it('decodes the strokes of the drawing', () => {
+    const row = databaseData.media.find(media => media.ZMD5 === DRAWING_MD5);
+    const payload = new NSKeyedArchiverDecoder().unwrapMediaData(row.ZDATA)!;
+    expect(isPencilKitDrawing(payload)).toBe(true);
+
+    const strokes = decodePencilKitDrawing(payload);
+    expect(strokes).toHaveLength(1);
+    expect(strokes[0].points).toHaveLength(129);
+    expect(strokes[0].color).toBe('#000000');
+    expect(strokes[0].opacity).toBe(1);
+
+    // The stroke transform scales the points into the stroke's bounds (x 746-1037, y -42-91)
+    for (const point of strokes[0].points) {
+      expect(point.x).toBeGreaterThanOrEqual(746);
+      expect(point.x).toBeLessThanOrEqual(746 + 291);
+      expect(point.y).toBeGreaterThanOrEqual(-42);
+      expect(point.y).toBeLessThanOrEqual(-42 + 133);
+    }
+  });
+
+  it('reads points of any record length', () => {
+    const row = databaseData.media.find(media => media.ZMD5 === HANDWRITING_MD5);
+    const strokes = decodePencilKitDrawing(new NSKeyedArchiverDecoder().unwrapMediaData(row.ZDATA)!);
+    expect(strokes.length).toBeGreaterThan(1);
+    expect(strokes[0].points).toHaveLength(51);
+    expect(strokes.every(stroke => stroke.width > 0 && stroke.points.every(point => isFinite(point.x) && isFinite(point.y)))).toBe(true);
+  });
+
+  it('takes only the drawings as ink and renders them as SVG', () => {
+    const media = MediaExporter.loadMedia(databaseData.media);
+    const drawings = media.filter(item => item.mediaType === MediaType.APPLE_INK);
+    expect(Array.from(new Set(drawings.map(item => item.mediaHash))).sort()).toEqual([HANDWRITING_MD5, DRAWING_MD5]);
+
+    const svg = renderInkSvg(drawings.find(item => item.mediaHash === DRAWING_MD5)!.parsedContent);
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" viewBox="[\d.]+ -?[\d.]+ [\d.]+ [\d.]+"/);
+    expect(svg.match(/<path d="M[\d.]+ -?[\d.]+( L[\d.]+ -?[\d.]+){128}" fill="none" stroke="#000000"/g)).toHaveLength(1);
+  });
+
+  it('rejects other data', () => {
+    expect(isPencilKitDrawing(new TextEncoder().encode('[{"page":1}]'))).toBe(false);
+    expect(() => decodePencilKitDrawing(new Uint8Array([1, 2, 3]))).toThrow('Not PencilKit drawing data');
+  });
+});
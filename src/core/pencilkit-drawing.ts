@@ -0,0 +1,173 @@
+/**
+ * PencilKit Drawings
+ * MarginNote stores handwriting as PencilKit drawing data (PKDrawing's data
+ * representation), archived as the root NSData object of a ZMEDIA row. The data
+ * is a "wrd\xF0" header and a 2-byte version followed by a protocol buffer:
+ *
+ *   drawing  4: ink (repeated)     1: colour {1 r, 2 g, 3 b, 4 a}, 2: ink type ("com.apple.ink.pen")
+ *            5: stroke (repeated)  4: ink index, 5: path, 7: transform {1 a, 2 b, 3 c, 4 d, 5 tx, 6 ty}
+ *   path     3: point count, 7: packed points
+ *
+ * Each packed point starts with float32 x, y, time offset and size.
+ */
+
+import type { InkPoint, InkStroke } from './nskeyedarchiver-decoder';
+
+const MAGIC = [0x77, 0x72, 0x64, 0xf0]; // "wrd\xF0"
+const HEADER_LENGTH = 6;
+const MIN_POINT_LENGTH = 16; // x, y, time offset, size
+
+interface Field {
+  field: number;
+  wireType: number;
+  value: number | Uint8Array; // Varints and fixed-width values as numbers, length-delimited as bytes
+}
+
+interface Ink {
+  color: string;
+  opacity: number;
+}
+
+type Transform = [number, number, number, number, number, number]; // a, b, c, d, tx, ty
+
+/**
+ * Whether the bytes are PencilKit drawing data
+ */
+export function isPencilKitDrawing(bytes: Uint8Array): boolean {
+  return bytes.length > HEADER_LENGTH && MAGIC.every((byte, index) => bytes[index] === byte);
+}
+
+/**
+ * Strokes of a PencilKit drawing in drawing coordinates (the stroke transforms applied)
+ */
+export function decodePencilKitDrawing(bytes: Uint8Array): InkStroke[] {
+  if (!isPencilKitDrawing(bytes)) {
+    throw new Error('Not PencilKit drawing data');
+  }
+
+  const fields = readMessage(bytes.subarray(HEADER_LENGTH));
+  const inks = fields.filter(field => field.field === 4 && field.value instanceof Uint8Array)
+    .map(field => readInk(field.value as Uint8Array));
+
+  const strokes: InkStroke[] = [];
+  for (const field of fields) {
+    if (field.field !== 5 || !(field.value instanceof Uint8Array)) continue;
+
+    const stroke = readStroke(field.value, inks);
+    if (stroke) strokes.push(stroke);
+  }
+  return strokes;
+}
+
+function readInk(bytes: Uint8Array): Ink {
+  const color = readMessage(bytes).find(field => field.field === 1 && field.value instanceof Uint8Array);
+  const [r, g, b, a] = readFloats(color ? color.value as Uint8Array : undefined, [0, 0, 0, 1]);
+  const hex = [r, g, b]
+    .map(component => Math.max(0, Math.min(255, Math.round(component * 255))).toString(16).padStart(2, '0'))
+    .join('');
+  return { color: `#${hex}`, opacity: Math.max(0, Math.min(1, a)) };
+}
+
+function readStroke(bytes: Uint8Array, inks: Ink[]): InkStroke | null {
+  const fields = readMessage(bytes);
+  const inkIndex = fields.find(field => field.field === 4 && typeof field.value === 'number');
+  const path = fields.find(field => field.field === 5 && field.value instanceof Uint8Array);
+  const transformField = fields.find(field => field.field === 7 && field.value instanceof Uint8Array);
+  if (!path) return null;
+
+  const [a, b, c, d, tx, ty] = transformField
+    ? readFloats(transformField.value as Uint8Array, [0, 0, 0, 0, 0, 0]) as Transform
+    : [1, 0, 0, 1, 0, 0];
+  const scale = Math.sqrt(Math.abs(a * d - b * c)) || 1;
+
+  const pathFields = readMessage(path.value as Uint8Array);
+  const count = pathFields.find(field => field.field === 3 && typeof field.value === 'number')?.value as number | undefined;
+  const packed = pathFields.find(field => field.field === 7 && field.value instanceof Uint8Array)?.value as Uint8Array | undefined;
+  if (!count || !packed || packed.length % count !== 0 || packed.length / count < MIN_POINT_LENGTH) {
+    return null;
+  }
+
+  const stride = packed.length / count;
+  const view = new DataView(packed.buffer, packed.byteOffset, packed.byteLength);
+  const points: InkPoint[] = [];
+  let totalSize = 0;
+  for (let offset = 0; offset < packed.length; offset += stride) {
+    const x = view.getFloat32(offset, true);
+    const y = view.getFloat32(offset + 4, true);
+    const size = view.getFloat32(offset + 12, true);
+    if (!isFinite(x) || !isFinite(y)) continue;
+
+    points.push({ x: a * x + c * y + tx, y: b * x + d * y + ty });
+    totalSize += isFinite(size) ? size : 0;
+  }
+  if (points.length === 0) return null;
+
+  const ink = inks[typeof inkIndex?.value === 'number' ? inkIndex.value : 0] || { color: '#000000', opacity: 1 };
+  return {
+    points,
+    color: ink.color,
+    opacity: ink.opacity,
+    width: (totalSize / points.length) * scale || 1
+  };
+}
+
+/**
+ * Fields of a protocol buffer message, in order
+ */
+function readMessage(bytes: Uint8Array): Field[] {
+  const fields: Field[] = [];
+  let offset = 0;
+
+  const readVarint = (): number => {
+    let result = 0;
+    let multiplier = 1;
+    for (;;) {
+      if (offset >= bytes.length) throw new Error('Truncated PencilKit data');
+      const byte = bytes[offset++];
+      result += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) return result;
+      multiplier *= 128;
+    }
+  };
+
+  while (offset < bytes.length) {
+    const key = readVarint();
+    const field = Math.floor(key / 8);
+    const wireType = key & 7;
+
+    let value: number | Uint8Array;
+    if (wireType === 0) {
+      value = readVarint();
+    } else if (wireType === 1 || wireType === 5) {
+      const length = wireType === 1 ? 8 : 4;
+      if (offset + length > bytes.length) throw new Error('Truncated PencilKit data');
+      const view = new DataView(bytes.buffer, bytes.byteOffset + offset, length);
+      value = wireType === 1 ? view.getFloat64(0, true) : view.getFloat32(0, true);
+      offset += length;
+    } else if (wireType === 2) {
+      const length = readVarint();
+      if (offset + length > bytes.length) throw new Error('Truncated PencilKit data');
+      value = bytes.subarray(offset, offset + length);
+      offset += length;
+    } else {
+      throw new Error(`Unsupported protobuf wire type ${wireType} in PencilKit data`);
+    }
+
+    fields.push({ field, wireType, value });
+  }
+
+  return fields;
+}
+
+/**
+ * Float fields 1..n of a message, n being the number of defaults used for missing fields
+ */
+function readFloats(bytes: Uint8Array | undefined, defaults: number[]): number[] {
+  const values = [...defaults];
+  for (const field of bytes ? readMessage(bytes) : []) {
+    if (field.field >= 1 && field.field <= values.length && field.wireType === 5) {
+      values[field.field - 1] = field.value as number;
+    }
+  }
+  return values;
+}
@@ -0,0 +1,136 @@
+/**
+ * Property Schema
+ * Decides which fields of an imported note become Obsidian properties, under
+ * which name and with which type. Without a schema every field is written,
+ * keeping its nested structure.
+ *
+ * Text form, one property per line ("#" starts a comment):
+ *
+ *   noteId
+ *   page: startPage (number)
+ *   created: createDate (datetime)
+ *   first-highlight: textHighlight.0.highlight_text
+ */
+
+import { formatDate } from '../utils/template-engine';
+
+export type PropertyType = 'auto' | 'text' | 'number' | 'checkbox' | 'date' | 'datetime' | 'list';
+
+export interface PropertyRule {
+  field: string;      // Dotted path into the note fields
+  property: string;   // Property name in the frontmatter
+  type: PropertyType;
+}
+
+export const PROPERTY_TYPES: PropertyType[] = ['auto', 'text', 'number', 'checkbox', 'date', 'datetime', 'list'];
+
+const CORE_DATA_EPOCH = 978307200000; // 2001-01-01 in ms
+const RULE_PATTERN = /^(?:([^:()]+?)\s*:\s*)?([\w$.-]+)(?:\s*\(\s*(\w+)\s*\))?$/;
+
+/**
+ * Error thrown for a schema line that does not parse
+ */
+export class PropertySchemaError extends Error {
+  constructor(message: string, public line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'PropertySchemaError';
+  }
+}
+
+/**
+ * Parse the text form; an empty schema means "every field"
+ */
+export function parsePropertySchema(text: string): PropertyRule[] {
+  const rules: PropertyRule[] = [];
+
+  (text || '').split('\n').forEach((rawLine, index) => {
+    const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+    if (!line) return;
+
+    const match = line.match(RULE_PATTERN);
+    if (!match) {
+      throw new PropertySchemaError(`Invalid property "${line}"`, index + 1);
+    }
+
+    const type = (match[3] || 'auto').toLowerCase() as PropertyType;
+    if (!PROPERTY_TYPES.includes(type)) {
+      throw new PropertySchemaError(`Unknown property type "${match[3]}"`, index + 1);
+    }
+
+    rules.push({ field: match[2], property: (match[1] || match[2]).trim(), type });
+  });
+
+  return rules;
+}
+
+/**
+ * Build the properties for a note. Null and empty values are left out.
+ */
+export function applyPropertySchema(fields: Record<string, any>, rules: PropertyRule[] = []): Record<string, any> {
+  const properties: Record<string, any> = {};
+
+  if (rules.length === 0) {
+    for (const [key, value] of Object.entries(fields)) {
+      if (!isEmpty(value)) properties[key] = value;
+    }
+    return properties;
+  }
+
+  for (const rule of rules) {
+    const value = coerceValue(getField(fields, rule.field), rule.type);
+    if (!isEmpty(value)) {
+      properties[rule.property] = value;
+    }
+  }
+  return properties;
+}
+
+function getField(fields: Record<string, any>, path: string): any {
+  let value: any = fields;
+  for (const key of path.split('.')) {
+    if (value === null || value === undefined) return undefined;
+    value = value[key];
+  }
+  return value;
+}
+
+function coerceValue(value: any, type: PropertyType): any {
+  if (isEmpty(value)) return undefined;
+
+  switch (type) {
+    case 'text':
+      if (Array.isArray(value)) return value.map(item => String(item)).join(', ');
+      if (value instanceof Date) return value.toISOString();
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    case 'number': {
+      const number = typeof value === 'number' ? value : parseFloat(value);
+      return isNaN(number) ? undefined : number;
+    }
+    case 'checkbox':
+      return typeof value === 'string' ? !/^(0|false|no|off)?$/i.test(value.trim()) : !!value;
+    case 'date': {
+      const date = toDate(value);
+      return date ? formatDate(date, 'YYYY-MM-DD') : undefined;
+    }
+    case 'datetime':
+      return toDate(value);
+    case 'list':
+      return Array.isArray(value) ? value : [value];
+    default:
+      return value;
+  }
+}
+
+/**
+ * Dates, date strings, and numbers as MarginNote (Core Data) seconds since 2001
+ */
+function toDate(value: any): Date | undefined {
+  const date = value instanceof Date ? value
+    : typeof value === 'number' ? new Date(value * 1000 + CORE_DATA_EPOCH)
+    : new Date(String(value));
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function isEmpty(value: any): boolean {
+  return value === null || value === undefined || value === '';
+}
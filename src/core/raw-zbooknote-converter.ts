@@ -5,6 +5,7 @@
  */
 
 import { DatabaseData } from './margin-note-importer';
+import { ConversionResult, MarginNoteConverter } from './converter-registry';
 
 export interface RawConversionOptions {
   outputDirectory: string;
@@ -12,14 +13,7 @@ export interface RawConversionOptions {
   vaultAdapter?: any; // Obsidian vault adapter
 }
 
-export interface ConversionResult {
-  success: boolean;
-  notesCreated: number;
-  errors: string[];
-  outputFiles: string[];
-}
-
-export class RawZBookNoteConverter {
+export class RawZBookNoteConverter implements MarginNoteConverter {
   private options: RawConversionOptions;
   
   constructor(options: RawConversionOptions) {
@@ -37,7 +31,8 @@ export class RawZBookNoteConverter {
       success: false,
       notesCreated: 0,
       errors: [],
-      outputFiles: []
+      outputFiles: [],
+      noteFiles: {}
     };
     
     try {
@@ -55,6 +50,9 @@ export class RawZBookNoteConverter {
         try {
           const outputPath = await this.writeRawNoteToFile(zbooknoteRow, i);
           result.outputFiles.push(outputPath);
+          if (zbooknoteRow.ZNOTEID) {
+            result.noteFiles![zbooknoteRow.ZNOTEID] = `${this.options.outputDirectory}/${outputPath}`;
+          }
           result.notesCreated++;
           
           console.log(`Created: ${outputPath}`);
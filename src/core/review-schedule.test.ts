@@ -0,0 +1,50 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { ReviewScheduleWriter, formatDueDate, loadReviewSchedules } from './review-schedule';
+import { SimpleZBookNoteConverter } from './simple-zbooknote-converter';
+import { DatabaseData } from './margin-note-importer';
+import { MemoryVault } from '../testing/memory-vault';
+import { loadSamplePackage } from '../testing/sample-package';
+
+const CHILD4 = '521BBF05-4A26-4887-83C1-B1738FEA7029'; // "Child4 has a title", card B59C9296 in RC1
+
+describe('review schedules of the sample notebook', () => {
+  let databaseData: DatabaseData;
+
+  beforeAll(async () => {
+    databaseData = await loadSamplePackage();
+  });
+
+  it('reads the FSRS card state of the SpacedRepetition activities', () => {
+    const schedules = loadReviewSchedules(databaseData);
+    expect(databaseData.reviews).toHaveLength(20);
+    expect(schedules.size).toBe(20);
+
+    const schedule = schedules.get(CHILD4)!;
+    expect(schedule.reviewed!.toISOString()).toBe('2025-05-20T04:01:21.821Z');
+    expect(formatDueDate(schedule.due)).toBe('2025-05-20');
+    expect(schedule.interval).toBe(1);
+    expect(schedule.ease).toBe(173); // difficulty 6.81
+    expect(schedule.reviews).toBe(1);
+    expect(schedule.lapses).toBe(1);
+  });
+
+  it('writes sr-due, sr-interval and sr-ease into the imported notes', async () => {
+    const vault = new MemoryVault();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const result = await new SimpleZBookNoteConverter({ outputDirectory: 'MarginNote', vaultAdapter: vault, includeMedia: false })
+      .convertFromData(databaseData);
+    await new ReviewScheduleWriter({ vaultAdapter: vault }).writeSchedules(loadReviewSchedules(databaseData), result.noteFiles!);
+    vi.restoreAllMocks();
+
+    const file = result.noteFiles![CHILD4];
+    const note = vault.files.get(file) as string;
+    expect(note).toMatch(/^---\n[\s\S]*sr-due: 2025-05-20\n/);
+    expect(note).toContain('sr-interval: 1\n');
+    expect(note).toContain('sr-ease: 173\n');
+
+    const scheduled = Object.values(result.noteFiles!)
+      .filter(path => String(vault.files.get(path)).includes('sr-due:'));
+    expect(new Set(scheduled).size).toBe(15); // The deck's cards; 5 reviewed cards are gone from the package
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Review Schedule
+ * Reads MarginNote review/scheduling state and maps it to the fields used by
+ * Obsidian spaced-repetition plugins: sr-due / sr-interval / sr-ease frontmatter
+ * on notes and <!--SR:!due,interval,ease--> comments on deck cards.
+ *
+ * MarginNote 4 logs each review as a ZACTIVITY row (ZACTION 'SpacedRepetition')
+ * whose ZINFO holds the FSRS card state after the review:
+ * {"card":{"lastReview":<Core Data time>,"scheduledDays":n,"difficulty":1-10,"reps":n,"lapses":n,...}}
+ * Reviews are logged against the card rows of the review deck; their
+ * ZEVERNOTEID names the note the card was made from.
+ */
+
+import { DatabaseData } from './margin-note-importer';
+import { VaultIO } from '../utils/vault-io';
+import { setFrontmatterProperties } from '../utils/frontmatter';
+
+export interface ReviewSchedule {
+  noteId: string;
+  due: Date;
+  interval: number; // days
+  ease: number;     // SR plugin scale, 250 = 2.5x
+  reviews?: number;
+  lapses?: number;
+  reviewed?: Date;  // Last review, when known
+}
+
+export interface ReviewScheduleWriterOptions {
+  vaultAdapter?: any;
+}
+
+const DEFAULT_EASE = 250;
+const CORE_DATA_EPOCH = 978307200000; // 2001-01-01 in ms
+const DAY_SECONDS = 86400;
+const REVIEW_ACTION = 'SpacedRepetition';
+const MIN_EASE = 130; // FSRS difficulty 10; difficulty 1 maps to DEFAULT_EASE
+
+// Column names seen across MarginNote versions, compared without the Z prefix and underscores
+const NOTE_ID_COLUMNS = ['noteid', 'cardnoteid'];
+const DUE_COLUMNS = ['due', 'duedate', 'nextreview', 'nextreviewdate', 'nextdate', 'reviewdate'];
+const LAST_REVIEW_COLUMNS = ['lastreview', 'lastreviewdate', 'reviewedat', 'lastdate'];
+const INTERVAL_COLUMNS = ['interval', 'ivl', 'reviewinterval'];
+const EASE_COLUMNS = ['ease', 'easefactor', 'factor', 'efactor'];
+const REVIEWS_COLUMNS = ['reviews', 'reviewcount', 'reps', 'repetitions'];
+const LAPSES_COLUMNS = ['lapses', 'lapsecount', 'failcount'];
+
+/**
+ * Build review schedules by ZNOTEID from the review rows read by the database parser,
+ * keyed by the source note of each review card.
+ * Rows without a due date (or a last review date plus interval) are skipped;
+ * when a note has several rows the latest review (or else the latest due date) wins.
+ */
+export function loadReviewSchedules(databaseData: DatabaseData): Map<string, ReviewSchedule> {
+  const schedules = new Map<string, ReviewSchedule>();
+  const cardSources = new Map<string, string>();
+  for (const row of databaseData.booknotes) {
+    if (row.ZNOTEID && row.ZEVERNOTEID) {
+      cardSources.set(row.ZNOTEID, row.ZEVERNOTEID);
+    }
+  }
+
+  for (const row of databaseData.reviews || []) {
+    const cardId = pickColumn(row, NOTE_ID_COLUMNS);
+    if (!cardId) continue;
+    const noteId = cardSources.get(String(cardId)) || String(cardId);
+
+    if (row.ZACTION !== undefined || row.ZINFO !== undefined) {
+      const schedule = row.ZACTION === REVIEW_ACTION ? parseActivitySchedule(noteId, row.ZINFO) : undefined;
+      if (schedule) addSchedule(schedules, schedule);
+      continue;
+    }
+
+    const interval = parseInterval(pickColumn(row, INTERVAL_COLUMNS));
+    let due = parseDate(pickColumn(row, DUE_COLUMNS));
+    if (!due) {
+      const lastReview = parseDate(pickColumn(row, LAST_REVIEW_COLUMNS));
+      if (!lastReview || interval === undefined) continue;
+      due = new Date(lastReview.getTime() + interval * DAY_SECONDS * 1000);
+    }
+
+    const schedule: ReviewSchedule = {
+      noteId,
+      due,
+      interval: Math.max(1, Math.round(interval ?? 1)),
+      ease: parseEase(pickColumn(row, EASE_COLUMNS))
+    };
+
+    const reviews = parseInt(pickColumn(row, REVIEWS_COLUMNS), 10);
+    if (!isNaN(reviews)) schedule.reviews = reviews;
+    const lapses = parseInt(pickColumn(row, LAPSES_COLUMNS), 10);
+    if (!isNaN(lapses)) schedule.lapses = lapses;
+
+    addSchedule(schedules, schedule);
+  }
+
+  return schedules;
+}
+
+/**
+ * Due date as the YYYY-MM-DD string the SR plugins expect
+ */
+export function formatDueDate(due: Date): string {
+  return due.toISOString().slice(0, 10);
+}
+
+/**
+ * Inline schedule comment for a card in a deck note
+ */
+export function formatCardSchedule(schedule: ReviewSchedule): string {
+  return `<!--SR:!${formatDueDate(schedule.due)},${schedule.interval},${schedule.ease}-->`;
+}
+
+export class ReviewScheduleWriter {
+  private io: VaultIO;
+
+  constructor(options: ReviewScheduleWriterOptions = {}) {
+    this.io = new VaultIO(options.vaultAdapter);
+  }
+
+  /**
+   * Write sr-due / sr-interval / sr-ease into every imported note that has a schedule.
+   * A file holding several notes (grouped output) takes the earliest due date.
+   * Returns the number of files changed.
+   */
+  async writeSchedules(schedules: Map<string, ReviewSchedule>, noteFiles: Record<string, string>): Promise<number> {
+    const byFile = new Map<string, ReviewSchedule>();
+    for (const [noteId, file] of Object.entries(noteFiles)) {
+      const schedule = schedules.get(noteId);
+      if (!schedule) continue;
+
+      const existing = byFile.get(file);
+      if (!existing || schedule.due < existing.due) {
+        byFile.set(file, schedule);
+      }
+    }
+
+    let filesUpdated = 0;
+    for (const [file, schedule] of byFile) {
+      try {
+        if (!(await this.io.exists(file))) continue;
+
+        const content = await this.io.read(file);
+        const updated = setFrontmatterProperties(content, {
+          'sr-due': formatDueDate(schedule.due),
+          'sr-interval': schedule.interval,
+          'sr-ease': schedule.ease
+        });
+        if (updated !== content) {
+          await this.io.write(file, updated);
+          filesUpdated++;
+        }
+      } catch (error) {
+        console.warn(`Failed to write review schedule to ${file}:`, error);
+      }
+    }
+
+    console.log(`Review schedules: ${byFile.size} notes scheduled, ${filesUpdated} files updated`);
+    return filesUpdated;
+  }
+}
+
+function addSchedule(schedules: Map<string, ReviewSchedule>, schedule: ReviewSchedule): void {
+  const existing = schedules.get(schedule.noteId);
+  const newer = existing && existing.reviewed && schedule.reviewed
+    ? existing.reviewed < schedule.reviewed
+    : !existing || existing.due < schedule.due;
+  if (newer) {
+    schedules.set(schedule.noteId, schedule);
+  }
+}
+
+/**
+ * Schedule from the FSRS card state of a SpacedRepetition activity: due
+ * scheduledDays after the last review, ease from the difficulty (1-10)
+ */
+function parseActivitySchedule(noteId: string, info: any): ReviewSchedule | undefined {
+  let card: any;
+  try {
+    card = (typeof info === 'string' ? JSON.parse(info) : info)?.card;
+  } catch (e) {
+    return undefined;
+  }
+  const reviewed = card ? parseDate(card.lastReview ?? undefined) : undefined;
+  if (!reviewed) return undefined;
+
+  const scheduledDays = parseFloat(card.scheduledDays);
+  const days = isNaN(scheduledDays) ? 0 : Math.max(0, scheduledDays);
+  const difficulty = parseFloat(card.difficulty);
+  const ease = isNaN(difficulty)
+    ? DEFAULT_EASE
+    : Math.round(DEFAULT_EASE - (Math.min(10, Math.max(1, difficulty)) - 1) / 9 * (DEFAULT_EASE - MIN_EASE));
+
+  const schedule: ReviewSchedule = {
+    noteId,
+    due: new Date(reviewed.getTime() + days * DAY_SECONDS * 1000),
+    interval: Math.max(1, Math.round(days)),
+    ease,
+    reviewed
+  };
+  if (Number.isInteger(card.reps)) schedule.reviews = card.reps;
+  if (Number.isInteger(card.lapses)) schedule.lapses = card.lapses;
+  return schedule;
+}
+
+function pickColumn(row: any, names: string[]): any {
+  for (const key of Object.keys(row)) {
+    const normalized = key.replace(/^Z/, '').replace(/_/g, '').toLowerCase();
+    if (names.includes(normalized) && row[key] !== null && row[key] !== undefined && row[key] !== '') {
+      return row[key];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Core Data timestamps (seconds since 2001), Unix timestamps or date strings
+ */
+function parseDate(value: any): Date | undefined {
+  if (value === undefined) return undefined;
+
+  if (typeof value === 'number' || /^-?\d+(\.\d+)?$/.test(String(value))) {
+    const seconds = Number(value);
+    // Unix timestamps are larger than any Core Data timestamp before 2032
+    const ms = seconds > 1e9 ? seconds * 1000 : seconds * 1000 + CORE_DATA_EPOCH;
+    return new Date(ms);
+  }
+
+  const parsed = new Date(String(value));
+  return isNaN(parsed.getTime()) ? undefined : parsed;
+}
+
+/**
+ * Interval in days; values beyond a century are taken as seconds
+ */
+function parseInterval(value: any): number | undefined {
+  const interval = parseFloat(value);
+  if (isNaN(interval)) return undefined;
+  return interval > 36500 ? interval / DAY_SECONDS : interval;
+}
+
+/**
+ * Ease on the SR plugin scale: 2.5 (SM-2 factor) and 2500 (Anki permille) both become 250
+ */
+function parseEase(value: any): number {
+  const ease = parseFloat(value);
+  if (isNaN(ease) || ease <= 0) return DEFAULT_EASE;
+  if (ease < 10) return Math.round(ease * 100);
+  if (ease >= 1000) return Math.round(ease / 10);
+  return Math.round(ease);
+}
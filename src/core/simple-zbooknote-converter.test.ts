@@ -0,0 +1,49 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { SimpleZBookNoteConverter } from './simple-zbooknote-converter';
+import { DatabaseData } from './margin-note-importer';
+import { MemoryVault } from '../testing/memory-vault';
+import { loadSamplePackage } from '../testing/sample-package';
+
+describe('SimpleZBookNoteConverter on the sample notebook', () => {
+  let databaseData: DatabaseData;
+
+  beforeAll(async () => {
+    databaseData = await loadSamplePackage();
+  });
+
+  it('writes the highlight colour as numbers, not the style name', async () => {
+    const vault = new MemoryVault();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const result = await new SimpleZBookNoteConverter({ outputDirectory: 'MarginNote', vaultAdapter: vault })
+      .convertFromData(databaseData);
+    vi.restoreAllMocks();
+
+    // ZHIGHLIGHT_STYLE "mbooks-annotation18": fill 1, colour 8
+    const card = vault.files.get(result.noteFiles!['B59C9296-7595-4890-9882-20008927972A']) as string;
+    expect(card).toMatch(/\ncolorIndex: 8\n/);
+    expect(card).toMatch(/\nfillIndex: 1\n/);
+    expect(card).not.toContain('mbooks-annotation');
+  });
+
+  it('writes under the output folder however many notebooks the import holds', async () => {
+    const vault = new MemoryVault();
+    const sync = (data: DatabaseData, skippedNoteIds?: string[]) =>
+      new SimpleZBookNoteConverter({ outputDirectory: 'MarginNote', vaultAdapter: vault, syncMode: true, skippedNoteIds })
+        .convertFromData(data);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const all = await sync(databaseData);
+    // Only the notes of notebook "Testing3"
+    const booknotes = databaseData.booknotes.filter(row => row.ZTOPICID === '5E47B810-2BF2-4833-8966-BB4A56492307');
+    const skipped = databaseData.booknotes.filter(row => !booknotes.includes(row)).map(row => row.ZNOTEID);
+    const one = await sync({ ...databaseData, booknotes }, skipped);
+    vi.restoreAllMocks();
+
+    for (const result of [all, one]) {
+      expect(result.outputFolder).toBe('MarginNote');
+      expect(Object.values(result.noteFiles!).every(file => file.startsWith('MarginNote/'))).toBe(true);
+    }
+    expect(one.noteFiles!['8DE1BC75-339B-4A1D-8E49-3AA4FBC52493']).toBe('MarginNote/Testing3/8DE1BC75-339B-4A1D-8E49-3AA4FBC52493.md');
+    expect(vault.files.has('MarginNote/.marginnote-manifest.json')).toBe(true);
+    expect([one.notesCreated, one.notesUnchanged, one.deletedNoteIds]).toEqual([0, booknotes.length, []]);
+  });
+});
@@ -4,26 +4,54 @@
  */
 
 import { DatabaseData } from './margin-note-importer';
+import { ConversionResult, MarginNoteConverter } from './converter-registry';
+import { ImportManifest } from './import-manifest';
+import { VaultIO } from '../utils/vault-io';
+import { mergeProtectedContent } from '../utils/protected-regions';
+import { MediaExporter, parseMediaList } from './media-exporter';
+import { HierarchyMode, buildNoteTree, getNestedNotePath } from './note-tree';
+import { NotebookFolders } from './notebook-folders';
+import { MbBookNote } from '../models/MbBookNote';
+import { ColorRule, HighlightColorizer, parseHighlightStyle } from '../utils/highlight-colors';
+import { DocumentRegistry } from './document-registry';
+import { CompiledTemplate } from '../utils/template-engine';
+import { compileNoteTemplate } from './note-template';
+import { PropertyRule, applyPropertySchema } from './property-schema';
+import { formatFrontmatter } from '../utils/yaml';
+import { sanitizeFileName } from '../utils/file-names';
 
 export interface SimpleConversionOptions {
   outputDirectory: string;
   vaultAdapter?: any;
+  syncMode?: boolean; // Only rewrite notes whose ZNOTE_DATE changed since the last import
+  skippedNoteIds?: string[]; // Notes of the package left out of this import; sync keeps their manifest entries
+  preserveUserContent?: boolean; // Carry protected regions of existing notes over (default: true)
+  includeMedia?: boolean; // Export ZMEDIA images and PDF snippets as attachments (default: true)
+  attachmentsFolder?: string; // Relative to the output folder (default: attachments)
+  hierarchyMode?: HierarchyMode; // 'folders' nests notes in folders mirroring the mind map branches
+  notebookFolders?: boolean; // One folder per notebook when the package holds several (default: true)
+  colorTable?: ColorRule[]; // Highlight colour -> tag / callout / ==highlight== styling
+  documents?: DocumentRegistry; // Source PDFs in the vault, for page links
+  template?: string; // Note template source; the built-in layout when unset
+  propertySchema?: PropertyRule[]; // Fields written as properties; every field when unset
 }
 
-export interface ConversionResult {
-  success: boolean;
-  notesCreated: number;
-  errors: string[];
-  outputFiles: string[];
-  outputFolder?: string;
-}
-
-export class SimpleZBookNoteConverter {
+export class SimpleZBookNoteConverter implements MarginNoteConverter {
   private options: SimpleConversionOptions;
   private currentData: DatabaseData | null = null;
+  private mediaPaths = new Map<string, string>();
+  private notePaths = new Map<string, string>(); // ZNOTEID -> path relative to the output folder
+  private io: VaultIO;
+  private colorizer: HighlightColorizer;
+  private template?: CompiledTemplate;
   
   constructor(options: SimpleConversionOptions) {
     this.options = options;
+    this.io = new VaultIO(options.vaultAdapter);
+    this.colorizer = new HighlightColorizer(options.colorTable);
+    if (options.template) {
+      this.template = compileNoteTemplate(options.template);
+    }
   }
   
   async convertFromData(databaseData: DatabaseData): Promise<ConversionResult> {
@@ -31,7 +59,8 @@ export class SimpleZBookNoteConverter {
       success: false,
       notesCreated: 0,
       errors: [],
-      outputFiles: []
+      outputFiles: [],
+      noteFiles: {}
     };
     
     try {
@@ -41,33 +70,101 @@ export class SimpleZBookNoteConverter {
       // Store reference to current data for access in other methods
       this.currentData = databaseData;
       
-      // Extract project name from ZMEDIA or ZTOPIC
-      const projectName = this.extractProjectName(databaseData);
-      console.log(`Project name: ${projectName}`);
+      // A package holding several notebooks gets one folder per notebook in the output folder
+      const notebooks = NotebookFolders.fromDatabase(databaseData);
+      const notebookCount = notebooks.countNotebooks(databaseData.booknotes);
+      const splitByNotebook = this.options.notebookFolders !== false && notebookCount > 1;
       
-      // Use project name as output directory
-      const outputDir = projectName || this.options.outputDirectory;
+      // Otherwise extract project name from ZMEDIA or ZTOPIC and use it as the notes' folder.
+      // The manifest, index and attachments stay in the output folder either way, so a
+      // sync finds them however many notebooks the import holds.
+      const outputDir = this.options.outputDirectory;
+      let projectFolder = '';
+      if (splitByNotebook) {
+        console.log(`${notebookCount} notebooks, one folder each`);
+      } else {
+        const projectName = this.extractProjectName(databaseData);
+        console.log(`Project name: ${projectName}`);
+        projectFolder = projectName || '';
+      }
       
       // Create output directory
-      await this.ensureDirectory(outputDir);
+      await this.io.ensureDirectory(outputDir);
+      
+      // Export ZMEDIA blobs so notes can embed their images and PDF snippets
+      this.mediaPaths = new Map();
+      if (this.options.includeMedia !== false && databaseData.media && databaseData.media.length > 0) {
+        const mediaExporter = new MediaExporter({
+          attachmentsFolder: `${outputDir}/${this.options.attachmentsFolder || 'attachments'}`,
+          vaultAdapter: this.options.vaultAdapter
+        });
+        const mediaResult = await mediaExporter.exportMedia(MediaExporter.loadMedia(databaseData.media));
+        this.mediaPaths = mediaResult.mediaPaths;
+      }
+      
+      // Nest notes in branch folders mirroring the mind map
+      this.notePaths = new Map();
+      if (this.options.hierarchyMode === 'folders') {
+        const treeNotes = databaseData.booknotes.filter(row => row.ZNOTEID).map(row => new MbBookNote(row));
+        buildNoteTree(treeNotes);
+        for (const note of treeNotes) {
+          this.notePaths.set(note.noteId, getNestedNotePath(note, `${sanitizeFileName(note.noteId)}.md`));
+        }
+      }
+      // ...inside the folder of the note's notebook, or of the project
+      for (const row of databaseData.booknotes) {
+        const folder = splitByNotebook ? notebooks.getFolder(row.ZTOPICID) : projectFolder;
+        if (row.ZNOTEID && folder) {
+          this.notePaths.set(row.ZNOTEID, `${folder}/${this.getNotePath(row.ZNOTEID)}`);
+        }
+      }
+      
+      // In sync mode, compare against the manifest written by the previous import
+      const manifest = this.options.syncMode ? await ImportManifest.load(this.io, outputDir) : null;
+      if (manifest) {
+        result.notesUpdated = 0;
+        result.notesUnchanged = 0;
+      }
       
       // Process each ZBOOKNOTE row
       for (let i = 0; i < databaseData.booknotes.length; i++) {
         const row = databaseData.booknotes[i];
         
         try {
+          if (manifest) {
+            const noteId = row.ZNOTEID;
+            const modifiedDate = row.ZNOTE_DATE ?? null;
+            const notePath = `${outputDir}/${this.getNotePath(noteId)}`;
+            
+            if (await manifest.isUnchanged(noteId, modifiedDate, notePath)) {
+              manifest.record(noteId, notePath, modifiedDate);
+              result.noteFiles![noteId] = notePath;
+              result.notesUnchanged!++;
+              continue;
+            }
+          }
+          
           // Create MbBookNotes_for_export object for this row
           const mbBookNote = this.createMbBookNoteForExport(row);
           
           // Write file with ZNOTEID as title
           const filename = await this.writeNoteFile(mbBookNote, i, outputDir);
           result.outputFiles.push(filename);
-          result.notesCreated++;
+          result.noteFiles![row.ZNOTEID] = `${outputDir}/${filename}`;
           
-          console.log(`Created: ${filename}`);
+          // Only a written note counts as current, so a failed write is retried next sync
+          manifest?.record(row.ZNOTEID, `${outputDir}/${filename}`, row.ZNOTE_DATE ?? null);
+          if (manifest && manifest.getPreviousEntry(row.ZNOTEID)) {
+            result.notesUpdated!++;
+            console.log(`Updated: ${filename}`);
+          } else {
+            result.notesCreated++;
+            console.log(`Created: ${filename}`);
+          }
         } catch (error) {
           const errorMsg = `Failed to process row ${i}: ${error}`;
           console.warn(errorMsg);
+          manifest?.keepPrevious(row.ZNOTEID);
           result.errors.push(errorMsg);
         }
       }
@@ -75,9 +172,21 @@ export class SimpleZBookNoteConverter {
       // Create simple index
       await this.createIndexFile(databaseData.booknotes, outputDir);
       
-      result.success = result.notesCreated > 0;
+      if (manifest) {
+        for (const noteId of this.options.skippedNoteIds || []) {
+          manifest.keepPrevious(noteId);
+        }
+        result.deletedNoteIds = manifest.getDeletedNoteIds();
+        await manifest.save();
+        
+        result.success = result.notesCreated + result.notesUpdated! + result.notesUnchanged! > 0;
+        console.log(`Sync completed in ${outputDir}: ${result.notesCreated} created, ${result.notesUpdated} updated, ` +
+                    `${result.notesUnchanged} unchanged, ${result.deletedNoteIds.length} deleted in MarginNote`);
+      } else {
+        result.success = result.notesCreated > 0;
+        console.log(`Conversion completed: ${result.notesCreated} notes created in ${outputDir}`);
+      }
       result.outputFolder = outputDir;
-      console.log(`Conversion completed: ${result.notesCreated} notes created in ${outputDir}`);
       
     } catch (error) {
       const errorMsg = `Conversion failed: ${error}`;
@@ -99,7 +208,7 @@ export class SimpleZBookNoteConverter {
         for (const mediaRow of databaseData.media) {
           if (mediaRow.ZMINDLINKS && mediaRow.ZTITLE) {
             console.log(`Found project in ZMEDIA: ${mediaRow.ZTITLE}`);
-            return this.sanitizeFileName(mediaRow.ZTITLE);
+            return sanitizeFileName(mediaRow.ZTITLE);
           }
         }
       }
@@ -112,7 +221,7 @@ export class SimpleZBookNoteConverter {
             // Check if it's a project topic (has mindmap links or is not a book/review topic)
             if (topicRow.ZMINDLINKS || (topicRow.ZFORUMOWNER && !topicRow.ZFORUMOWNER.includes('"reviewDecks"'))) {
               console.log(`Found project in ZTOPIC: ${topicRow.ZTITLE}`);
-              return this.sanitizeFileName(topicRow.ZTITLE);
+              return sanitizeFileName(topicRow.ZTITLE);
             }
           }
         }
@@ -133,6 +242,7 @@ export class SimpleZBookNoteConverter {
     // Decode notes and highlights
     const notes = this.decodeNotes(row);
     const highlights = this.decodeHighlights(row);
+    const style = parseHighlightStyle(row.ZHIGHLIGHT_STYLE);
     
     // Extract linked notes
     const linkedNotes = notes
@@ -161,8 +271,8 @@ export class SimpleZBookNoteConverter {
     return {
       excerptText: row.ZHIGHLIGHT_TEXT,
       noteTitle: row.ZTITLE,
-      colorIndex: row.ZHIGHLIGHT_STYLE,
-      fillIndex: null,
+      colorIndex: style?.colorIndex,
+      fillIndex: style ? style.fillIndex : null,
       mindmapPosition: row.ZMINDPOS,
       noteId: row.ZNOTEID,
       docMd5: row.ZBOOKMD5,
@@ -351,132 +461,52 @@ export class SimpleZBookNoteConverter {
   }
   
   /**
-   * Write note file with ZNOTEID as title and full MbBookNote object as content
-   * Format matches working_export.ts exactly
+   * Write note file with ZNOTEID as title and the MbBookNote object as frontmatter
    */
   private async writeNoteFile(mbBookNote: any, index: number, outputDir: string): Promise<string> {
     // Use ZNOTEID as the title and filename - no fallback, use exact value
     const noteId = mbBookNote.noteId;
-    const filename = this.sanitizeFileName(noteId) + '.md';
+    const filename = this.getNotePath(noteId);
+    if (filename.includes('/')) {
+      await this.io.ensureDirectory(`${outputDir}/${filename.substring(0, filename.lastIndexOf('/'))}`);
+    }
     
-    // Create markdown content with flattened YAML frontmatter
-    const frontmatterEntries = Object.entries(mbBookNote)
-      .flatMap(([key, value]) => {
-        // Handle special values for YAML
-        if (value === null || value === undefined) {
-          return [`${key}: null`];
-        }
-        
-        // Special handling for textHighlight arrays
-        if (key === 'textHighlight' && Array.isArray(value)) {
-          if (value.length === 0) {
-            return [
-              'textHighlight_highlight_text: ""',
-              'textHighlight_coords_hash: ""',
-              'textHighlight_maskList: ""',
-              'textHighlight_textSelLst: ""'
-            ];
-          }
-          
-          // Extract values from each item in the array
-          const highlightTexts: string[] = [];
-          const coordsHashes: string[] = [];
-          const maskLists: string[] = [];
-          const textSelLsts: string[] = [];
-          
-          value.forEach((item) => {
-            if (typeof item === 'object' && item !== null) {
-              highlightTexts.push(item.highlight_text || '');
-              coordsHashes.push(item.coords_hash || '');
-              maskLists.push(item.maskList || '');
-              textSelLsts.push(item.textSelLst ? JSON.stringify(item.textSelLst) : '');
-            }
-          });
-          
-          return [
-            `textHighlight_highlight_text: "${highlightTexts.join(', ').replace(/"/g, '\\"')}"`,
-            `textHighlight_coords_hash: "${coordsHashes.join(', ').replace(/"/g, '\\"')}"`,
-            `textHighlight_maskList: "${maskLists.join(', ').replace(/"/g, '\\"')}"`,
-            `textHighlight_textSelLst: "${textSelLsts.join(', ').replace(/"/g, '\\"')}"`
-          ];
-        }
-        
-        if (Array.isArray(value)) {
-          if (value.length === 0) {
-            return [`${key}: []`];
-          }
-          
-          // For arrays of objects, flatten each object with indexed keys
-          if (value.some(v => typeof v === 'object' && v !== null)) {
-            const flatEntries: string[] = [];
-            value.forEach((item, index) => {
-              if (typeof item === 'object' && item !== null) {
-                Object.entries(item).forEach(([subKey, subValue]) => {
-                  const flatKey = `${key}.${index}.${subKey}`;
-                  if (typeof subValue === 'string') {
-                    flatEntries.push(`${flatKey}: "${String(subValue).replace(/"/g, '\\"')}"`);
-                  } else {
-                    flatEntries.push(`${flatKey}: ${subValue}`);
-                  }
-                });
-              } else {
-                flatEntries.push(`${key}.${index}: "${String(item).replace(/"/g, '\\"')}"`);
-              }
-            });
-            return flatEntries;
-          } else {
-            // Simple array of primitives
-            return [`${key}: [${value.map(v => `"${String(v).replace(/"/g, '\\"')}"`).join(', ')}]`];
-          }
-        }
-        
-        if (typeof value === 'object' && value !== null) {
-          // Flatten nested objects
-          return Object.entries(value).map(([subKey, subValue]) => {
-            const flatKey = `${key}.${subKey}`;
-            if (typeof subValue === 'string') {
-              return `${flatKey}: "${String(subValue).replace(/"/g, '\\"')}"`;
-            } else {
-              return `${flatKey}: ${subValue}`;
-            }
-          });
-        }
-        
-        if (typeof value === 'string') {
-          // Escape quotes and handle multiline strings
-          const escapedValue = value.replace(/"/g, '\\"');
-          if (value.includes('\n')) {
-            return [`${key}: |\n  ${escapedValue.split('\n').join('\n  ')}`];
-          }
-          return [`${key}: "${escapedValue}"`];
-        }
-        
-        return [`${key}: ${value}`];
-      });
+    const createDate = new Date(mbBookNote.createDate * 1000 + 978307200000);
+    const modifiedDate = new Date(mbBookNote.modifiedDate * 1000 + 978307200000);
     
-    const frontmatter = frontmatterEntries.join('\n');
+    // Frontmatter keeps the nested MbBookNotes_for_export structure, filtered by the property schema
+    const frontmatter = formatFrontmatter(applyPropertySchema({ ...mbBookNote, createDate, modifiedDate },
+                                                              this.options.propertySchema));
     
     // Create enhanced markdown with decoded content
     const noteTitle = mbBookNote.noteTitle || mbBookNote.excerptText || 'Untitled';
     
     // Extract additional decoded content
     const row = this.getCurrentRow(mbBookNote.noteId);
-    const hashtags = row?.ZNOTES_HASHTAGS || '';
+    const colorIndex = parseHighlightStyle(row?.ZHIGHLIGHT_STYLE)?.colorIndex;
+    const hashtags = [row?.ZNOTES_HASHTAGS, ...this.colorizer.getTags(colorIndex)].filter(Boolean).join(' ');
     const links = row?.ZNOTES_LINKS || '';
     const formattedText = row?.ZNOTES_FORMATTED_TEXT || '';
     const highlightText = row?.ZNOTES_HIGHLIGHT_TEXT || mbBookNote.excerptText;
     const coordinates = row?.ZHIGHLIGHTS_RECT || '';
     const pageNo = row?.ZHIGHLIGHTS_PAGE || mbBookNote.startPage;
+    const sourceLinks = this.options.documents && highlightText
+      ? this.options.documents.formatSourceLinks(row?.ZBOOKMD5, {
+          startPage: pageNo,
+          endPage: row?.ZENDPAGE,
+          startPos: row?.ZSTARTPOS,
+          endPos: row?.ZENDPOS
+        })
+      : '';
+    const mediaEmbeds = parseMediaList(mbBookNote.mediaList)
+      .filter(hash => this.mediaPaths.has(hash))
+      .map(hash => `![[${this.mediaPaths.get(hash)}]]`);
     
-    const content = `---
-${frontmatter}
----
-
-# ${noteTitle}
+    const body = `# ${noteTitle}
 
 ## Content
 
-${highlightText ? `**Highlight:** ${highlightText}` : ''}
+${highlightText ? this.formatHighlight(highlightText, colorIndex) : ''}${sourceLinks ? `\n\n**Source:** ${sourceLinks}` : ''}
 
 ${formattedText ? `**Notes:** ${formattedText}` : ''}
 
@@ -484,33 +514,77 @@ ${hashtags ? `**Tags:** ${hashtags}` : ''}
 
 ${links ? `**Links:** ${links}` : ''}
 
+${mediaEmbeds.length > 0 ? `**Media:**\n\n${mediaEmbeds.join('\n')}` : ''}
+
 ## Metadata
 
 **Note ID:** ${mbBookNote.noteId}
 **Page:** ${pageNo}
 ${coordinates ? `**Coordinates:** ${coordinates}` : ''}
-**Created:** ${new Date(mbBookNote.createDate * 1000 + 978307200000).toISOString()}
-**Modified:** ${new Date(mbBookNote.modifiedDate * 1000 + 978307200000).toISOString()}`;
+**Created:** ${createDate.toISOString()}
+**Modified:** ${modifiedDate.toISOString()}`;
+    
+    const model = this.template && row ? new MbBookNote(row) : undefined;
+    const content = this.template
+      ? this.template.render({
+          ...mbBookNote,
+          note: mbBookNote,
+          title: noteTitle,
+          createDate,
+          modifiedDate,
+          highlight: highlightText || '',
+          notes: formattedText,
+          comments: model ? model.comments : [],
+          linkedNotes: mbBookNote.linkedNotes.length > 0 || !model ? mbBookNote.linkedNotes : model.linkedNotes,
+          tags: hashtags ? hashtags.split(/\s+/) : [],
+          colorName: this.colorizer.getName(colorIndex),
+          links,
+          media: mediaEmbeds,
+          page: pageNo,
+          coordinates,
+          sourceLinks,
+          frontmatter,
+          content: body
+        })
+      : [frontmatter, body].filter(Boolean).join('\n\n');
 
     const fullPath = `${outputDir}/${filename}`;
     
-    if (this.options.vaultAdapter) {
-      await this.options.vaultAdapter.write(fullPath, content);
-    } else {
-      const fs = require('fs');
-      const path = require('path');
-      const systemPath = path.join(outputDir, filename);
-      fs.writeFileSync(systemPath, content, 'utf-8');
+    // Keep the user's protected regions when rewriting an existing note
+    let finalContent = content;
+    if (this.options.preserveUserContent !== false && await this.io.exists(fullPath)) {
+      finalContent = mergeProtectedContent(content, await this.io.read(fullPath), key => this.isExportKey(key, mbBookNote));
     }
     
+    await this.io.write(fullPath, finalContent);
+    
     return filename;
   }
   
   /**
-   * Sanitize filename to remove invalid characters
+   * Properties this converter writes or used to write (flattened as "linkedNotes.0.noteid"
+   * or "textHighlight_coords_hash"), so re-imports do not keep them as user properties
    */
-  private sanitizeFileName(name: string): string {
-    return name.replace(/[<>:"/\\|?*\x00-\x1F]/g, '').replace(/\s+/g, '_');
+  private isExportKey(key: string, mbBookNote: any): boolean {
+    const name = key.replace(/^"|"$/g, '');
+    return name.startsWith('textHighlight_') || Object.keys(mbBookNote).some(field => name === field || name.startsWith(`${field}.`));
+  }
+  
+  /**
+   * Highlight line, or a blockquote / callout when its colour is styled
+   */
+  private formatHighlight(highlightText: string, colorIndex?: number): string {
+    if (!this.colorizer.isStyled(colorIndex)) {
+      return `**Highlight:** ${highlightText}`;
+    }
+    return `**Highlight:**\n\n${this.colorizer.formatExcerpt(highlightText, colorIndex).join('\n')}`;
+  }
+  
+  /**
+   * Note path relative to the output folder
+   */
+  private getNotePath(noteId: string): string {
+    return this.notePaths.get(noteId) || `${sanitizeFileName(noteId)}.md`;
   }
   
   /**
@@ -538,10 +612,10 @@ ${coordinates ? `**Coordinates:** ${coordinates}` : ''}
     
     for (const row of zbooknoteRows) {
       const noteId = row.ZNOTEID || 'UNKNOWN';
-      const filename = `${noteId}.md`;
+      const filename = this.getNotePath(noteId);
       const preview = row.ZHIGHLIGHT_TEXT || row.ZNOTETITLE || 'No preview';
       
-      lines.push(`- [[${filename}|${noteId}]]`);
+      lines.push(`- [[${outputDir}/${filename}|${noteId}]]`);
       lines.push(`  > ${preview.substring(0, 100)}${preview.length > 100 ? '...' : ''}`);
     }
     
@@ -549,34 +623,6 @@ ${coordinates ? `**Coordinates:** ${coordinates}` : ''}
     lines.push('---');
     lines.push('*Each note title is its ZNOTEID with complete MbBookNotes_for_export data*');
     
-    const indexPath = `${outputDir}/index.md`;
-    const content = lines.join('\n');
-    
-    if (this.options.vaultAdapter) {
-      await this.options.vaultAdapter.write(indexPath, content);
-    } else {
-      const fs = require('fs');
-      const path = require('path');
-      const systemPath = path.join(outputDir, 'index.md');
-      fs.writeFileSync(systemPath, content, 'utf-8');
-    }
+    await this.io.write(`${outputDir}/index.md`, lines.join('\n'));
   }
-  
-  /**
-   * Ensure directory exists
-   */
-  private async ensureDirectory(dirPath: string): Promise<void> {
-    if (this.options.vaultAdapter) {
-      if (!(await this.options.vaultAdapter.exists(dirPath))) {
-        await this.options.vaultAdapter.mkdir(dirPath);
-        console.log(`Created vault directory: ${dirPath}`);
-      }
-    } else {
-      const fs = require('fs');
-      if (!fs.existsSync(dirPath)) {
-        fs.mkdirSync(dirPath, { recursive: true });
-        console.log(`Created directory: ${dirPath}`);
-      }
-    }
-  }
-}
\ No newline at end of file
+}
@@ -6,27 +6,72 @@
  */
 
 // Core processing components
-export { MarginNoteImporter } from './core/margin-note-importer';
-export { MarginNoteDatabaseParser, parseMarginPkgFile, isValidMarginPkgFile } from './core/database-parser';
+export { MarginNoteImporter, createDefaultImportConfig } from './core/margin-note-importer';
+export { MarginNoteDatabaseParser, parseMarginPkgFile, parseImportFiles, isValidMarginPkgFile, isImportableFile } from './core/database-parser';
 export { ContentExtractor, extractContentFromDatabase } from './core/content-extractor';
 export { NSKeyedArchiverDecoder } from './core/nskeyedarchiver-decoder';
 export { ContentDeduplicator, deduplicateContent } from './core/deduplicator';
 export { ObsidianConverter, convertToObsidian } from './core/obsidian-converter';
+export { MediaExporter, parseMediaList } from './core/media-exporter';
+export { renderInkSvg } from './core/ink-renderer';
+export { decodePencilKitDrawing, isPencilKitDrawing } from './core/pencilkit-drawing';
+export { CanvasExporter } from './core/canvas-exporter';
+export { OutlineExporter } from './core/outline-exporter';
+export { NotebookOverviewExporter } from './core/notebook-overview';
+export { runImportPipeline } from './core/import-pipeline';
+export { ImportConfigError, isImportConfigFile, loadImportConfig, mergeImportConfig, parseImportConfig, splitByNotebookConfig } from './core/import-config';
+export type { ImportConfigFile, NotebookConfig, NotebookImport } from './core/import-config';
+export type { ImportPipelineOptions, ImportPipelineResult } from './core/import-pipeline';
+export { DEFAULT_SETTINGS, mergeSettings } from './settings';
+export type { MarginNoteSettings } from './settings';
+export { LinkResolver } from './core/link-resolver';
+export { BacklinkWriter } from './core/backlink-writer';
+export { FlashcardExporter } from './core/flashcard-exporter';
+export { ReviewScheduleWriter, loadReviewSchedules } from './core/review-schedule';
+export { AnkiExporter } from './core/anki-exporter';
+export { DocumentRegistry, normalizeDocMd5, parseDocumentMapping } from './core/document-registry';
+export { loadNoteTemplate, compileNoteTemplate, createMbBookNoteContext, createMNBookNoteContext } from './core/note-template';
+export { PropertySchemaError, PROPERTY_TYPES, parsePropertySchema, applyPropertySchema } from './core/property-schema';
+export { buildImportPreview, filterDatabaseData, isSelected, renderSampleNote } from './core/import-preview';
+export { ImportFilterError, applyImportFilters, getRowHashtags, matchesFilter, parseFilterPresets, parseFilterQuery } from './core/import-filters';
+export { detectSourceFormat, detectFileFormat, detectCsvTable, readCsvTables } from './core/import-source';
+export { buildNoteTree, loadNotesByTopic, getNestedNotePath, renderOutline, renderNoteLinks } from './core/note-tree';
+export { NotebookFolders } from './core/notebook-folders';
+export { LiteratureNoteConverter, getBlockId } from './core/literature-note-converter';
+export { ConverterRegistry, GroupedImportConverter, createDefaultConverterRegistry } from './core/converter-registry';
 
 // Data models and types
 export * from './models/types';
 
 // Utilities
 export { TextProcessor, processNoteText, isCJKText, cleanAndFormat } from './utils/text-utils';
+export { HighlightColorizer, createDefaultColorTable, parseHighlightStyle, renderColorCss, MARGINNOTE_COLORS } from './utils/highlight-colors';
+export { CompiledTemplate, TemplateError, TEMPLATE_FILTERS, renderTemplate, validateTemplate, formatDate } from './utils/template-engine';
+export { stringifyYaml, formatFrontmatter, formatYamlScalar, formatYamlKey } from './utils/yaml';
+export type { ColorRule, HighlightStyle } from './utils/highlight-colors';
+export type { TemplateFilter } from './utils/template-engine';
+export type { PropertyRule, PropertyType } from './core/property-schema';
+export type { ImportPreview, ImportSelection, PreviewGroup, SampleNoteOptions } from './core/import-preview';
+export type { FilterPreset, ImportFilter } from './core/import-filters';
+export type { ImportSourceFormat, CsvTable, CsvTables } from './core/import-source';
 
 // Type exports for configuration
 export type {
     ImportConfig,
+    LogLevel,
     ImportResult,
     ImportReport,
-    DatabaseData
+    DatabaseData,
+    OutputFile
 } from './core/margin-note-importer';
 
+export type {
+    MarginNoteConverter,
+    ConverterStrategy,
+    ConverterOptions,
+    ConversionResult
+} from './core/converter-registry';
+
 export type {
     ObsidianConfig,
     ConversionReport
@@ -41,6 +86,44 @@ export type {
     ExtractionStatistics
 } from './core/content-extractor';
 
+export type { HierarchyMode } from './core/note-tree';
+
+export type {
+    LinkResolutionReport,
+    UnresolvedLink
+} from './core/link-resolver';
+
+export type {
+    Backlink,
+    BacklinkMode
+} from './core/backlink-writer';
+
+export type {
+    Flashcard,
+    FlashcardFormat
+} from './core/flashcard-exporter';
+
+export type { ReviewSchedule } from './core/review-schedule';
+export type { AnkiExportResult } from './core/anki-exporter';
+
+export type {
+    DocumentInfo,
+    PageLinkOptions,
+    DocumentRegistryOptions
+} from './core/document-registry';
+
+export type {
+    CanvasData,
+    CanvasNode,
+    CanvasEdge
+} from './core/canvas-exporter';
+
+export type {
+    InkDrawingData,
+    InkStroke,
+    InkPoint
+} from './core/nskeyedarchiver-decoder';
+
 // Version information
 export const VERSION = '1.0.0';
 export const DESCRIPTION = 'Complete TypeScript implementation for MarginNote4-Obsidian integration';
\ No newline at end of file
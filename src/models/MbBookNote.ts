@@ -3,6 +3,8 @@
  * Based on the MbBookNote specification for MarginNote 4
  */
 
+import { HighlightColorizer, parseHighlightStyle } from '../utils/highlight-colors';
+
 export interface CGPoint {
   x: number;
   y: number;
@@ -39,6 +41,34 @@ export interface TextHighlight {
   textSelLst?: any[];
 }
 
+export interface SourceLinkFormatter {
+  formatSourceLinks(docMd5: string | undefined, location: { startPage?: number; endPage?: number; startPos?: string; endPos?: string }): string;
+}
+
+export interface MarkdownRenderOptions {
+  colorizer?: HighlightColorizer;   // Styles the excerpt by highlight colour
+  documents?: SourceLinkFormatter;  // Links the excerpt back to its PDF page
+}
+
+/**
+ * Parse topic type from ZTYPE field
+ */
+export function parseNoteType(ztype: any): string {
+  if (!ztype) return 'unknown';
+  
+  const typeMap: { [key: number]: string } = {
+    1: 'mindmap',
+    3: 'drawing',
+    4: 'outline', 
+    5: 'review-card', // Card of a review deck, pointing at its source note
+    7: 'flashcard',
+    256: 'highlight',
+    512: 'note'
+  };
+  
+  return typeMap[ztype] || `type_${ztype}`;
+}
+
 export class MbBookNote {
   // Basic note properties
   readonly noteId: string;
@@ -70,8 +100,9 @@ export class MbBookNote {
   
   // Hierarchy and relationships
   readonly groupNoteId?: string;
-  readonly parentNote?: MbBookNote;
-  readonly childNotes: MbBookNote[] = [];
+  parentNote?: MbBookNote; // set by buildNoteTree
+  readonly childNoteIds: string[] = [];
+  readonly childNotes: MbBookNote[] = []; // filled by buildNoteTree
   readonly linkedNotes: LinkedNote[] = [];
   readonly summaryLinks: string[] = [];
   
@@ -110,10 +141,19 @@ export class MbBookNote {
     this.startPos = data.ZSTARTPOS || data.startPos;
     this.endPos = data.ZENDPOS || data.endPos;
     
-    // Parse mindmap position
+    // Parse mindmap position, stored as "{x, y}" or "x,y"
     if (data.ZMINDPOS) {
-      const [x, y] = data.ZMINDPOS.split(',').map(parseFloat);
-      this.mindmapPosition = { x, y };
+      const [x, y] = (String(data.ZMINDPOS).match(/-?\d+(?:\.\d+)?/g) || []).map(parseFloat);
+      if (x !== undefined && y !== undefined) {
+        this.mindmapPosition = { x, y };
+      }
+    }
+    
+    // Highlight colour index (0-15) and fill style
+    const style = parseHighlightStyle(data.colorIndex ?? data.ZHIGHLIGHT_STYLE);
+    if (style) {
+      this.colorIndex = style.colorIndex;
+      this.fillIndex = data.fillIndex ?? style.fillIndex;
     }
     
     // Dates
@@ -135,18 +175,21 @@ export class MbBookNote {
     // Hierarchy
     this.groupNoteId = data.ZGROUPNOTEID || data.groupNoteId;
     
-    // Parse child notes and linked notes from decoded ZNOTES
-    if (data.ZNOTES_DECODE) {
-      this.parseChildAndLinkedNotes(data.ZNOTES_DECODE);
+    // Mind map children, stored on the parent as a '|' separated ZNOTEID list
+    if (data.ZMINDLINKS) {
+      this.addChildNoteIds(String(data.ZMINDLINKS).split(/[|,;\s]+/));
     }
     
+    // Parse child notes and linked notes from decoded ZNOTES
+    this.parseChildAndLinkedNotes(data.ZNOTES_DECODE);
+    
     // Other fields
     this.zLevel = data.ZZINDEX || data.zLevel;
     this.annotation = data.ZRECOGNIZE_TEXT || data.annotation;
     this.topicId = data.ZTOPICID || data.topicId;
     
     // Parse topic type from ZTYPE
-    this.topicType = this.parseTopicType(data.ZTYPE);
+    this.topicType = parseNoteType(data.ZTYPE);
   }
   
   /**
@@ -236,7 +279,9 @@ export class MbBookNote {
   }
   
   /**
-   * Parse child notes and linked notes from decoded ZNOTES data
+   * Parse child notes, linked notes and text comments from decoded ZNOTES data.
+   * LinkNote comments and marginnote4app:// URLs are links; any other
+   * comment that references a note is a child of this note.
    */
   private parseChildAndLinkedNotes(decodedData: any): void {
     try {
@@ -246,23 +291,36 @@ export class MbBookNote {
       }
       
       if (Array.isArray(parsed)) {
+        // Raw comment list
         for (const item of parsed) {
-          // Check for child notes (q_htext indicates child note)
-          if (item.q_htext && item.noteid) {
-            this.linkedNotes.push({
-              summary: false,
-              noteid: item.noteid,
-              linktext: item.q_htext
-            });
+          if (item && !item.noteid && (item.text || item.html)) {
+            this.comments.push({ text: String(item.text || ''), html: item.html, tag: item.type });
+            continue;
           }
+          if (!item || !item.noteid) continue;
           
-          // Check for linked notes (type: LinkNote)
-          if (item.type === 'LinkNote' && item.noteid) {
-            this.linkedNotes.push({
-              summary: false,
-              noteid: item.noteid,
-              linktext: 'Linked Note'
-            });
+          if (item.type === 'LinkNote') {
+            const text = item.q_htext?.['NS.string'] || item.q_htext;
+            this.addLinkedNote(item.noteid, typeof text === 'string' && text ? text : 'Linked Note');
+          } else {
+            this.addChildNoteIds([item.noteid]);
+          }
+        }
+      } else if (parsed && Array.isArray(parsed.links)) {
+        // ZNotesData from the decoder: links are "[[noteid|text]]"
+        for (const link of parsed.links) {
+          const match = String(link).match(/^\[\[([^|\]]+)(?:\|([^\]]*))?\]\]$/);
+          if (match) {
+            this.addLinkedNote(match[1], match[2] || 'Linked Note');
+          }
+        }
+      }
+      
+      // ZNotesData text comments; link comments are kept as "[[noteid|text]]" entries
+      if (parsed && Array.isArray(parsed.formattedText)) {
+        for (const text of parsed.formattedText) {
+          if (typeof text === 'string' && text.trim() && !/^\[\[[^\]]+\]\]$/.test(text.trim())) {
+            this.comments.push({ text });
           }
         }
       }
@@ -272,33 +330,31 @@ export class MbBookNote {
     
     // Also check notesText for marginnote4app:// links
     if (this.notesText) {
-      const linkPattern = /marginnote4app:\/\/note\/([A-F0-9\-]+)/g;
+      const linkPattern = /marginnote4app:\/\/note\/([A-F0-9\-]+)/gi;
       let match;
       while ((match = linkPattern.exec(this.notesText)) !== null) {
-        this.linkedNotes.push({
-          summary: false,
-          noteid: match[1],
-          linktext: 'Linked Note'
-        });
+        this.addLinkedNote(match[1], 'Linked Note');
       }
     }
   }
   
-  /**
-   * Parse topic type from ZTYPE field
-   */
-  private parseTopicType(ztype: any): string {
-    if (!ztype) return 'unknown';
-    
-    const typeMap: { [key: number]: string } = {
-      1: 'mindmap',
-      4: 'outline', 
-      7: 'flashcard',
-      256: 'highlight',
-      512: 'note'
-    };
-    
-    return typeMap[ztype] || `type_${ztype}`;
+  private addLinkedNote(noteId: string, linkText: string): void {
+    if (noteId === this.noteId || this.linkedNotes.some(link => link.noteid === noteId)) return;
+    
+    this.linkedNotes.push({
+      summary: false,
+      noteid: noteId,
+      linktext: linkText
+    });
+  }
+  
+  private addChildNoteIds(noteIds: string[]): void {
+    for (const noteId of noteIds) {
+      const id = noteId.trim();
+      if (id && id !== this.noteId && !this.childNoteIds.includes(id)) {
+        this.childNoteIds.push(id);
+      }
+    }
   }
   
   /**
@@ -354,10 +410,23 @@ export class MbBookNote {
     return `${title}.md`;
   }
   
+  /**
+   * Tags from the topic type, other metadata and the highlight colour
+   */
+  getTags(colorizer?: HighlightColorizer): string[] {
+    const tags: string[] = [];
+    if (this.topicType) tags.push(`#${this.topicType}`);
+    if (this.flashcard) tags.push('#flashcard');
+    if (this.flagged) tags.push('#flagged');
+    if (colorizer) tags.push(...colorizer.getTags(this.colorIndex));
+    return tags;
+  }
+  
   /**
    * Convert to Obsidian markdown format
    */
-  toMarkdown(): string {
+  toMarkdown(options: MarkdownRenderOptions = {}): string {
+    const { colorizer, documents } = options;
     const lines: string[] = [];
     
     // Title
@@ -370,8 +439,18 @@ export class MbBookNote {
       lines.push('');
       
       if (this.excerptText) {
-        lines.push(`> ${this.excerptText}`);
+        if (colorizer && colorizer.isStyled(this.colorIndex)) {
+          lines.push(...colorizer.formatExcerpt(this.excerptText, this.colorIndex));
+        } else {
+          lines.push(`> ${this.excerptText}`);
+        }
         lines.push('');
+        
+        const sourceLinks = documents ? documents.formatSourceLinks(this.docMd5, this) : '';
+        if (sourceLinks) {
+          lines.push(`**Source:** ${sourceLinks}`);
+          lines.push('');
+        }
       }
       
       if (this.textHighlight?.highlight_text && this.textHighlight.highlight_text !== this.excerptText) {
@@ -421,12 +500,7 @@ export class MbBookNote {
     if (this.mediaList) lines.push(`**Media:** ${this.mediaList}`);
     lines.push('');
     
-    // Tags (from topic type and other metadata)
-    const tags: string[] = [];
-    if (this.topicType) tags.push(`#${this.topicType}`);
-    if (this.flashcard) tags.push('#flashcard');
-    if (this.flagged) tags.push('#flagged');
-    
+    const tags = this.getTags(colorizer);
     if (tags.length > 0) {
       lines.push(`**Tags:** ${tags.join(' ')}`);
       lines.push('');
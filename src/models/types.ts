@@ -5,6 +5,8 @@
  * Represents the core data structures used throughout the import process.
  */
 
+import { parseHighlightStyle } from '../utils/highlight-colors';
+
 export enum NoteType {
     HIGHLIGHT = "highlight",
     NOTE = "note", 
@@ -24,6 +26,8 @@ export enum TopicType {
 
 export enum MediaType {
     PNG_IMAGE = "png_image",
+    JPEG_IMAGE = "jpeg_image",
+    PDF_DOCUMENT = "pdf_document",
     APPLE_INK = "apple_ink", 
     COORDINATES = "coordinates",
     BINARY = "binary",
@@ -60,7 +64,8 @@ export interface MNMediaData {
     
     isImage(): boolean;
     isInkDrawing(): boolean;
-    toMarkdownImage(altText: string): string | null;
+    getFileExtension(): string | null;
+    toMarkdownImage(altText: string, linkPath?: string): string | null;
 }
 
 export interface MNMediaAttachment {
@@ -90,9 +95,14 @@ export interface MNBookNote {
     author?: string;
     startPage?: number;
     endPage?: number;
+    docMd5?: string;   // ZBOOKMD5 of the source document
+    startPos?: string; // "x,y" selection start in PDF points
+    endPos?: string;
     
     // Visual content
     excerptPic?: MNExcerptPic;
+    colorIndex?: number; // Highlight colour (0-15), from ZHIGHLIGHT_STYLE
+    fillIndex?: number;
     
     // Processed features
     hashtags: string[];
@@ -187,32 +197,67 @@ export class MNMediaDataImpl implements MNMediaData {
     }
     
     isImage(): boolean {
-        return this.mediaType === MediaType.PNG_IMAGE;
+        return this.mediaType === MediaType.PNG_IMAGE || this.mediaType === MediaType.JPEG_IMAGE;
     }
     
     isInkDrawing(): boolean {
         return this.mediaType === MediaType.APPLE_INK;
     }
     
-    toMarkdownImage(altText: string): string | null {
+    getFileExtension(): string | null {
+        switch (this.mediaType) {
+            case MediaType.PNG_IMAGE: return 'png';
+            case MediaType.JPEG_IMAGE: return 'jpg';
+            case MediaType.PDF_DOCUMENT: return 'pdf';
+            case MediaType.APPLE_INK: return 'svg'; // rendered from the decoded strokes
+            default: return null;
+        }
+    }
+    
+    /**
+     * Embed the media; with a vault path this is an Obsidian `![[...]]` embed
+     */
+    toMarkdownImage(altText: string, linkPath?: string): string | null {
         if (!this.isImage()) return null;
+        if (linkPath) return `![[${linkPath}|${altText}]]`;
         return `![${altText}](${this.mediaHash})`;
     }
     
-    static fromDatabaseRow(row: any): MNMediaDataImpl {
+    /**
+     * Detect media type from magic bytes
+     */
+    static detectMediaType(bytes: Uint8Array): MediaType {
+        if (bytes.length >= 4 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4E && bytes[3] === 0x47) {
+            return MediaType.PNG_IMAGE;
+        }
+        if (bytes.length >= 3 && bytes[0] === 0xFF && bytes[1] === 0xD8 && bytes[2] === 0xFF) {
+            return MediaType.JPEG_IMAGE;
+        }
+        if (bytes.length >= 4 && bytes[0] === 0x25 && bytes[1] === 0x50 && bytes[2] === 0x44 && bytes[3] === 0x46) {
+            return MediaType.PDF_DOCUMENT;
+        }
+        return MediaType.UNKNOWN;
+    }
+    
+    /**
+     * Create media from a ZMEDIA row; `data` overrides ZDATA, e.g. after unwrapping an archive
+     */
+    static fromDatabaseRow(row: any, data?: ArrayBuffer | Uint8Array | null): MNMediaDataImpl {
         const hash = row.ZMD5 || row.mediaHash || '';
-        const data = row.ZDATA || row.data;
+        const raw = data || row.ZDATA || row.data;
         
-        // Detect media type from data or filename
-        let mediaType = MediaType.UNKNOWN;
-        if (data && data instanceof ArrayBuffer) {
-            const view = new Uint8Array(data.slice(0, 10));
-            if (view[0] === 0x89 && view[1] === 0x50 && view[2] === 0x4E && view[3] === 0x47) {
-                mediaType = MediaType.PNG_IMAGE;
-            }
+        // sql.js returns BLOBs as Uint8Array; keep an exact-size ArrayBuffer
+        let buffer: ArrayBuffer | undefined;
+        if (raw instanceof ArrayBuffer) {
+            buffer = raw;
+        } else if (raw instanceof Uint8Array) {
+            buffer = raw.buffer.slice(raw.byteOffset, raw.byteOffset + raw.byteLength);
         }
         
-        return new MNMediaDataImpl(hash, mediaType, data);
+        // Detect media type from data
+        const mediaType = buffer ? MNMediaDataImpl.detectMediaType(new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 16))) : MediaType.UNKNOWN;
+        
+        return new MNMediaDataImpl(hash, mediaType, buffer);
     }
 }
 
@@ -242,13 +287,13 @@ export class MNMediaAttachmentImpl implements MNMediaAttachment {
         
         const attachments: MNMediaAttachmentImpl[] = [];
         
-        // Parse media list (could be JSON string or array)
+        // Parse media list (JSON string, array, or MarginNote's '-' separated MD5 list)
         let items = mediaList;
         if (typeof mediaList === 'string') {
             try {
                 items = JSON.parse(mediaList);
             } catch {
-                return [];
+                items = mediaList.split('-').map(hash => hash.trim()).filter(hash => hash.length > 0);
             }
         }
         
@@ -282,8 +327,13 @@ export class MNBookNoteImpl implements MNBookNote {
     author?: string;
     startPage?: number;
     endPage?: number;
+    docMd5?: string;
+    startPos?: string;
+    endPos?: string;
     
     excerptPic?: MNExcerptPic;
+    colorIndex?: number;
+    fillIndex?: number;
     
     hashtags: string[] = [];
     internalLinks: string[] = [];
@@ -365,12 +415,24 @@ export class MNBookNoteImpl implements MNBookNote {
         }
         
         // Pages
-        note.startPage = row.ZSTART_PAGE || row.startPage;
-        note.endPage = row.ZEND_PAGE || row.endPage;
+        note.startPage = row.ZSTARTPAGE || row.ZSTART_PAGE || row.startPage;
+        note.endPage = row.ZENDPAGE || row.ZEND_PAGE || row.endPage;
+        
+        // Source document and selection
+        note.docMd5 = row.ZBOOKMD5 || row.docMd5;
+        note.startPos = row.ZSTARTPOS || row.startPos;
+        note.endPos = row.ZENDPOS || row.endPos;
         
         // Author
         note.author = row.ZAUTHOR || row.author;
         
+        // Highlight colour
+        const style = parseHighlightStyle(row.ZHIGHLIGHT_STYLE ?? row.colorIndex);
+        if (style) {
+            note.colorIndex = style.colorIndex;
+            note.fillIndex = style.fillIndex;
+        }
+        
         // Binary data
         note.notesData = row.ZNOTES || row.notesData;
         note.highlightsData = row.ZHIGHLIGHTS || row.highlightsData;
@@ -436,15 +498,15 @@ export class MNTopicImpl implements MNTopic {
             }
         }
         
-        // Dates
+        // Dates (MarginNote 4 stores them as ZDATE and ZLASTVISIT)
         const dateOffset = 978307200000;
-        if (row.ZCREATE_DATE || row.createDate) {
-            const timestamp = (row.ZCREATE_DATE || row.createDate) * 1000 + dateOffset;
-            topic.createDate = new Date(timestamp);
+        const createDate = row.ZCREATE_DATE || row.ZDATE || row.createDate;
+        if (createDate) {
+            topic.createDate = new Date(Number(createDate) * 1000 + dateOffset);
         }
-        if (row.ZMODIFY_DATE || row.modifyDate) {
-            const timestamp = (row.ZMODIFY_DATE || row.modifyDate) * 1000 + dateOffset;
-            topic.modifyDate = new Date(timestamp);
+        const modifyDate = row.ZMODIFY_DATE || row.ZLASTVISIT || row.modifyDate;
+        if (modifyDate) {
+            topic.modifyDate = new Date(Number(modifyDate) * 1000 + dateOffset);
         }
         
         return topic;
@@ -0,0 +1,86 @@
+/**
+ * Import Settings
+ * The settings of an import, shared by the Obsidian plugin (stored in its
+ * data.json) and the command-line importer (read from a settings file)
+ */
+
+import { BacklinkMode } from './core/backlink-writer';
+import { FlashcardFormat } from './core/flashcard-exporter';
+import { FilterPreset } from './core/import-filters';
+import { HierarchyMode } from './core/note-tree';
+import { ColorRule, createDefaultColorTable } from './utils/highlight-colors';
+
+export interface MarginNoteSettings {
+  converterStrategy: string;
+  showImportPreview: boolean;
+  filterPresets: FilterPreset[];
+  defaultOutputFolder: string;
+  templateFile: string;
+  importConfigFile: string;
+  frontmatterProperties: string;
+  createSubdirectories: boolean;
+  includeMetadata: boolean;
+  includeCoordinates: boolean;
+  skipEmptyNotes: boolean;
+  strictDecoding: boolean;
+  includeMedia: boolean;
+  attachmentsFolder: string;
+  exportCanvas: boolean;
+  noteHierarchy: HierarchyMode;
+  notebookFolders: boolean;
+  notebookOverview: boolean;
+  backlinks: BacklinkMode;
+  flashcardFormat: FlashcardFormat;
+  flashcardFolder: string;
+  includeReviewSchedule: boolean;
+  exportAnki: boolean;
+  colorTable: ColorRule[];
+  generateColorCss: boolean;
+  pdfMapping: string;
+  pdfRectLinks: boolean;
+  syncMode: boolean;
+  preserveUserContent: boolean;
+}
+
+export const DEFAULT_SETTINGS: MarginNoteSettings = {
+  converterStrategy: 'znoteid',
+  showImportPreview: false,
+  filterPresets: [],
+  defaultOutputFolder: 'MarginNote Import',
+  templateFile: '',
+  importConfigFile: '',
+  frontmatterProperties: '',
+  createSubdirectories: true,
+  includeMetadata: true,
+  includeCoordinates: true,
+  skipEmptyNotes: true,
+  strictDecoding: false,
+  includeMedia: true,
+  attachmentsFolder: 'attachments',
+  exportCanvas: false,
+  noteHierarchy: 'flat',
+  notebookFolders: true,
+  notebookOverview: false,
+  backlinks: 'none',
+  flashcardFormat: 'none',
+  flashcardFolder: 'Flashcards',
+  includeReviewSchedule: false,
+  exportAnki: false,
+  colorTable: createDefaultColorTable(),
+  generateColorCss: false,
+  pdfMapping: '',
+  pdfRectLinks: false,
+  syncMode: false,
+  preserveUserContent: true
+};
+
+/**
+ * Saved settings over the defaults; the colour table and filter presets are
+ * copied so editing them never touches the defaults
+ */
+export function mergeSettings(saved: Partial<MarginNoteSettings> | null | undefined): MarginNoteSettings {
+  const settings: MarginNoteSettings = Object.assign({}, DEFAULT_SETTINGS, saved);
+  settings.colorTable = settings.colorTable.map(rule => ({ ...rule }));
+  settings.filterPresets = settings.filterPresets.map(preset => ({ ...preset }));
+  return settings;
+}
@@ -0,0 +1,40 @@
+/**
+ * In-memory vault adapter for tests: the subset of Obsidian's DataAdapter the
+ * importer uses, with a hook to make chosen writes fail
+ */
+
+export class MemoryVault {
+  files = new Map<string, string | ArrayBuffer>();
+  folders = new Set<string>();
+  failingWrites = new Set<string>(); // Paths whose writes throw
+
+  async exists(path: string): Promise<boolean> {
+    return this.files.has(path) || this.folders.has(path);
+  }
+
+  async read(path: string): Promise<string> {
+    const content = this.files.get(path);
+    if (typeof content !== 'string') {
+      throw new Error(`File not found: ${path}`);
+    }
+    return content;
+  }
+
+  async write(path: string, content: string): Promise<void> {
+    if (this.failingWrites.has(path)) {
+      throw new Error(`Write failed: ${path}`);
+    }
+    this.files.set(path, content);
+  }
+
+  async writeBinary(path: string, data: ArrayBuffer): Promise<void> {
+    if (this.failingWrites.has(path)) {
+      throw new Error(`Write failed: ${path}`);
+    }
+    this.files.set(path, data);
+  }
+
+  async mkdir(path: string): Promise<void> {
+    this.folders.add(path);
+  }
+}
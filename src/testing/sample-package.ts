@@ -0,0 +1,29 @@
+/**
+ * The sample notebook package at the repository root, parsed for tests
+ * (notebook "Testing3" with documents Doc1-Doc4 and the review deck "RC1")
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { zipSync } from 'fflate';
+import { vi } from 'vitest';
+import { MarginNoteDatabaseParser } from '../core/database-parser';
+import { DatabaseData } from '../core/margin-note-importer';
+
+export const SAMPLE_PACKAGE = path.resolve(__dirname, '../../extracted_Testing3(2025-06-26-00-19-38).marginnotes');
+
+/**
+ * Parse the sample database, zipped the way MarginNote exports a .marginpkg
+ */
+export async function loadSamplePackage(): Promise<DatabaseData> {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  try {
+    const archive = zipSync({ [path.basename(SAMPLE_PACKAGE)]: new Uint8Array(fs.readFileSync(SAMPLE_PACKAGE)) });
+    return await new MarginNoteDatabaseParser().parseMarginPkg(
+      archive.buffer.slice(archive.byteOffset, archive.byteOffset + archive.byteLength)
+    );
+  } finally {
+    vi.restoreAllMocks();
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Filter Preset Modal
+ * Fuzzy picker over the saved import filter presets, used by the
+ * "Import MarginNote file with filter preset" command
+ */
+
+import { App, FuzzySuggestModal } from 'obsidian';
+import { FilterPreset } from '../core/import-filters';
+
+export class FilterPresetModal extends FuzzySuggestModal<FilterPreset> {
+  private presets: FilterPreset[];
+  private onChoose: (preset: FilterPreset) => void;
+
+  constructor(app: App, presets: FilterPreset[], onChoose: (preset: FilterPreset) => void) {
+    super(app);
+    this.presets = presets;
+    this.onChoose = onChoose;
+    this.setPlaceholder('Filter preset to import with');
+  }
+
+  getItems(): FilterPreset[] {
+    return this.presets;
+  }
+
+  getItemText(preset: FilterPreset): string {
+    const query = preset.query.split('\n').map(line => line.trim()).filter(Boolean).join('; ');
+    return query ? `${preset.name} (${query})` : preset.name;
+  }
+
+  onChooseItem(preset: FilterPreset): void {
+    this.onChoose(preset);
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Import Preview Modal
+ * Shown between picking a .marginpkg file and writing any note: lists the
+ * notebooks, source documents and note types with their note counts, the colour
+ * breakdown and a sample note, and lets the user untick what to leave out
+ */
+
+import { App, Modal, Setting } from 'obsidian';
+import { DatabaseData } from '../core/margin-note-importer';
+import { ImportPreview, ImportSelection, PreviewGroup, filterDatabaseData } from '../core/import-preview';
+
+type SelectionCategory = 'notebooks' | 'documents' | 'types';
+
+export class ImportPreviewModal extends Modal {
+  private fileName: string;
+  private databaseData: DatabaseData;
+  private preview: ImportPreview;
+  private renderSample: (selection: ImportSelection) => string;
+  private selected: Record<SelectionCategory, Set<string>>;
+  private resolve: ((selection: ImportSelection | null) => void) | null = null;
+  private summaryEl: HTMLElement | null = null;
+  private sampleEl: HTMLElement | null = null;
+  private importButton: HTMLButtonElement | null = null;
+
+  constructor(app: App, fileName: string, databaseData: DatabaseData, preview: ImportPreview,
+              renderSample: (selection: ImportSelection) => string) {
+    super(app);
+    this.fileName = fileName;
+    this.databaseData = databaseData;
+    this.preview = preview;
+    this.renderSample = renderSample;
+    this.selected = {
+      notebooks: new Set(preview.notebooks.map(group => group.id)),
+      documents: new Set(preview.documents.map(group => group.id)),
+      types: new Set(preview.types.map(group => group.id))
+    };
+  }
+
+  /**
+   * Open the modal and wait for the user's choice; null when cancelled
+   */
+  choose(): Promise<ImportSelection | null> {
+    return new Promise(resolve => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('marginnote-import-preview');
+
+    contentEl.createEl('h2', { text: `Import ${this.fileName}` });
+    this.summaryEl = contentEl.createEl('p');
+
+    this.renderGroups('Notebooks', 'notebooks', this.preview.notebooks);
+    this.renderGroups('Documents', 'documents', this.preview.documents);
+    this.renderGroups('Note types', 'types', this.preview.types);
+
+    contentEl.createEl('h3', { text: 'Colours' });
+    contentEl.createEl('p', {
+      text: this.preview.colors.map(group => `${group.label}: ${group.count}`).join(' · ') || 'No highlights'
+    });
+
+    contentEl.createEl('h3', { text: 'Sample note' });
+    this.sampleEl = contentEl.createEl('pre');
+    this.sampleEl.style.whiteSpace = 'pre-wrap';
+    this.sampleEl.style.maxHeight = '16em';
+    this.sampleEl.style.overflowY = 'auto';
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('Cancel')
+        .onClick(() => this.close()))
+      .addButton(button => {
+        this.importButton = button.buttonEl;
+        button
+          .setButtonText('Import')
+          .setCta()
+          .onClick(() => this.finish(this.getSelection()));
+      });
+
+    this.refresh();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.finish(null);
+  }
+
+  private renderGroups(title: string, category: SelectionCategory, groups: PreviewGroup[]) {
+    const { contentEl } = this;
+    contentEl.createEl('h3', { text: title });
+
+    for (const group of groups) {
+      new Setting(contentEl)
+        .setName(group.label)
+        .setDesc(`${group.count} ${group.count === 1 ? 'note' : 'notes'}`)
+        .addToggle(toggle => toggle
+          .setValue(true)
+          .onChange(value => {
+            if (value) {
+              this.selected[category].add(group.id);
+            } else {
+              this.selected[category].delete(group.id);
+            }
+            this.refresh();
+          }));
+    }
+  }
+
+  /**
+   * Only categories with something unticked restrict the import
+   */
+  private getSelection(): ImportSelection {
+    const selection: ImportSelection = {};
+    const categories: Array<[SelectionCategory, PreviewGroup[]]> = [
+      ['notebooks', this.preview.notebooks],
+      ['documents', this.preview.documents],
+      ['types', this.preview.types]
+    ];
+    for (const [category, groups] of categories) {
+      if (this.selected[category].size < groups.length) {
+        selection[category] = Array.from(this.selected[category]);
+      }
+    }
+    return selection;
+  }
+
+  private refresh() {
+    const selection = this.getSelection();
+    const count = filterDatabaseData(this.databaseData, selection).booknotes.length;
+
+    if (this.summaryEl) {
+      this.summaryEl.setText(`${count} of ${this.preview.totalNotes} notes selected. Nothing is written until you click Import.`);
+    }
+    if (this.importButton) {
+      this.importButton.disabled = count === 0;
+    }
+    if (this.sampleEl) {
+      let sample: string;
+      try {
+        sample = this.renderSample(selection);
+      } catch (error) {
+        sample = `Could not render a sample: ${(error as Error).message}`;
+      }
+      this.sampleEl.setText(sample || 'No note with text in the selection');
+    }
+  }
+
+  private finish(selection: ImportSelection | null) {
+    if (!this.resolve) return;
+    const resolve = this.resolve;
+    this.resolve = null;
+    resolve(selection);
+    if (selection) this.close();
+  }
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeFileName, uniqueFileName } from './file-names';
+
+describe('sanitizeFileName', () => {
+  it('strips characters that break paths and wikilinks', () => {
+    expect(sanitizeFileName('Doc1 #1')).toBe('Doc1 1');
+    expect(sanitizeFileName('a/b\\c:d*e?f"g<h>i|j')).toBe('abcdefghij');
+    expect(sanitizeFileName('[Block] ^ref')).toBe('Block ref');
+  });
+
+  it('collapses whitespace and trims dots', () => {
+    expect(sanitizeFileName('  ..Chapter\n\t1.. ')).toBe('Chapter 1');
+  });
+
+  it('falls back when nothing is left', () => {
+    expect(sanitizeFileName('#?')).toBe('MarginNote');
+    expect(sanitizeFileName('', 'Flashcards')).toBe('Flashcards');
+  });
+});
+
+describe('uniqueFileName', () => {
+  it('appends the owner id to clashing names', () => {
+    const used = new Set<string>();
+    expect(uniqueFileName('Doc1 1', '2F034B80-AAAA', used)).toBe('Doc1 1');
+    expect(uniqueFileName('doc1 1', '9391C59E-BBBB', used)).toBe('doc1 1 (9391C59E)');
+    expect(uniqueFileName('Doc1 1', '9391C59E-CCCC', used)).toBe('Doc1 1 (9391C59E 2)');
+  });
+});
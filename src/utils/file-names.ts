@@ -0,0 +1,31 @@
+/**
+ * File Names
+ * Vault file and folder names built from notebook, deck and note titles
+ */
+
+/**
+ * Name without path separators, characters Windows rejects or characters
+ * that break wikilinks (# ^ [ ] |); falls back when nothing is left
+ */
+export function sanitizeFileName(name: string, fallback = 'MarginNote'): string {
+  return name
+    .replace(/\s+/g, ' ')
+    .replace(/[<>:"/\\|?*#^[\]\x00-\x1F]/g, '')
+    .replace(/^[.\s]+|[.\s]+$/g, '') || fallback;
+}
+
+/**
+ * Name unique (case-insensitively) among the names already used in a folder:
+ * a clash gets the first 8 characters of its owner's id appended
+ */
+export function uniqueFileName(name: string, ownerId: string, usedNames: Set<string>): string {
+  let unique = name;
+  if (usedNames.has(unique.toLowerCase())) {
+    unique = `${name} (${ownerId.substring(0, 8)})`;
+  }
+  for (let index = 2; usedNames.has(unique.toLowerCase()); index++) {
+    unique = `${name} (${ownerId.substring(0, 8)} ${index})`;
+  }
+  usedNames.add(unique.toLowerCase());
+  return unique;
+}
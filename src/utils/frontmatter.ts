@@ -0,0 +1,53 @@
+/**
+ * Frontmatter helpers for post-processing written notes
+ *
+ * Sets or removes top-level properties in place, leaving the other properties
+ * and their formatting untouched.
+ */
+
+import { stringifyYaml } from './yaml';
+
+export type FrontmatterValue = string | number | boolean | Date | string[] | null;
+
+const FRONTMATTER_PATTERN = /^---\n([\s\S]*?)\n---(?:\n|$)/;
+
+/**
+ * Replace the given properties (null removes one); a note without frontmatter gets a new block
+ */
+export function setFrontmatterProperties(content: string, properties: Record<string, FrontmatterValue>): string {
+  const keys = new Set(Object.keys(properties));
+  const match = content.match(FRONTMATTER_PATTERN);
+
+  // Existing lines, minus the properties being replaced and their continuation lines
+  const kept: string[] = [];
+  if (match) {
+    let skipping = false;
+    for (const line of match[1].split('\n')) {
+      const keyMatch = line.match(/^([^\s#:][^:]*):(\s|$)/);
+      if (keyMatch) {
+        skipping = keys.has(keyMatch[1].trim());
+      } else if (skipping && !/^\s/.test(line)) {
+        skipping = false;
+      }
+      if (!skipping) {
+        kept.push(line);
+      }
+    }
+  }
+
+  const added: string[] = [];
+  for (const [key, value] of Object.entries(properties)) {
+    if (value === null) continue;
+    added.push(stringifyYaml({ [key]: value }));
+  }
+
+  if (!match) {
+    return added.length > 0 ? `---\n${added.join('\n')}\n---\n\n${content}` : content;
+  }
+  if (added.length === 0 && kept.length === match[1].split('\n').length) {
+    return content;
+  }
+
+  const lines = [...kept, ...added];
+  return content.replace(FRONTMATTER_PATTERN, () => lines.length > 0 ? `---\n${lines.join('\n')}\n---\n` : '');
+}
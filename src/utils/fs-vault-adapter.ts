@@ -0,0 +1,54 @@
+/**
+ * File System Vault Adapter
+ * The subset of Obsidian's DataAdapter the importer uses, over a vault folder on
+ * disk. Paths are vault paths relative to that folder, the way Obsidian passes
+ * them, so the links written into notes resolve when the folder is opened as a vault.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export class FsVaultAdapter {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async exists(vaultPath: string): Promise<boolean> {
+    return fs.existsSync(this.resolve(vaultPath));
+  }
+
+  async read(vaultPath: string): Promise<string> {
+    return fs.readFileSync(this.resolve(vaultPath), 'utf-8');
+  }
+
+  async write(vaultPath: string, content: string): Promise<void> {
+    const filePath = this.resolve(vaultPath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content, 'utf-8');
+  }
+
+  async writeBinary(vaultPath: string, data: ArrayBuffer): Promise<void> {
+    const filePath = this.resolve(vaultPath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, Buffer.from(data));
+  }
+
+  async mkdir(vaultPath: string): Promise<void> {
+    fs.mkdirSync(this.resolve(vaultPath), { recursive: true });
+  }
+
+  /**
+   * Vault path of a file system path, or null when it lies outside the vault
+   */
+  toVaultPath(filePath: string): string | null {
+    const relative = path.relative(this.root, path.resolve(filePath));
+    if (relative.startsWith('..') || path.isAbsolute(relative)) return null;
+    return relative.split(path.sep).join('/');
+  }
+
+  private resolve(vaultPath: string): string {
+    return path.join(this.root, ...vaultPath.split('/'));
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { ColorRule, HighlightColorizer, createDefaultColorTable, parseHighlightStyle, renderColorCss } from './highlight-colors';
+
+const rule = (index: number, fields: Partial<ColorRule>): ColorRule =>
+  ({ index, name: '', tag: '', callout: '', highlight: false, ...fields });
+
+describe('parseHighlightStyle', () => {
+  it('reads the fill style and colour index from ZHIGHLIGHT_STYLE', () => {
+    expect(parseHighlightStyle('mbooks-annotation1e')).toEqual({ colorIndex: 14, fillIndex: 1 });
+    expect(parseHighlightStyle('mbooks-annotation3')).toEqual({ colorIndex: 3, fillIndex: 0 });
+    expect(parseHighlightStyle(7)).toEqual({ colorIndex: 7, fillIndex: 0 });
+    expect(parseHighlightStyle('18')).toEqual({ colorIndex: 2, fillIndex: 0 });
+    expect(parseHighlightStyle('')).toBeUndefined();
+    expect(parseHighlightStyle('solid')).toBeUndefined();
+  });
+});
+
+describe('HighlightColorizer', () => {
+  const colorizer = new HighlightColorizer([
+    rule(3, { name: 'Important', tag: '#key point', callout: 'warning', highlight: true }),
+    rule(5, { name: '', highlight: true }),
+    rule(6, { name: 'Question', callout: 'question' })
+  ]);
+
+  it('names colours from the table, then the palette', () => {
+    expect(colorizer.getName(3)).toBe('Important');
+    expect(colorizer.getName(5)).toBe('Green');
+    expect(colorizer.getName(undefined)).toBe('');
+    expect(new HighlightColorizer(createDefaultColorTable()).getName(15)).toBe('Purple');
+  });
+
+  it('renders excerpts per the colour rule', () => {
+    expect(colorizer.formatExcerpt('first ==line==\n\nsecond', 3)).toEqual([
+      '> [!warning] Important',
+      '> ==first line==',
+      '> ==second=='
+    ]);
+    expect(colorizer.formatExcerpt('text', 5)).toEqual(['> ==text==']);
+    expect(colorizer.formatExcerpt('text', 6)).toEqual(['> [!question] Question', '> text']);
+    expect(colorizer.formatExcerpt('text', 0)).toEqual(['> text']);
+    expect(colorizer.isStyled(0)).toBe(false);
+    expect(colorizer.isStyled(6)).toBe(true);
+  });
+
+  it('turns the tag into one #tag', () => {
+    expect(colorizer.getTags(3)).toEqual(['#key-point']);
+    expect(colorizer.getTags(6)).toEqual([]);
+  });
+});
+
+describe('renderColorCss', () => {
+  it('colours configured callouts and tags with the palette colour', () => {
+    const css = renderColorCss([
+      rule(3, { callout: 'warning', tag: 'key point' }),
+      rule(0, {}),
+      rule(16, { callout: 'note' })
+    ]);
+
+    expect(css).toContain('.callout[data-callout="warning"] {\n  --callout-color: 243, 174, 190;\n}');
+    expect(css).toContain('a.tag[href="#key-point"], .cm-hashtag.cm-tag-key-point {\n  background-color: rgba(243, 174, 190, 0.35);\n}');
+    expect(css).not.toContain('data-callout="note"');
+    expect(css.match(/\{/g)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Highlight colours
+ *
+ * MarginNote stores a highlight's colour (one of 16 palette entries) and fill
+ * style in ZHIGHLIGHT_STYLE. A colour table gives each colour a meaning in the
+ * vault: a name, a tag, a callout type and/or ==highlight== styling, plus an
+ * optional CSS snippet so the colours also show up when rendered.
+ */
+
+export interface ColorRule {
+  index: number;      // MarginNote colour index (0-15)
+  name: string;
+  tag: string;        // Added as #tag when set
+  callout: string;    // Excerpt rendered as a > [!callout] block when set
+  highlight: boolean; // Excerpt lines wrapped in ==...==
+}
+
+export interface HighlightStyle {
+  colorIndex: number;
+  fillIndex: number;
+}
+
+// MarginNote 4 palette, by colour index
+export const MARGINNOTE_COLORS: Array<{ name: string; hex: string }> = [
+  { name: 'Light yellow', hex: '#ffffb4' },
+  { name: 'Light green', hex: '#ccfdc4' },
+  { name: 'Light blue', hex: '#b4d1fb' },
+  { name: 'Light red', hex: '#f3aebe' },
+  { name: 'Yellow', hex: '#ffff54' },
+  { name: 'Green', hex: '#75fb4c' },
+  { name: 'Blue', hex: '#55bbf9' },
+  { name: 'Red', hex: '#ea3323' },
+  { name: 'Orange', hex: '#ef8733' },
+  { name: 'Dark green', hex: '#377e47' },
+  { name: 'Dark blue', hex: '#173dac' },
+  { name: 'Dark red', hex: '#be3223' },
+  { name: 'White', hex: '#ffffff' },
+  { name: 'Light gray', hex: '#dadada' },
+  { name: 'Gray', hex: '#b4b4b4' },
+  { name: 'Purple', hex: '#bd9fdc' }
+];
+
+export const CALLOUT_TYPES = [
+  'note', 'abstract', 'info', 'todo', 'tip', 'success', 'question',
+  'warning', 'failure', 'danger', 'bug', 'example', 'quote'
+];
+
+/**
+ * One rule per palette colour, named after it and with no styling
+ */
+export function createDefaultColorTable(): ColorRule[] {
+  return MARGINNOTE_COLORS.map((color, index) => ({
+    index,
+    name: color.name,
+    tag: '',
+    callout: '',
+    highlight: false
+  }));
+}
+
+/**
+ * Parse ZHIGHLIGHT_STYLE. MarginNote writes "mbooks-annotation1e": a hex byte with
+ * the fill style in the high nibble and the colour index in the low one.
+ * Plain numbers are taken as the colour index.
+ */
+export function parseHighlightStyle(style: any): HighlightStyle | undefined {
+  if (style === null || style === undefined || style === '') return undefined;
+
+  if (typeof style === 'number') {
+    return { colorIndex: style & 0x0f, fillIndex: 0 };
+  }
+
+  const annotation = String(style).match(/annotation([0-9a-f]{1,2})$/i);
+  if (annotation) {
+    const code = parseInt(annotation[1], 16);
+    return { colorIndex: code & 0x0f, fillIndex: code >> 4 };
+  }
+
+  const index = parseInt(String(style), 10);
+  return isNaN(index) ? undefined : { colorIndex: index & 0x0f, fillIndex: 0 };
+}
+
+export class HighlightColorizer {
+  private rules = new Map<number, ColorRule>();
+
+  constructor(table: ColorRule[] = []) {
+    for (const rule of table) {
+      this.rules.set(rule.index, rule);
+    }
+  }
+
+  getRule(colorIndex?: number): ColorRule | undefined {
+    return colorIndex === undefined ? undefined : this.rules.get(colorIndex);
+  }
+
+  /**
+   * Name from the colour table, else the palette name
+   */
+  getName(colorIndex?: number): string {
+    if (colorIndex === undefined) return '';
+    return this.getRule(colorIndex)?.name || MARGINNOTE_COLORS[colorIndex]?.name || '';
+  }
+
+  /**
+   * Whether the colour changes how an excerpt is rendered
+   */
+  isStyled(colorIndex?: number): boolean {
+    const rule = this.getRule(colorIndex);
+    return !!rule && (rule.highlight || !!rule.callout);
+  }
+
+  /**
+   * Render an excerpt as blockquote lines, as a callout or with ==highlight== per its colour rule
+   */
+  formatExcerpt(text: string, colorIndex?: number): string[] {
+    const rule = this.getRule(colorIndex);
+    const lines = text.trim().split('\n').filter(line => line.trim());
+    const body = rule && rule.highlight
+      ? lines.map(line => `==${line.trim().replace(/==/g, '')}==`)
+      : lines;
+
+    if (rule && rule.callout) {
+      return [`> [!${rule.callout}] ${rule.name}`, ...body.map(line => `> ${line}`)];
+    }
+    return body.map(line => `> ${line}`);
+  }
+
+  /**
+   * Tags for the colour, in #tag form
+   */
+  getTags(colorIndex?: number): string[] {
+    const rule = this.getRule(colorIndex);
+    if (!rule || !rule.tag.trim()) return [];
+    return [`#${rule.tag.trim().replace(/^#/, '').replace(/\s+/g, '-')}`];
+  }
+}
+
+/**
+ * CSS snippet colouring the configured callouts and tags with their MarginNote colour
+ */
+export function renderColorCss(table: ColorRule[]): string {
+  const lines: string[] = ['/* MarginNote highlight colours (generated by the MarginNote importer) */', ''];
+
+  for (const rule of table) {
+    const color = MARGINNOTE_COLORS[rule.index];
+    if (!color) continue;
+    const rgb = hexToRgb(color.hex);
+
+    if (rule.callout) {
+      lines.push(`.callout[data-callout="${rule.callout}"] {`);
+      lines.push(`  --callout-color: ${rgb};`);
+      lines.push('}');
+      lines.push('');
+    }
+
+    const tag = rule.tag.trim().replace(/^#/, '').replace(/\s+/g, '-');
+    if (tag) {
+      lines.push(`a.tag[href="#${tag}"], .cm-hashtag.cm-tag-${tag.replace(/[^\w-]/g, '')} {`);
+      lines.push(`  background-color: rgba(${rgb}, 0.35);`);
+      lines.push('}');
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function hexToRgb(hex: string): string {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return `${(value >> 16) & 0xff}, ${(value >> 8) & 0xff}, ${value & 0xff}`;
+}
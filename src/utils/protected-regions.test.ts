@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  KEEP_BELOW_SENTINEL,
+  extractProtectedContent,
+  hasUserContent,
+  mergeProtectedContent
+} from './protected-regions';
+
+const generated = [
+  '---',
+  'noteId: A',
+  'tags:',
+  '  - imported',
+  '---',
+  '',
+  '# Title',
+  '',
+  '%% marginnote:user-start Thoughts %%',
+  '%% marginnote:user-end %%',
+  '',
+  'Excerpt'
+].join('\n');
+
+describe('extractProtectedContent', () => {
+  it('collects named and default blocks, the keep-below tail and user properties', () => {
+    const existing = [
+      '---',
+      'noteId: A',
+      'rating: 5',
+      'aliases:',
+      '  - First',
+      '---',
+      '%% marginnote:user-start Thoughts %%',
+      'Mine',
+      '%% marginnote:user-end %%',
+      '%% marginnote:user-start %%',
+      'Unnamed',
+      '%% marginnote:user-end %%',
+      KEEP_BELOW_SENTINEL,
+      'Tail text'
+    ].join('\n');
+
+    const content = extractProtectedContent(existing, new Set(['noteId']));
+    expect(Array.from(content.blocks)).toEqual([['Thoughts', 'Mine\n'], ['default', 'Unnamed\n']]);
+    expect(content.tail).toBe(`${KEEP_BELOW_SENTINEL}\nTail text`);
+    expect(Array.from(content.userFrontmatter.keys())).toEqual(['rating', 'aliases']);
+    expect(content.userFrontmatter.get('aliases')).toBe('aliases:\n  - First');
+  });
+});
+
+describe('hasUserContent', () => {
+  it('does not count the properties the generated note writes', () => {
+    expect(hasUserContent(generated, generated)).toBe(false);
+  });
+
+  it('counts properties the user added', () => {
+    const existing = generated.replace('noteId: A', 'noteId: A\nrating: 5');
+    expect(hasUserContent(existing, generated)).toBe(true);
+  });
+
+  it('counts filled blocks and the keep-below tail', () => {
+    expect(hasUserContent(`${generated}\n${KEEP_BELOW_SENTINEL}\nMore`, generated)).toBe(true);
+    expect(hasUserContent(generated.replace('Thoughts %%\n', 'Thoughts %%\nMine\n'), generated)).toBe(true);
+  });
+});
+
+describe('mergeProtectedContent', () => {
+  it('returns the generated note when the existing one holds no user content', () => {
+    expect(mergeProtectedContent(generated, generated.replace('Excerpt', 'Old excerpt'))).toBe(generated);
+  });
+
+  it('fills blocks in place and keeps user properties and the tail', () => {
+    const existing = [
+      '---',
+      'noteId: A',
+      'rating: 5',
+      '---',
+      '%% marginnote:user-start Thoughts %%',
+      'Mine',
+      '%% marginnote:user-end %%',
+      KEEP_BELOW_SENTINEL,
+      'Tail'
+    ].join('\n');
+
+    const merged = mergeProtectedContent(generated, existing);
+    expect(merged).toContain('tags:\n  - imported\nrating: 5\n---');
+    expect(merged).toContain('%% marginnote:user-start Thoughts %%\nMine\n%% marginnote:user-end %%\n\nExcerpt');
+    expect(merged.endsWith(`Excerpt\n\n${KEEP_BELOW_SENTINEL}\nTail`)).toBe(true);
+  });
+
+  it('appends blocks the generated note has no marker for', () => {
+    const existing = '%% marginnote:user-start Extra %%\nKept\n%% marginnote:user-end %%';
+    expect(mergeProtectedContent('Body', existing)).toBe('Body\n\n%% marginnote:user-start Extra %%\nKept\n%% marginnote:user-end %%');
+  });
+
+  it('drops properties the caller marks as generated', () => {
+    const existing = '---\nnoteId: A\nsr-due: 2025-01-01\n---\n';
+    expect(mergeProtectedContent(generated, existing)).toContain('sr-due');
+    expect(mergeProtectedContent(generated, existing, key => key.startsWith('sr-'))).toBe(generated);
+  });
+});
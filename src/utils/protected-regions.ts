@@ -0,0 +1,158 @@
+/**
+ * Protected regions for re-imported notes
+ *
+ * Lets users annotate imported notes without losing their text on the next import.
+ * Three kinds of user content survive a rewrite:
+ *
+ *   %% marginnote:user-start My notes %%
+ *   ...carried over verbatim...
+ *   %% marginnote:user-end %%
+ *
+ *   %% marginnote:keep-below %%
+ *   ...everything from the sentinel to the end of the file...
+ *
+ * plus any frontmatter properties the user added that the converter does not generate.
+ */
+
+export const USER_BLOCK_START = 'marginnote:user-start';
+export const USER_BLOCK_END = 'marginnote:user-end';
+export const KEEP_BELOW_SENTINEL = '%% marginnote:keep-below %%';
+
+const DEFAULT_BLOCK_NAME = 'default';
+const BLOCK_PATTERN = /%%\s*marginnote:user-start(?:[ \t]+([^%\n]*?))?\s*%%\n?([\s\S]*?)%%\s*marginnote:user-end\s*%%/g;
+const FRONTMATTER_PATTERN = /^---\n([\s\S]*?)\n---(?:\n|$)/;
+
+export interface ProtectedContent {
+  blocks: Map<string, string>;
+  tail: string | null;
+  userFrontmatter: Map<string, string>;
+}
+
+/**
+ * Collect the user-owned parts of an existing note
+ */
+export function extractProtectedContent(existing: string, generatedKeys: Set<string> = new Set()): ProtectedContent {
+  const blocks = new Map<string, string>();
+  let body = existing;
+  let tail: string | null = null;
+
+  // Everything below the sentinel belongs to the user
+  const sentinelIndex = body.indexOf(KEEP_BELOW_SENTINEL);
+  if (sentinelIndex !== -1) {
+    tail = body.substring(sentinelIndex);
+    body = body.substring(0, sentinelIndex);
+  }
+
+  for (const match of body.matchAll(BLOCK_PATTERN)) {
+    const name = (match[1] || '').trim() || DEFAULT_BLOCK_NAME;
+    blocks.set(name, match[2]);
+  }
+
+  // Frontmatter properties that the converter did not write
+  const userFrontmatter = new Map<string, string>();
+  for (const [key, entry] of splitFrontmatterEntries(existing)) {
+    if (!generatedKeys.has(key)) {
+      userFrontmatter.set(key, entry);
+    }
+  }
+
+  return { blocks, tail, userFrontmatter };
+}
+
+/**
+ * Check whether a note holds any user content worth carrying over
+ */
+export function hasProtectedContent(content: ProtectedContent): boolean {
+  return content.blocks.size > 0 || content.tail !== null || content.userFrontmatter.size > 0;
+}
+
+/**
+ * Check whether an existing note holds user content that rewriting it with the
+ * generated content would lose. Properties the generated note writes and empty
+ * blocks do not count.
+ */
+export function hasUserContent(existing: string, generated: string): boolean {
+  const generatedKeys = new Set(splitFrontmatterEntries(generated).map(([key]) => key));
+  const user = extractProtectedContent(existing, generatedKeys);
+  return Array.from(user.blocks.values()).some(text => text.trim() !== '') ||
+    user.tail !== null || user.userFrontmatter.size > 0;
+}
+
+/**
+ * Merge freshly generated note content with the user-owned parts of the existing note.
+ * Blocks whose markers appear in the generated content are filled in place;
+ * the rest are appended at the end, followed by the keep-below tail.
+ * isGeneratedKey marks other properties the converter owns (e.g. ones it no longer writes).
+ */
+export function mergeProtectedContent(generated: string, existing: string,
+                                      isGeneratedKey?: (key: string) => boolean): string {
+  const generatedKeys = new Set(splitFrontmatterEntries(generated).map(([key]) => key));
+  const user = extractProtectedContent(existing, generatedKeys);
+  if (isGeneratedKey) {
+    for (const key of Array.from(user.userFrontmatter.keys())) {
+      if (isGeneratedKey(key)) user.userFrontmatter.delete(key);
+    }
+  }
+  if (!hasProtectedContent(user)) {
+    return generated;
+  }
+
+  const placed = new Set<string>();
+  let merged = generated.replace(BLOCK_PATTERN, (whole, rawName) => {
+    const name = (rawName || '').trim() || DEFAULT_BLOCK_NAME;
+    if (!user.blocks.has(name)) return whole;
+
+    placed.add(name);
+    return formatBlock(name, user.blocks.get(name)!);
+  });
+
+  merged = mergeFrontmatter(merged, user.userFrontmatter);
+
+  const remaining = Array.from(user.blocks.entries()).filter(([name]) => !placed.has(name));
+  if (remaining.length > 0) {
+    merged = merged.replace(/\s*$/, '\n\n') + remaining.map(([name, text]) => formatBlock(name, text)).join('\n\n');
+  }
+
+  if (user.tail !== null) {
+    merged = merged.replace(/\s*$/, '\n\n') + user.tail;
+  }
+
+  return merged;
+}
+
+function formatBlock(name: string, text: string): string {
+  const label = name === DEFAULT_BLOCK_NAME ? '' : ` ${name}`;
+  return `%% ${USER_BLOCK_START}${label} %%\n${text}%% ${USER_BLOCK_END} %%`;
+}
+
+/**
+ * Split frontmatter into top-level entries, keeping continuation lines with their key
+ */
+function splitFrontmatterEntries(content: string): Array<[string, string]> {
+  const match = content.match(FRONTMATTER_PATTERN);
+  if (!match) return [];
+
+  const entries: Array<[string, string]> = [];
+  for (const line of match[1].split('\n')) {
+    const keyMatch = line.match(/^([^\s#:][^:]*):(\s|$)/);
+    if (keyMatch) {
+      entries.push([keyMatch[1].trim(), line]);
+    } else if (entries.length > 0) {
+      entries[entries.length - 1][1] += `\n${line}`;
+    }
+  }
+
+  return entries;
+}
+
+function mergeFrontmatter(content: string, userFrontmatter: Map<string, string>): string {
+  if (userFrontmatter.size === 0) return content;
+
+  const userLines = Array.from(userFrontmatter.values()).join('\n');
+  const match = content.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    return `---\n${userLines}\n---\n\n${content}`;
+  }
+
+  return content.replace(FRONTMATTER_PATTERN, () => `---\n${match[1]}\n${userLines}\n---\n`);
+}
@@ -0,0 +1,56 @@
+/**
+ * SHA-1
+ * Plain TypeScript digest for the places that need SHA-1 synchronously and on
+ * every platform, including Obsidian mobile where Node's crypto module is missing
+ */
+
+/**
+ * SHA-1 digest of a string's UTF-8 bytes, as 40 lowercase hex digits
+ */
+export function sha1Hex(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+
+  // Pad to a multiple of 64 bytes: 0x80, zeros, then the bit length as a 64-bit big-endian number
+  const length = Math.ceil((bytes.length + 9) / 64) * 64;
+  const message = new Uint8Array(length);
+  message.set(bytes);
+  message[bytes.length] = 0x80;
+  const view = new DataView(message.buffer);
+  view.setUint32(length - 8, Math.floor(bytes.length / 0x20000000));
+  view.setUint32(length - 4, (bytes.length * 8) >>> 0);
+
+  const hash = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+  const words = new Uint32Array(80);
+  const rotate = (value: number, bits: number) => (value << bits) | (value >>> (32 - bits));
+
+  for (let offset = 0; offset < length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      words[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 80; i++) {
+      words[i] = rotate(words[i - 3] ^ words[i - 8] ^ words[i - 14] ^ words[i - 16], 1);
+    }
+
+    let [a, b, c, d, e] = hash;
+    for (let i = 0; i < 80; i++) {
+      const [f, k] = i < 20 ? [(b & c) | (~b & d), 0x5a827999]
+        : i < 40 ? [b ^ c ^ d, 0x6ed9eba1]
+        : i < 60 ? [(b & c) | (b & d) | (c & d), 0x8f1bbcdc]
+        : [b ^ c ^ d, 0xca62c1d6];
+      const temp = (rotate(a, 5) + f + e + k + words[i]) >>> 0;
+      e = d;
+      d = c;
+      c = rotate(b, 30) >>> 0;
+      b = a;
+      a = temp;
+    }
+
+    hash[0] = (hash[0] + a) >>> 0;
+    hash[1] = (hash[1] + b) >>> 0;
+    hash[2] = (hash[2] + c) >>> 0;
+    hash[3] = (hash[3] + d) >>> 0;
+    hash[4] = (hash[4] + e) >>> 0;
+  }
+
+  return hash.map(word => `0000000${word.toString(16)}`.slice(-8)).join('');
+}
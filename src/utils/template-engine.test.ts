@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { CompiledTemplate, TemplateError, formatDate, renderTemplate, validateTemplate } from './template-engine';
+
+describe('renderTemplate', () => {
+  it('outputs fields, nested paths and array indices', () => {
+    const context = { title: 'Note', note: { excerptText: 'Quote' }, linkedNotes: [{ linktext: 'Other' }] };
+    expect(renderTemplate('{{title}}: {{note.excerptText}} -> {{linkedNotes.0.linktext}}{{missing}}', context))
+      .toBe('Note: Quote -> Other');
+  });
+
+  it('applies filters with arguments in order', () => {
+    const context = { title: ' a long title ', tags: ['#a', '#b'], text: 'one\ntwo' };
+    expect(renderTemplate('{{title | trim | capitalize | truncate:8}}', context)).toBe('A lon...');
+    expect(renderTemplate('{{tags | join:" "}} {{tags | length}} {{tags | last}}', context)).toBe('#a #b 2 #b');
+    expect(renderTemplate('{{text | quote}}', context)).toBe('> one\n> two');
+    expect(renderTemplate('{{empty | default:"none"}} {{title | replace:"long","short" | trim}}', context))
+      .toBe('none a short title');
+  });
+
+  it('formats dates in local time', () => {
+    const createDate = new Date(2025, 4, 20, 6, 1, 21);
+    expect(renderTemplate('{{createDate | date:"YYYY-MM-DD HH:mm:ss"}}', { createDate })).toBe('2025-05-20 06:01:21');
+    expect(renderTemplate('{{createDate | date}}', { createDate: 'not a date' })).toBe('');
+  });
+
+  it('renders if, unless and else blocks, with comparisons', () => {
+    const template = '{{#if notesText}}has notes{{else}}no notes{{/if}}|{{#unless hidden}}shown{{/unless}}|' +
+      '{{#if colorName == "Red"}}red{{/if}}{{#if colorName != "Red"}}other{{/if}}';
+    expect(renderTemplate(template, { notesText: 'x', colorName: 'Red' })).toBe('has notes|shown|red');
+    expect(renderTemplate(template, { notesText: '', hidden: true, colorName: 'Blue' })).toBe('no notes||other');
+  });
+
+  it('loops with locals and falls back on else for empty lists', () => {
+    const template = '{{#each comments}}{{@number}}/{{comments | length}} {{text}} ({{title}}){{#unless @last}}, {{/unless}}{{else}}none{{/each}}';
+    expect(renderTemplate(template, { title: 'T', comments: [{ text: 'a' }, { text: 'b' }] }))
+      .toBe('1/2 a (T), 2/2 b (T)');
+    expect(renderTemplate(template, { comments: [] })).toBe('none');
+  });
+
+  it('drops comments and leaves no blank lines for standalone block tags', () => {
+    const template = '# {{title}}\n{{! hidden }}\n{{#if excerptText}}\n{{excerptText}}\n{{/if}}\nend';
+    expect(renderTemplate(template, { title: 'T', excerptText: 'E' })).toBe('# T\nE\nend');
+    expect(renderTemplate(template, { title: 'T' })).toBe('# T\nend');
+  });
+
+  it('accepts custom filters', () => {
+    const template = new CompiledTemplate('{{title | shout}}', { shout: value => `${value}!` });
+    expect(template.render({ title: 'hi' })).toBe('hi!');
+  });
+});
+
+describe('validateTemplate', () => {
+  it('reports syntax errors with their line', () => {
+    expect(() => validateTemplate('{{#if x}}\nopen')).toThrow(TemplateError);
+    expect(() => validateTemplate('{{#if x}}\nopen')).toThrow('Missing {{/if}} for {{#if}}');
+    expect(() => validateTemplate('ok\n{{/each}}')).toThrow('(line 2)');
+    expect(() => validateTemplate('{{title | nope}}')).toThrow('Unknown filter "nope"');
+    expect(() => validateTemplate('{{#loop items}}{{/loop}}')).toThrow('Unknown block');
+  });
+
+  it('accepts valid templates', () => {
+    expect(() => validateTemplate('{{#each a}}{{#if b}}{{c | upper}}{{/if}}{{/each}}')).not.toThrow();
+  });
+});
+
+describe('formatDate', () => {
+  it('replaces moment-style tokens', () => {
+    expect(formatDate(new Date(2025, 0, 5, 7, 8, 9), 'YY/M/D H:mm:ss [YYYY-MM-DD HH]'))
+      .toBe('25/1/5 7:08:09 [2025-01-05 07]');
+  });
+});
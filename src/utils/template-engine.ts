@@ -0,0 +1,469 @@
+/**
+ * Template Engine
+ *
+ * Small Handlebars-style language for user-editable note templates:
+ *
+ *   {{title}}  {{note.excerptText}}  {{linkedNotes.0.linktext}}
+ *   {{createDate | date:"YYYY-MM-DD"}}  {{excerptText | quote}}  {{tags | join:" "}}
+ *   {{#if notesText}}...{{else}}...{{/if}}  {{#unless hidden}}...{{/unless}}
+ *   {{#if colorName == "Red"}}...{{/if}}
+ *   {{#each comments}}- {{text}} ({{@number}} of {{comments | length}}){{/each}}
+ *   {{! comments are dropped }}
+ *
+ * Names are looked up in the innermost scope first, so fields of the note stay
+ * reachable inside loops. Block tags on a line of their own leave no blank line.
+ */
+
+export class TemplateError extends Error {
+  constructor(message: string, public line?: number) {
+    super(line ? `${message} (line ${line})` : message);
+    this.name = 'TemplateError';
+  }
+}
+
+export type TemplateFilter = (value: any, ...args: any[]) => any;
+
+interface Expression {
+  path: string;
+  filters: Array<{ name: string; args: any[] }>;
+}
+
+interface Condition {
+  left: Expression;
+  operator?: '==' | '!=';
+  right?: Expression | { literal: any };
+}
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'output'; expression: Expression }
+  | { type: 'if'; negate: boolean; condition: Condition; body: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; expression: Expression; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+interface Token {
+  kind: 'text' | 'tag';
+  value: string;
+  line: number;
+}
+
+interface Scope {
+  value: any;
+  locals: Record<string, any>;
+  parent?: Scope;
+}
+
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+const ARGUMENT_PATTERN = /"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|(-?\d+(?:\.\d+)?)(?![\w.])|([^\s,"']+)/g;
+
+export const TEMPLATE_FILTERS: Record<string, TemplateFilter> = {
+  date: (value, format = 'YYYY-MM-DD') => {
+    const date = toDate(value);
+    return date ? formatDate(date, String(format)) : '';
+  },
+  upper: value => toText(value).toUpperCase(),
+  lower: value => toText(value).toLowerCase(),
+  capitalize: value => {
+    const text = toText(value);
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  },
+  trim: value => toText(value).trim(),
+  default: (value, fallback = '') => isTruthy(value) ? value : fallback,
+  join: (value, separator = ', ') => Array.isArray(value) ? value.map(toText).join(String(separator)) : toText(value),
+  truncate: (value, length = 50, suffix = '...') => {
+    const text = toText(value);
+    const max = Number(length);
+    return text.length > max ? text.substring(0, Math.max(0, max - String(suffix).length)) + suffix : text;
+  },
+  replace: (value, search = '', replacement = '') => toText(value).split(String(search)).join(String(replacement)),
+  quote: value => toText(value).split('\n').map(line => `> ${line}`).join('\n'),
+  indent: (value, width = 2) => toText(value).split('\n').map(line => ' '.repeat(Number(width)) + line).join('\n'),
+  firstline: value => toText(value).split('\n')[0],
+  json: value => JSON.stringify(value ?? null),
+  length: value => Array.isArray(value) || typeof value === 'string' ? value.length : (value ? Object.keys(value).length : 0),
+  first: value => Array.isArray(value) ? value[0] : value,
+  last: value => Array.isArray(value) ? value[value.length - 1] : value
+};
+
+/**
+ * A parsed template, rendered against any number of contexts
+ */
+export class CompiledTemplate {
+  private nodes: TemplateNode[];
+  private filters: Record<string, TemplateFilter>;
+
+  constructor(source: string, filters: Record<string, TemplateFilter> = {}) {
+    this.filters = { ...TEMPLATE_FILTERS, ...filters };
+    this.nodes = new TemplateParser(tokenize(source), this.filters).parse();
+  }
+
+  render(context: Record<string, any>): string {
+    return this.renderNodes(this.nodes, { value: context, locals: {} });
+  }
+
+  private renderNodes(nodes: TemplateNode[], scope: Scope): string {
+    let output = '';
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          output += node.text;
+          break;
+        case 'output':
+          output += toText(this.evaluate(node.expression, scope));
+          break;
+        case 'if': {
+          const passed = this.test(node.condition, scope) !== node.negate;
+          output += this.renderNodes(passed ? node.body : node.otherwise, scope);
+          break;
+        }
+        case 'each': {
+          const items = toList(this.evaluate(node.expression, scope));
+          if (items.length === 0) {
+            output += this.renderNodes(node.otherwise, scope);
+          }
+          items.forEach(([key, item], index) => {
+            output += this.renderNodes(node.body, {
+              value: item,
+              locals: {
+                '@index': index,
+                '@number': index + 1,
+                '@key': key,
+                '@first': index === 0,
+                '@last': index === items.length - 1
+              },
+              parent: scope
+            });
+          });
+          break;
+        }
+      }
+    }
+    return output;
+  }
+
+  private test(condition: Condition, scope: Scope): boolean {
+    const left = this.evaluate(condition.left, scope);
+    if (!condition.operator || !condition.right) {
+      return isTruthy(left);
+    }
+
+    const right = 'literal' in condition.right ? condition.right.literal : this.evaluate(condition.right, scope);
+    const equal = toText(left) === toText(right);
+    return condition.operator === '==' ? equal : !equal;
+  }
+
+  private evaluate(expression: Expression, scope: Scope): any {
+    let value = lookup(expression.path, scope);
+    for (const filter of expression.filters) {
+      value = this.filters[filter.name](value, ...filter.args.map(arg =>
+        arg && typeof arg === 'object' && 'path' in arg ? lookup(arg.path, scope) : arg));
+    }
+    return value;
+  }
+}
+
+/**
+ * Parse and render in one go
+ */
+export function renderTemplate(source: string, context: Record<string, any>): string {
+  return new CompiledTemplate(source).render(context);
+}
+
+/**
+ * Parse a template without rendering it, throwing a TemplateError on syntax errors
+ */
+export function validateTemplate(source: string): void {
+  new CompiledTemplate(source);
+}
+
+class TemplateParser {
+  private position = 0;
+
+  constructor(private tokens: Token[], private filters: Record<string, TemplateFilter>) {}
+
+  parse(): TemplateNode[] {
+    const { nodes, closedBy } = this.parseUntil([]);
+    if (closedBy) {
+      throw new TemplateError(`Unexpected {{${closedBy.value}}}`, closedBy.line);
+    }
+    return nodes;
+  }
+
+  /**
+   * Parse nodes until one of the given closing tags (or the end of the template)
+   */
+  private parseUntil(closers: string[]): { nodes: TemplateNode[]; closedBy?: Token } {
+    const nodes: TemplateNode[] = [];
+
+    while (this.position < this.tokens.length) {
+      const token = this.tokens[this.position++];
+      if (token.kind === 'text') {
+        if (token.value) nodes.push({ type: 'text', text: token.value });
+        continue;
+      }
+
+      const tag = token.value;
+      if (tag.startsWith('!')) continue;
+
+      if (tag === 'else' || tag.startsWith('/')) {
+        if (closers.includes(tag)) {
+          return { nodes, closedBy: token };
+        }
+        throw new TemplateError(`Unexpected {{${tag}}}`, token.line);
+      }
+
+      const block = tag.match(/^#(if|unless|each)\s+([\s\S]+)$/);
+      if (block) {
+        nodes.push(this.parseBlock(block[1], block[2].trim(), token));
+        continue;
+      }
+      if (tag.startsWith('#')) {
+        throw new TemplateError(`Unknown block {{${tag}}}`, token.line);
+      }
+
+      nodes.push({ type: 'output', expression: this.parseExpression(tag, token.line) });
+    }
+
+    return { nodes };
+  }
+
+  private parseBlock(name: string, argument: string, token: Token): TemplateNode {
+    const close = `/${name}`;
+    const body = this.parseUntil(['else', close]);
+    if (!body.closedBy) {
+      throw new TemplateError(`Missing {{${close}}} for {{#${name}}}`, token.line);
+    }
+
+    let otherwise: TemplateNode[] = [];
+    if (body.closedBy.value === 'else') {
+      const rest = this.parseUntil([close]);
+      if (!rest.closedBy) {
+        throw new TemplateError(`Missing {{${close}}} for {{#${name}}}`, token.line);
+      }
+      otherwise = rest.nodes;
+    }
+
+    if (name === 'each') {
+      return { type: 'each', expression: this.parseExpression(argument, token.line), body: body.nodes, otherwise };
+    }
+    return { type: 'if', negate: name === 'unless', condition: this.parseCondition(argument, token.line), body: body.nodes, otherwise };
+  }
+
+  private parseCondition(source: string, line: number): Condition {
+    const comparison = splitOutsideQuotes(source, /(==|!=)/);
+    if (comparison.length === 1) {
+      return { left: this.parseExpression(source, line) };
+    }
+    if (comparison.length !== 3) {
+      throw new TemplateError(`Invalid condition "${source}"`, line);
+    }
+
+    const right = comparison[2].trim();
+    const literal = parseLiteral(right);
+    return {
+      left: this.parseExpression(comparison[0], line),
+      operator: comparison[1] as '==' | '!=',
+      right: literal !== undefined ? { literal } : this.parseExpression(right, line)
+    };
+  }
+
+  private parseExpression(source: string, line: number): Expression {
+    const [path, ...filterSources] = splitOutsideQuotes(source, /(\|)/).filter(part => part !== '|');
+    const expression: Expression = { path: path.trim(), filters: [] };
+    if (!/^(this|@\w+|[\w$-]+(\.[\w$-]+)*)$/.test(expression.path)) {
+      throw new TemplateError(`Invalid expression "${source.trim()}"`, line);
+    }
+
+    for (const filterSource of filterSources) {
+      const match = filterSource.trim().match(/^(\w+)(?:\s*:\s*([\s\S]*))?$/);
+      if (!match) {
+        throw new TemplateError(`Invalid filter "${filterSource.trim()}"`, line);
+      }
+      if (!this.filters[match[1]]) {
+        throw new TemplateError(`Unknown filter "${match[1]}"`, line);
+      }
+      expression.filters.push({ name: match[1], args: parseArguments(match[2] || '') });
+    }
+
+    return expression;
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  TAG_PATTERN.lastIndex = 0;
+  while ((match = TAG_PATTERN.exec(source)) !== null) {
+    const text = source.substring(last, match.index);
+    tokens.push({ kind: 'text', value: text, line });
+    line += countLines(text);
+    tokens.push({ kind: 'tag', value: match[1].trim(), line });
+    line += countLines(match[0]);
+    last = match.index + match[0].length;
+  }
+  tokens.push({ kind: 'text', value: source.substring(last), line });
+
+  // A block, else or comment tag alone on its line takes the line with it
+  let previousStandalone = true; // the template start counts as a line start
+  for (let i = 1; i < tokens.length - 1; i += 2) {
+    const standalone = /^[#/!]|^else$/.test(tokens[i].value);
+    const before = tokens[i - 1].value.match(/(^|\n)[ \t]*$/);
+    const after = tokens[i + 1].value.match(/^[ \t]*(\r?\n|$)/);
+    const lineStart = before && (before[1] === '\n' || previousStandalone);
+
+    previousStandalone = !!(standalone && lineStart && after);
+    if (previousStandalone) {
+      tokens[i - 1].value = tokens[i - 1].value.substring(0, before!.index! + before![1].length);
+      tokens[i + 1].value = tokens[i + 1].value.substring(after![0].length);
+    }
+  }
+
+  return tokens;
+}
+
+function countLines(text: string): number {
+  return (text.match(/\n/g) || []).length;
+}
+
+/**
+ * Split on a separator pattern (with one capture group) outside quoted strings
+ */
+function splitOutsideQuotes(source: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote = '';
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      current += char;
+      if (char === '\\') {
+        current += source[++i] ?? '';
+      } else if (char === quote) {
+        quote = '';
+      }
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+      continue;
+    }
+
+    const match = source.substring(i).match(new RegExp(`^${separator.source}`));
+    if (match) {
+      parts.push(current, match[1]);
+      current = '';
+      i += match[0].length - 1;
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+function parseArguments(source: string): any[] {
+  const args: any[] = [];
+  let match: RegExpExecArray | null;
+
+  ARGUMENT_PATTERN.lastIndex = 0;
+  while ((match = ARGUMENT_PATTERN.exec(source)) !== null) {
+    if (match[1] !== undefined) args.push(unescape(match[1]));
+    else if (match[2] !== undefined) args.push(unescape(match[2]));
+    else if (match[3] !== undefined) args.push(parseFloat(match[3]));
+    else args.push({ path: match[4] });
+  }
+  return args;
+}
+
+function parseLiteral(source: string): any {
+  if (/^"([^"\\]|\\.)*"$|^'([^'\\]|\\.)*'$/.test(source)) return unescape(source.slice(1, -1));
+  if (/^-?\d+(\.\d+)?$/.test(source)) return parseFloat(source);
+  if (source === 'true' || source === 'false') return source === 'true';
+  return undefined;
+}
+
+function unescape(text: string): string {
+  return text.replace(/\\n/g, '\n').replace(/\\(.)/g, '$1');
+}
+
+function lookup(path: string, scope: Scope): any {
+  if (path === 'this') return scope.value;
+  if (path.startsWith('@')) {
+    for (let current: Scope | undefined = scope; current; current = current.parent) {
+      if (path in current.locals) return current.locals[path];
+    }
+    return undefined;
+  }
+
+  const [head, ...rest] = path.split('.');
+  let value: any;
+  for (let current: Scope | undefined = scope; current; current = current.parent) {
+    if (current.value !== null && typeof current.value === 'object' && head in current.value) {
+      value = current.value[head];
+      break;
+    }
+  }
+
+  for (const key of rest) {
+    if (value === null || value === undefined) return undefined;
+    value = value[key];
+  }
+  return value;
+}
+
+function toList(value: any): Array<[string | number, any]> {
+  if (value === null || value === undefined || value === '') return [];
+  if (Array.isArray(value)) return value.map((item, index) => [index, item]);
+  if (value instanceof Map) return Array.from(value.entries());
+  if (typeof value === 'object' && !(value instanceof Date)) return Object.entries(value);
+  return [[0, value]];
+}
+
+function isTruthy(value: any): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (value instanceof Map) return value.size > 0;
+  return !!value;
+}
+
+function toText(value: any): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return isNaN(value.getTime()) ? '' : value.toISOString();
+  if (Array.isArray(value)) return value.map(toText).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Dates, Unix timestamps (ms) and date strings
+ */
+function toDate(value: any): Date | undefined {
+  if (value instanceof Date) return isNaN(value.getTime()) ? undefined : value;
+  if (value === null || value === undefined || value === '') return undefined;
+  const date = typeof value === 'number' ? new Date(value) : new Date(String(value));
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Moment-style tokens in local time: YYYY YY MM M DD D HH H mm ss
+ */
+export function formatDate(date: Date, format: string): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const values: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    YY: String(date.getFullYear()).slice(-2),
+    MM: pad(date.getMonth() + 1),
+    M: String(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    D: String(date.getDate()),
+    HH: pad(date.getHours()),
+    H: String(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds())
+  };
+  return format.replace(/YYYY|YY|MM|M|DD|D|HH|H|mm|ss/g, token => values[token]);
+}
@@ -0,0 +1,83 @@
+/**
+ * Vault I/O helper
+ * Reads and writes through the Obsidian vault adapter when one is provided,
+ * falling back to Node's fs module otherwise (same behaviour as the converters)
+ */
+
+export class VaultIO {
+  private vaultAdapter?: any;
+
+  constructor(vaultAdapter?: any) {
+    this.vaultAdapter = vaultAdapter;
+  }
+
+  /**
+   * Check whether a file or folder exists
+   */
+  async exists(filePath: string): Promise<boolean> {
+    if (this.vaultAdapter) {
+      return await this.vaultAdapter.exists(filePath);
+    }
+
+    const fs = require('fs');
+    return fs.existsSync(filePath);
+  }
+
+  /**
+   * Read a text file
+   */
+  async read(filePath: string): Promise<string> {
+    if (this.vaultAdapter) {
+      return await this.vaultAdapter.read(filePath);
+    }
+
+    const fs = require('fs');
+    return fs.readFileSync(filePath, 'utf-8');
+  }
+
+  /**
+   * Write a text file, replacing any existing content
+   */
+  async write(filePath: string, content: string): Promise<void> {
+    if (this.vaultAdapter) {
+      await this.vaultAdapter.write(filePath, content);
+    } else {
+      const fs = require('fs');
+      fs.writeFileSync(filePath, content, 'utf-8');
+    }
+  }
+
+  /**
+   * Write a binary file, replacing any existing content
+   */
+  async writeBinary(filePath: string, data: ArrayBuffer | Uint8Array): Promise<void> {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    if (this.vaultAdapter) {
+      const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+      await this.vaultAdapter.writeBinary(filePath, buffer);
+    } else {
+      const fs = require('fs');
+      fs.writeFileSync(filePath, Buffer.from(bytes));
+    }
+  }
+
+  /**
+   * Ensure directory exists
+   */
+  async ensureDirectory(dirPath: string): Promise<void> {
+    if (!dirPath) return;
+
+    if (this.vaultAdapter) {
+      if (!(await this.vaultAdapter.exists(dirPath))) {
+        await this.vaultAdapter.mkdir(dirPath);
+        console.log(`Created vault directory: ${dirPath}`);
+      }
+    } else {
+      const fs = require('fs');
+      if (!fs.existsSync(dirPath)) {
+        fs.mkdirSync(dirPath, { recursive: true });
+        console.log(`Created directory: ${dirPath}`);
+      }
+    }
+  }
+}
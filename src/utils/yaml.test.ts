@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { formatFrontmatter, formatYamlScalar } from './yaml';
+
+describe('formatYamlScalar dates', () => {
+  it('writes local time with the UTC offset', () => {
+    const date = new Date(2025, 4, 20, 6, 1, 21);
+    const offset = -date.getTimezoneOffset();
+    const sign = offset < 0 ? '-' : '+';
+    const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+    const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+
+    expect(formatYamlScalar(date)).toBe(`2025-05-20T06:01:21${sign}${hours}:${minutes}`);
+  });
+
+  it('reads back as the same instant', () => {
+    for (const iso of ['2025-01-31T23:30:00Z', '2025-07-01T00:15:00Z']) {
+      const date = new Date(iso);
+      expect(new Date(formatYamlScalar(date)).getTime()).toBe(date.getTime());
+    }
+  });
+
+  it('writes invalid dates as null', () => {
+    expect(formatFrontmatter({ created: new Date('not a date') })).toBe('---\ncreated: null\n---');
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * YAML serializer for note frontmatter
+ *
+ * Writes block-style YAML that Obsidian Properties reads back unchanged:
+ * nested objects stay mappings, arrays become lists, numbers and booleans stay
+ * typed, dates become ISO timestamps with their UTC offset, and strings are quoted whenever a plain
+ * scalar would be read as something else (colons, leading #, backslashes,
+ * reserved words, numbers and so on).
+ */
+
+import { formatDate } from './template-engine';
+
+const INDENT = '  ';
+
+// Strings a YAML 1.1 or 1.2 parser would read as booleans or null
+const RESERVED_WORDS = /^(true|false|yes|no|on|off|y|n|null|~)$/i;
+const NUMBER_LIKE = /^[-+]?(\d[\d_]*(\.\d*)?([eE][-+]?\d+)?|\.\d+([eE][-+]?\d+)?|0x[0-9a-fA-F]+|0o[0-7]+|\.inf|\.nan)$/i;
+// Safe plain scalar: no indicator at the start, no colons, #, backslashes, flow or quote characters
+const PLAIN_SCALAR = /^[^\s\-?:,[\]{}#&*!|>'"%@`\\][^\n:#[\]{},"'\\]*$/;
+
+/**
+ * Serialize a record as the lines between the frontmatter fences
+ */
+export function stringifyYaml(record: Record<string, any>): string {
+  const lines: string[] = [];
+  for (const [key, value] of Object.entries(record)) {
+    if (value === undefined || isBinary(value)) continue;
+    lines.push(...formatEntry(key, value, 0));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Frontmatter block, fences included; '' when there is nothing to write
+ */
+export function formatFrontmatter(record: Record<string, any>): string {
+  const yaml = stringifyYaml(record);
+  return yaml ? `---\n${yaml}\n---` : '';
+}
+
+/**
+ * Single scalar value as YAML (for values written into existing frontmatter)
+ */
+export function formatYamlScalar(value: any): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (typeof value === 'number') return isFinite(value) ? String(value) : quote(String(value));
+  if (value instanceof Date) return isNaN(value.getTime()) ? 'null' : formatTimestamp(value);
+  return formatString(String(value));
+}
+
+/**
+ * Mapping key, quoted when it is not a plain identifier
+ */
+export function formatYamlKey(key: string): string {
+  return /^[A-Za-z_][\w.-]*$/.test(key) ? key : quote(key);
+}
+
+/**
+ * Local time with its UTC offset (2025-05-20T06:01:21+02:00), read back as the same instant anywhere
+ */
+function formatTimestamp(date: Date): string {
+  const offset = -date.getTimezoneOffset();
+  const pad = (value: number) => String(Math.floor(Math.abs(value))).padStart(2, '0');
+  return `${formatDate(date, 'YYYY-MM-DDTHH:mm:ss')}${offset < 0 ? '-' : '+'}${pad(offset / 60)}:${pad(offset % 60)}`;
+}
+
+function formatEntry(key: string, value: any, depth: number): string[] {
+  const prefix = `${INDENT.repeat(depth)}${formatYamlKey(key)}:`;
+
+  if (Array.isArray(value)) {
+    const items = value.filter(item => item !== undefined && !isBinary(item));
+    if (items.length === 0) return [`${prefix} []`];
+    return [prefix, ...items.flatMap(item => formatItem(item, depth + 1))];
+  }
+
+  if (isMapping(value)) {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined && !isBinary(item));
+    if (entries.length === 0) return [`${prefix} {}`];
+    return [prefix, ...entries.flatMap(([subKey, item]) => formatEntry(subKey, item, depth + 1))];
+  }
+
+  if (typeof value === 'string' && value.includes('\n')) {
+    return [`${prefix} ${formatBlockScalar(value, depth + 1)}`];
+  }
+
+  return [`${prefix} ${formatYamlScalar(value)}`];
+}
+
+/**
+ * List item; mappings put their first key on the dash line
+ */
+function formatItem(value: any, depth: number): string[] {
+  const dash = `${INDENT.repeat(depth)}- `;
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return [`${dash}[]`];
+    const nested = value.flatMap(item => formatItem(item, depth + 1));
+    return [dash.trimEnd(), ...nested];
+  }
+
+  if (isMapping(value)) {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined && !isBinary(item));
+    if (entries.length === 0) return [`${dash}{}`];
+    const lines = entries.flatMap(([key, item]) => formatEntry(key, item, depth + 1));
+    lines[0] = dash + lines[0].substring(INDENT.repeat(depth + 1).length);
+    return lines;
+  }
+
+  if (typeof value === 'string' && value.includes('\n')) {
+    return [`${dash}${formatBlockScalar(value, depth + 1)}`];
+  }
+
+  return [`${dash}${formatYamlScalar(value)}`];
+}
+
+/**
+ * Multi-line strings as literal blocks; lines starting with spaces need quoting instead
+ */
+function formatBlockScalar(value: string, depth: number): string {
+  if (/^[ \t]/.test(value) || /[^\S\n]$/m.test(value) || /\n\n$/.test(value) || /[\x00-\x08\x0b-\x1f\x7f]/.test(value)) {
+    return quote(value);
+  }
+
+  const chomping = value.endsWith('\n') ? '' : '-';
+  const body = value.replace(/\n$/, '');
+  const indent = INDENT.repeat(depth);
+  return `|${chomping}\n${body.split('\n').map(line => line ? indent + line : '').join('\n')}`;
+}
+
+function formatString(value: string): string {
+  if (value === '' || RESERVED_WORDS.test(value) || NUMBER_LIKE.test(value) || !PLAIN_SCALAR.test(value) || /\s$/.test(value)) {
+    return quote(value);
+  }
+  return value;
+}
+
+/**
+ * Double-quoted scalar with JSON-compatible escapes (valid YAML)
+ */
+function quote(value: string): string {
+  return JSON.stringify(value).replace(/\u2028/g, '\\L').replace(/\u2029/g, '\\P');
+}
+
+function isMapping(value: any): boolean {
+  return value !== null && typeof value === 'object' && !(value instanceof Date) && !Array.isArray(value);
+}
+
+function isBinary(value: any): boolean {
+  return value instanceof ArrayBuffer || ArrayBuffer.isView(value);
+}